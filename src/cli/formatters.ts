@@ -0,0 +1,154 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { Diagnostic } from 'vscode-languageserver-types';
+import { DiagnosticSeverity } from 'vscode-languageserver-types';
+
+export type OutputFormat = 'human' | 'json' | 'sarif';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['human', 'json', 'sarif'];
+
+export interface FileValidationResult {
+  /**
+   * Path of the file, relative to the working directory
+   */
+  file: string;
+  diagnostics: Diagnostic[];
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/redhat-developer/yaml-language-server';
+
+export function formatResults(results: FileValidationResult[], format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return formatJson(results);
+    case 'sarif':
+      return formatSarif(results);
+    default:
+      return formatHuman(results);
+  }
+}
+
+/**
+ * One line per diagnostic, `file:line:column severity message [code]`, followed by a summary.
+ */
+export function formatHuman(results: FileValidationResult[]): string {
+  const lines: string[] = [];
+  const counts = { errors: 0, warnings: 0, infos: 0 };
+  for (const result of results) {
+    for (const diagnostic of result.diagnostics) {
+      const { line, character } = diagnostic.range.start;
+      const code = getRuleId(diagnostic);
+      const severity = severityLabel(diagnostic.severity);
+      lines.push(`${result.file}:${line + 1}:${character + 1} ${severity} ${diagnostic.message}${code ? ` [${code}]` : ''}`);
+      if (severity === 'error') {
+        counts.errors++;
+      } else if (severity === 'warning') {
+        counts.warnings++;
+      } else {
+        counts.infos++;
+      }
+    }
+  }
+  const total = counts.errors + counts.warnings + counts.infos;
+  lines.push(
+    `${total} ${total === 1 ? 'problem' : 'problems'} (${counts.errors} errors, ${counts.warnings} warnings, ${counts.infos} infos) in ${
+      results.length
+    } ${results.length === 1 ? 'file' : 'files'}`
+  );
+  return lines.join('\n') + '\n';
+}
+
+export function formatJson(results: FileValidationResult[]): string {
+  return JSON.stringify(results, null, 2) + '\n';
+}
+
+/**
+ * SARIF 2.1.0 log, as consumed by code scanning tools.
+ */
+export function formatSarif(results: FileValidationResult[]): string {
+  const rules = new Set<string>();
+  const sarifResults = [];
+  for (const result of results) {
+    for (const diagnostic of result.diagnostics) {
+      const ruleId = getRuleId(diagnostic);
+      if (ruleId) {
+        rules.add(ruleId);
+      }
+      const { start, end } = diagnostic.range;
+      sarifResults.push({
+        ruleId,
+        level: sarifLevel(diagnostic.severity),
+        message: { text: diagnostic.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: encodeURI(result.file) },
+              region: {
+                startLine: start.line + 1,
+                startColumn: start.character + 1,
+                endLine: end.line + 1,
+                endColumn: end.character + 1,
+              },
+            },
+          },
+        ],
+      });
+    }
+  }
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'yaml-language-server',
+            version: process.env.YAML_LANGUAGE_SERVER_VERSION || 'unknown',
+            informationUri: INFORMATION_URI,
+            rules: Array.from(rules)
+              .sort()
+              .map((id) => ({ id })),
+          },
+        },
+        results: sarifResults,
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+function getRuleId(diagnostic: Diagnostic): string | undefined {
+  if (diagnostic.code === undefined || diagnostic.code === null || diagnostic.code === 0) {
+    return undefined;
+  }
+  return String(diagnostic.code);
+}
+
+function severityLabel(severity: DiagnosticSeverity | undefined): string {
+  switch (severity) {
+    case DiagnosticSeverity.Warning:
+      return 'warning';
+    case DiagnosticSeverity.Information:
+      return 'info';
+    case DiagnosticSeverity.Hint:
+      return 'hint';
+    default:
+      return 'error';
+  }
+}
+
+function sarifLevel(severity: DiagnosticSeverity | undefined): string {
+  switch (severity) {
+    case DiagnosticSeverity.Warning:
+      return 'warning';
+    case DiagnosticSeverity.Information:
+    case DiagnosticSeverity.Hint:
+      return 'note';
+    default:
+      return 'error';
+  }
+}
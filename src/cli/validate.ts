@@ -0,0 +1,409 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import picomatch from 'picomatch';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Diagnostic } from 'vscode-languageserver-types';
+import { DiagnosticSeverity } from 'vscode-languageserver-types';
+import { URI } from 'vscode-uri';
+import { parse } from 'yaml';
+import { configureProjectSchemas } from '../languageserver/handlers/settingsHandlers';
+import { toPublishedDiagnostics } from '../languageserver/handlers/validationHandlers';
+import { isKubernetesAssociatedDocument } from '../languageservice/parser/isKubernetes';
+import type { YamlVersion } from '../languageservice/parser/yamlParser07';
+import type { FileSystem } from '../languageservice/services/schemaRequestHandler';
+import { schemaRequestHandler, workspaceContext } from '../languageservice/services/schemaRequestHandler';
+import type { Telemetry } from '../languageservice/telemetry';
+import { resolveWorkspacePath } from '../languageservice/utils/paths';
+import type { ProjectConfig } from '../languageservice/utils/projectConfig';
+import { loadProjectConfigs } from '../languageservice/utils/projectConfig';
+import type { SchemaDetectionRule } from '../languageservice/utils/schemaDetection';
+import type { LintRuleConfig, LintRuleSeverity } from '../languageservice/services/validation/types';
+import { getLintRuleOptions, getLintRuleSeverities } from '../languageservice/services/yamlValidation';
+import { DEFAULT_SCHEMA_DETECTION_RULES } from '../languageservice/utils/schemaDetection';
+import { checkSchemaURI, isKubernetes, normalizeKubernetesVersion } from '../languageservice/utils/schemaUrls';
+import type { LanguageService, LanguageSettings } from '../languageservice/yamlLanguageService';
+import { getLanguageService, SchemaPriority } from '../languageservice/yamlLanguageService';
+import { nodeWorkspaceFileProvider, walkDirectory } from '../nodeWorkspaceFiles';
+import { NodeSchemaCache } from '../nodeSchemaCache';
+import { getSchemaCacheOptions, SettingsState } from '../yamlSettings';
+import type { FileValidationResult, OutputFormat } from './formatters';
+import { formatResults, OUTPUT_FORMATS } from './formatters';
+
+/**
+ * Content of the configuration file passed with `--config`.
+ * The keys mirror the `yaml.*` settings of the language server.
+ */
+export interface ValidateConfig {
+  schemas?: { [uri: string]: string | string[] };
+  customTags?: string[];
+  yamlVersion?: YamlVersion;
+  kubernetesVersion?: string;
+  kubernetesFolderVersions?: { [folder: string]: string };
+  kubernetesCRDStore?: {
+    enable?: boolean;
+    url?: string;
+  };
+  kubernetesWorkspaceCRDs?: {
+    enable?: boolean;
+  };
+  schemaCache?: {
+    enable?: boolean;
+    ttl?: number;
+  };
+  offline?: boolean;
+  disableAdditionalProperties?: boolean;
+  keyOrdering?: boolean;
+  lint?: {
+    rules?: { [ruleId: string]: LintRuleSeverity | LintRuleConfig };
+  };
+  validateIncludes?: boolean;
+  style?: {
+    flowMapping?: 'allow' | 'forbid';
+    flowSequence?: 'allow' | 'forbid';
+  };
+  contentSchemaDetection?: {
+    enable?: boolean;
+    rules?: SchemaDetectionRule[];
+  };
+}
+
+export interface ValidateOptions {
+  patterns: string[];
+  format: OutputFormat;
+  config?: string;
+  help?: boolean;
+}
+
+export const VALIDATE_USAGE = `Usage: yaml-language-server validate [options] <files or globs...>
+
+Validates YAML files the same way the language server does and prints the diagnostics.
+
+Options:
+  --config <file>     JSON or YAML file with the settings to use (schemas, customTags, yamlVersion, ...)
+  --format <format>   output format: ${OUTPUT_FORMATS.join(', ')} (default: human)
+  --help | -h         print this help message and exit
+
+Exit codes:
+  0   no errors were reported
+  1   at least one file has errors
+  2   invalid arguments, invalid configuration or no file matched
+`;
+
+const DEFAULT_EXTENSIONS = ['.yml', '.yaml'];
+
+const fileSystem: FileSystem = {
+  readFile: async (fsPath: string, encoding?: string) => {
+    const b = await fs.readFile(fsPath, encoding as BufferEncoding);
+    return b.toString();
+  },
+};
+
+const cliTelemetry: Telemetry = {
+  send: () => undefined,
+  sendError: () => undefined,
+  sendTrack: () => undefined,
+};
+
+export class UsageError extends Error {}
+
+/**
+ * Parse the arguments given after the `validate` command.
+ * @throws UsageError if the arguments are invalid
+ */
+export function parseValidateArgs(args: string[]): ValidateOptions {
+  const options: ValidateOptions = { patterns: [], format: 'human' };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      options.help = true;
+    } else if (arg === '--format' || arg === '--config') {
+      const value = args[++i];
+      if (value === undefined) {
+        throw new UsageError(`Missing value for ${arg}`);
+      }
+      setOption(options, arg, value);
+    } else if (arg.startsWith('--format=') || arg.startsWith('--config=')) {
+      const separator = arg.indexOf('=');
+      setOption(options, arg.substring(0, separator), arg.substring(separator + 1));
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else {
+      options.patterns.push(arg);
+    }
+  }
+  return options;
+}
+
+function setOption(options: ValidateOptions, name: string, value: string): void {
+  if (name === '--format') {
+    if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+      throw new UsageError(`Unknown format '${value}', expected one of ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    options.format = value as OutputFormat;
+  } else {
+    options.config = value;
+  }
+}
+
+/**
+ * Read the configuration file, either JSON or YAML.
+ */
+export async function loadValidateConfig(configPath: string): Promise<ValidateConfig> {
+  const content = await fs.readFile(configPath, 'utf-8');
+  const config = parse(content);
+  if (config === null || config === undefined) {
+    return {};
+  }
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new UsageError(`Invalid configuration file '${configPath}': expected a mapping`);
+  }
+  return config;
+}
+
+/**
+ * Resolve files and glob patterns into a sorted list of absolute file paths.
+ * Directories are expanded to all the YAML files they contain.
+ */
+export async function findFiles(patterns: string[], cwd: string): Promise<string[]> {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    const scan = picomatch.scan(pattern);
+    if (!scan.isGlob) {
+      const fsPath = path.resolve(cwd, pattern);
+      const stat = await fs.stat(fsPath).catch(() => undefined);
+      if (stat?.isDirectory()) {
+        await walkDirectory(fsPath, (file) => {
+          if (DEFAULT_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+            files.add(file);
+          }
+        });
+      } else if (stat?.isFile()) {
+        files.add(fsPath);
+      }
+      continue;
+    }
+    const isMatch = picomatch(toPosixPath(pattern));
+    const base = path.resolve(cwd, scan.base || '.');
+    await walkDirectory(base, (file) => {
+      const candidate = path.isAbsolute(pattern) ? file : path.relative(cwd, file);
+      if (isMatch(toPosixPath(candidate))) {
+        files.add(file);
+      }
+    });
+  }
+  return Array.from(files).sort();
+}
+
+function toPosixPath(fsPath: string): string {
+  return fsPath.split(path.sep).join('/');
+}
+
+/**
+ * Create a language service configured from the CLI configuration, the way
+ * `SettingsHandler` configures it from the client settings.
+ * @param config the configuration
+ * @param rootPath the folder relative schema paths are resolved against
+ * @param projectConfigs the `.yaml-language-server.yaml` and `.yamllint` files applying to the validated files
+ */
+export function createValidationService(
+  config: ValidateConfig,
+  rootPath: string,
+  projectConfigs: ProjectConfig[] = []
+): { languageService: LanguageService; yamlSettings: SettingsState } {
+  const yamlSettings = new SettingsState();
+  yamlSettings.workspaceRoot = URI.file(rootPath);
+  if (config.kubernetesCRDStore) {
+    yamlSettings.kubernetesCRDStoreEnabled = config.kubernetesCRDStore.enable !== false;
+    if (config.kubernetesCRDStore.url) {
+      yamlSettings.kubernetesCRDStoreUrl = config.kubernetesCRDStore.url;
+    }
+  }
+
+  yamlSettings.kubernetesVersion = normalizeKubernetesVersion(config.kubernetesVersion);
+  for (const [folder, version] of Object.entries(config.kubernetesFolderVersions ?? {})) {
+    const normalizedVersion = normalizeKubernetesVersion(version);
+    if (normalizedVersion) {
+      yamlSettings.kubernetesFolderVersions.push({
+        folder: resolveWorkspacePath(yamlSettings.workspaceFolders, yamlSettings.workspaceRoot, folder),
+        version: normalizedVersion,
+      });
+    }
+  }
+  yamlSettings.kubernetesWorkspaceCRDsEnabled = config.kubernetesWorkspaceCRDs?.enable !== false;
+
+  yamlSettings.schemaCache = new NodeSchemaCache();
+  yamlSettings.schemaCacheEnabled = config.schemaCache?.enable !== false;
+  if (typeof config.schemaCache?.ttl === 'number') {
+    yamlSettings.schemaCacheTTL = config.schemaCache.ttl;
+  }
+  yamlSettings.offline = config.offline ?? false;
+
+  const schemaRequestService = (uri: string): Promise<string> =>
+    schemaRequestHandler(
+      undefined,
+      uri,
+      yamlSettings.workspaceFolders,
+      yamlSettings.workspaceRoot,
+      false,
+      fileSystem,
+      false,
+      getSchemaCacheOptions(yamlSettings)
+    );
+  const languageService = getLanguageService({
+    schemaRequestService,
+    workspaceContext,
+    telemetry: cliTelemetry,
+    yamlSettings,
+    fileReaderService: nodeWorkspaceFileProvider.readFile,
+  });
+
+  const languageSettings: LanguageSettings = {
+    validate: true,
+    schemas: [],
+    customTags: config.customTags ?? [],
+    yamlVersion: config.yamlVersion ?? '1.2',
+    disableAdditionalProperties: config.disableAdditionalProperties ?? false,
+    keyOrdering: config.keyOrdering ?? false,
+    lintRules: getLintRuleSeverities(config.lint?.rules),
+    lintRuleOptions: getLintRuleOptions(config.lint?.rules),
+    validateIncludes: config.validateIncludes ?? false,
+    flowMapping: config.style?.flowMapping ?? 'allow',
+    flowSequence: config.style?.flowSequence ?? 'allow',
+    projectConfigs,
+  };
+  for (const schemaUri in config.schemas ?? {}) {
+    const globPattern = config.schemas[schemaUri];
+    const fileMatch = Array.isArray(globPattern) ? globPattern : [globPattern];
+    const uri = checkSchemaURI(
+      yamlSettings.workspaceFolders,
+      yamlSettings.workspaceRoot,
+      schemaUri,
+      cliTelemetry,
+      yamlSettings.kubernetesVersion
+    );
+    languageSettings.schemas.push({ uri, fileMatch, priority: SchemaPriority.Settings });
+    if (isKubernetes(uri)) {
+      yamlSettings.specificValidatorPaths.push(...fileMatch);
+    }
+  }
+  for (const projectConfig of projectConfigs) {
+    configureProjectSchemas(projectConfig, languageSettings, yamlSettings, cliTelemetry);
+  }
+  languageSettings.schemaDetectionRules = (config.contentSchemaDetection?.rules ?? [])
+    .map((rule) => ({
+      ...rule,
+      uri: checkSchemaURI(
+        yamlSettings.workspaceFolders,
+        yamlSettings.workspaceRoot,
+        rule.uri,
+        cliTelemetry,
+        yamlSettings.kubernetesVersion
+      ),
+    }))
+    .concat(config.contentSchemaDetection?.enable ? DEFAULT_SCHEMA_DETECTION_RULES : []);
+  languageService.configure(languageSettings);
+  return { languageService, yamlSettings };
+}
+
+/**
+ * Validate the given files, with the `.yaml-language-server.yaml` and `.yamllint` files of their folders and parent folders.
+ * @param files absolute paths of the files to validate
+ * @param config the configuration
+ * @param rootPath the folder relative schema paths are resolved against
+ * @param cwd the folder file names are reported relative to
+ */
+export async function validateFiles(
+  files: string[],
+  config: ValidateConfig,
+  rootPath: string,
+  cwd: string
+): Promise<FileValidationResult[]> {
+  const loadedProjectConfigs = new Map<string, ProjectConfig | undefined>();
+  await loadProjectConfigs(
+    files.map((file) => URI.file(file).toString()),
+    nodeWorkspaceFileProvider.readFile,
+    loadedProjectConfigs,
+    (error) => {
+      throw error;
+    }
+  );
+  const projectConfigs = Array.from(loadedProjectConfigs.values()).filter((projectConfig) => projectConfig !== undefined);
+  const { languageService, yamlSettings } = createValidationService(config, rootPath, projectConfigs);
+  const documents: TextDocument[] = [];
+  for (const file of files) {
+    const document = TextDocument.create(URI.file(file).toString(), 'yaml', 1, await fs.readFile(file, 'utf-8'));
+    if (yamlSettings.kubernetesWorkspaceCRDsEnabled) {
+      // the custom resources are validated against the definitions of all the files
+      languageService.updateCustomResourceDefinitions(document.uri, document.getText());
+    }
+    documents.push(document);
+  }
+
+  const results: FileValidationResult[] = [];
+  for (const [index, file] of files.entries()) {
+    const document = documents[index];
+    const diagnostics = await languageService.doValidation(
+      document,
+      isKubernetesAssociatedDocument(document, yamlSettings.specificValidatorPaths)
+    );
+    results.push({ file: toPosixPath(path.relative(cwd, file)), diagnostics: toPublishedDiagnostics(diagnostics) });
+  }
+  return results;
+}
+
+export function hasErrors(results: FileValidationResult[]): boolean {
+  return results.some((result) =>
+    result.diagnostics.some((diagnostic: Diagnostic) => diagnostic.severity === DiagnosticSeverity.Error)
+  );
+}
+
+/**
+ * Entry point of `yaml-language-server validate`.
+ * @returns the process exit code
+ */
+export async function runValidate(
+  args: string[],
+  out: (text: string) => void = (text) => process.stdout.write(text),
+  err: (text: string) => void = (text) => process.stderr.write(text),
+  cwd = process.cwd()
+): Promise<number> {
+  try {
+    const options = parseValidateArgs(args);
+    if (options.help) {
+      out(VALIDATE_USAGE);
+      return 0;
+    }
+    if (options.patterns.length === 0) {
+      throw new UsageError('No files or glob patterns specified');
+    }
+
+    let config: ValidateConfig = {};
+    let rootPath = cwd;
+    if (options.config) {
+      const configPath = path.resolve(cwd, options.config);
+      config = await loadValidateConfig(configPath);
+      rootPath = path.dirname(configPath);
+    }
+
+    const files = await findFiles(options.patterns, cwd);
+    if (files.length === 0) {
+      throw new UsageError(`No files matching ${options.patterns.join(', ')}`);
+    }
+
+    const results = await validateFiles(files, config, rootPath, cwd);
+    out(formatResults(results, options.format));
+    return hasErrors(results) ? 1 : 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      err(`${error.message}\n\n${VALIDATE_USAGE}`);
+    } else {
+      err(`${error?.message ?? error}\n`);
+    }
+    return 2;
+  }
+}
@@ -0,0 +1,130 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import type { FileEvent } from 'vscode-languageserver';
+import { FileChangeType } from 'vscode-languageserver';
+import type { Telemetry } from '../../languageservice/telemetry';
+import type { LanguageService } from '../../languageservice/yamlLanguageService';
+import type { SettingsState } from '../../yamlSettings';
+import type { ValidationHandler, WorkspaceFileProvider } from './validationHandlers';
+import { findWorkspaceFiles } from './validationHandlers';
+
+/**
+ * Keeps the schemas of the custom resources in sync with the CustomResourceDefinitions of the workspace:
+ * the files of the workspace folders are scanned when enabled, then followed through the open documents
+ * and the watched file changes.
+ */
+export class CustomResourceDefinitionHandler {
+  private enabled = false;
+
+  constructor(
+    private readonly languageService: LanguageService,
+    private readonly yamlSettings: SettingsState,
+    private readonly validationHandler: ValidationHandler,
+    private readonly workspaceFiles?: WorkspaceFileProvider,
+    private readonly telemetry?: Telemetry
+  ) {}
+
+  registerHandlers(): void {
+    this.yamlSettings.documents.onDidChangeContent((change) => {
+      if (this.enabled && this.languageService.updateCustomResourceDefinitions(change.document.uri, change.document.getText())) {
+        this.revalidate();
+      }
+    });
+    this.yamlSettings.documents.onDidClose((event) => {
+      // the unsaved changes are discarded
+      if (this.enabled) {
+        this.updateFromFiles([event.document.uri]);
+      }
+    });
+  }
+
+  /**
+   * Scan the workspace when the workspace CRDs get enabled, forget them when they get disabled
+   */
+  async configure(): Promise<void> {
+    const enabled = this.yamlSettings.kubernetesWorkspaceCRDsEnabled;
+    if (enabled === this.enabled) {
+      return;
+    }
+    this.enabled = enabled;
+    if (!enabled) {
+      if (this.languageService.clearCustomResourceDefinitions()) {
+        this.revalidate();
+      }
+      return;
+    }
+
+    let hasChanges = false;
+    for (const document of this.yamlSettings.documents.all()) {
+      hasChanges = this.languageService.updateCustomResourceDefinitions(document.uri, document.getText()) || hasChanges;
+    }
+    if (hasChanges) {
+      this.revalidate();
+    }
+    if (this.workspaceFiles) {
+      try {
+        await this.updateFromFiles(await findWorkspaceFiles(this.workspaceFiles, this.yamlSettings));
+      } catch (err) {
+        this.telemetry?.sendError('yaml.customResourceDefinitions.error', err);
+      }
+    }
+  }
+
+  async filesChanged(changes: FileEvent[]): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+    const deleted = changes.filter((change) => change.type === FileChangeType.Deleted && this.isYamlFile(change.uri));
+    let hasChanges = false;
+    for (const change of deleted) {
+      hasChanges = this.languageService.updateCustomResourceDefinitions(change.uri, undefined) || hasChanges;
+    }
+    if (hasChanges) {
+      this.revalidate();
+    }
+    await this.updateFromFiles(
+      changes
+        .filter((change) => change.type !== FileChangeType.Deleted && this.isYamlFile(change.uri))
+        .map((change) => change.uri)
+    );
+  }
+
+  /**
+   * Read the definitions of the files which are not opened, the open documents are followed through their content
+   */
+  private async updateFromFiles(uris: string[]): Promise<void> {
+    if (!this.workspaceFiles) {
+      return;
+    }
+    let hasChanges = false;
+    for (const uri of uris) {
+      if (!this.enabled) {
+        return;
+      }
+      if (this.yamlSettings.documents.get(uri)) {
+        continue;
+      }
+      let content: string | undefined;
+      try {
+        content = await this.workspaceFiles.readFile(uri);
+      } catch {
+        content = undefined;
+      }
+      hasChanges = this.languageService.updateCustomResourceDefinitions(uri, content) || hasChanges;
+    }
+    if (hasChanges) {
+      this.revalidate();
+    }
+  }
+
+  private isYamlFile(uri: string): boolean {
+    const lowerCaseUri = uri.toLowerCase();
+    return this.yamlSettings.fileExtensions.some((extension) => lowerCaseUri.endsWith(extension));
+  }
+
+  private revalidate(): void {
+    this.validationHandler.revalidate();
+  }
+}
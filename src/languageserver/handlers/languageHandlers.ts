@@ -4,10 +4,13 @@
  *--------------------------------------------------------------------------------------------*/
 
 import type { Connection } from 'vscode-languageserver';
+import { DocumentRangesFormattingRequest } from 'vscode-languageserver';
 import type {
   CodeActionParams,
   DidChangeWatchedFilesParams,
   DocumentFormattingParams,
+  DocumentRangeFormattingParams,
+  DocumentRangesFormattingParams,
   DocumentLinkParams,
   DocumentOnTypeFormattingParams,
   DocumentSymbolParams,
@@ -18,6 +21,11 @@ import type {
   DefinitionParams,
   PrepareRenameParams,
   RenameParams,
+  ReferenceParams,
+  DocumentHighlightParams,
+  SemanticTokensParams,
+  InlayHintParams,
+  SignatureHelpParams,
 } from 'vscode-languageserver-protocol';
 import type {
   CodeAction,
@@ -33,12 +41,21 @@ import type {
   SymbolInformation,
   TextEdit,
   WorkspaceEdit,
+  Location,
+  DocumentHighlight,
+  SemanticTokens,
+  InlayHint,
+  SignatureHelp,
 } from 'vscode-languageserver-types';
 import { isKubernetesAssociatedDocument } from '../../languageservice/parser/isKubernetes';
 import type { LanguageService } from '../../languageservice/yamlLanguageService';
 import type { SettingsState } from '../../yamlSettings';
 import type { ValidationHandler } from './validationHandlers';
-import { ResultLimitReachedNotification } from '../../requestTypes';
+import type { CustomResourceDefinitionHandler } from './customResourceDefinitionHandlers';
+import type { ProjectConfigHandler } from './projectConfigHandlers';
+import type { Telemetry } from '../../languageservice/telemetry';
+import { ResultLimitReachedNotification, SchemaAtPositionRequest } from '../../requestTypes';
+import type { SchemaAtPosition } from '../../languageservice/services/yamlSchemaAtPosition';
 import * as path from 'path';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 
@@ -53,7 +70,10 @@ export class LanguageHandlers {
     private readonly connection: Connection,
     languageService: LanguageService,
     yamlSettings: SettingsState,
-    validationHandler: ValidationHandler
+    validationHandler: ValidationHandler,
+    private readonly customResourceDefinitionHandler?: CustomResourceDefinitionHandler,
+    private readonly projectConfigHandler?: ProjectConfigHandler,
+    private readonly telemetry?: Telemetry
   ) {
     this.languageService = languageService;
     this.yamlSettings = yamlSettings;
@@ -65,18 +85,31 @@ export class LanguageHandlers {
     this.connection.onDocumentLinks((params) => this.documentLinkHandler(params));
     this.connection.onDocumentSymbol((documentSymbolParams) => this.documentSymbolHandler(documentSymbolParams));
     this.connection.onDocumentFormatting((formatParams) => this.formatterHandler(formatParams));
+    this.connection.onDocumentRangeFormatting((params) => this.rangeFormatterHandler(params));
+    this.connection.onRequest(DocumentRangesFormattingRequest.type, (params) => this.rangesFormatterHandler(params));
     this.connection.onHover((textDocumentPositionParams) => this.hoverHandler(textDocumentPositionParams));
     this.connection.onCompletion((textDocumentPosition) => this.completionHandler(textDocumentPosition));
     this.connection.onDidChangeWatchedFiles((change) => this.watchedFilesHandler(change));
     this.connection.onFoldingRanges((params) => this.foldingRangeHandler(params));
     this.connection.onSelectionRanges((params) => this.selectionRangeHandler(params));
     this.connection.onCodeAction((params) => this.codeActionHandler(params));
+    this.connection.onCodeActionResolve((params) => this.codeActionResolveHandler(params));
     this.connection.onDocumentOnTypeFormatting((params) => this.formatOnTypeHandler(params));
     this.connection.onCodeLens((params) => this.codeLensHandler(params));
     this.connection.onCodeLensResolve((params) => this.codeLensResolveHandler(params));
     this.connection.onDefinition((params) => this.definitionHandler(params));
     this.connection.onPrepareRename((params) => this.prepareRenameHandler(params));
     this.connection.onRenameRequest((params) => this.renameHandler(params));
+    this.connection.onReferences((params) => this.referencesHandler(params));
+    this.connection.onDocumentHighlight((params) => this.documentHighlightHandler(params));
+    this.connection.languages.semanticTokens.on((params) => this.semanticTokensHandler(params));
+    this.connection.languages.inlayHint.on((params) => this.inlayHintHandler(params));
+    this.connection.onSignatureHelp((params) => this.signatureHelpHandler(params));
+    this.connection.onRequest(SchemaAtPositionRequest.type, (params) => this.schemaAtPositionHandler(params));
+    this.connection.languages.diagnostics.on((params) => this.validationHandler.documentDiagnosticHandler(params));
+    this.connection.languages.diagnostics.onWorkspace((params, token) =>
+      this.validationHandler.workspaceDiagnosticHandler(params, token)
+    );
 
     this.yamlSettings.documents.onDidChangeContent((change) => this.cancelLimitExceededWarnings(change.document.uri));
     this.yamlSettings.documents.onDidClose((event) => this.cancelLimitExceededWarnings(event.document.uri));
@@ -141,6 +174,38 @@ export class LanguageHandlers {
     return this.languageService.doFormat(document, customFormatterSettings);
   }
 
+  /**
+   * Called when a selection is formatted
+   * Returns the edits of the lines touching the selection
+   */
+  rangeFormatterHandler(params: DocumentRangeFormattingParams): Promise<TextEdit[]> {
+    return this.rangesFormatterHandler({ textDocument: params.textDocument, ranges: [params.range], options: params.options });
+  }
+
+  /**
+   * Called when several ranges are formatted, for example the modified ranges on save
+   * Returns the edits of the lines touching the ranges
+   */
+  async rangesFormatterHandler(params: DocumentRangesFormattingParams): Promise<TextEdit[]> {
+    const document = this.yamlSettings.documents.get(params.textDocument.uri);
+
+    if (!document) {
+      return [];
+    }
+
+    const formatEnabled = await this.resolveFormatterState(document);
+    if (!formatEnabled) {
+      return [];
+    }
+
+    const customFormatterSettings = {
+      tabWidth: params.options.tabSize,
+      ...this.yamlSettings.yamlFormatterSettings,
+    };
+
+    return this.languageService.doRangeFormat(document, params.ranges, customFormatterSettings);
+  }
+
   formatOnTypeHandler(params: DocumentOnTypeFormattingParams): Promise<TextEdit[] | undefined> | TextEdit[] | undefined {
     const document = this.yamlSettings.documents.get(params.textDocument.uri);
 
@@ -200,8 +265,18 @@ export class LanguageHandlers {
     });
 
     if (hasChanges) {
-      this.yamlSettings.documents.all().forEach((document) => this.validationHandler.validate(document));
+      this.validationHandler.revalidate();
+    } else {
+      // revalidate the documents including the changed files, for the diagnostics of their `!include` tags
+      const includingDocuments = new Set(change.changes.flatMap((c) => this.languageService.getIncludingDocuments(c.uri)));
+      if (includingDocuments.size) {
+        this.validationHandler.revalidate([...includingDocuments]);
+      }
     }
+    this.customResourceDefinitionHandler
+      ?.filesChanged(change.changes)
+      .catch((err) => this.telemetry?.sendError('yaml.customResourceDefinitions.error', err));
+    this.projectConfigHandler?.filesChanged(change.changes);
   }
 
   foldingRangeHandler(params: FoldingRangeParams): Promise<FoldingRange[] | undefined> | FoldingRange[] | undefined {
@@ -232,7 +307,7 @@ export class LanguageHandlers {
     return this.languageService.getSelectionRanges(textDocument, params.positions);
   }
 
-  codeActionHandler(params: CodeActionParams): CodeAction[] | undefined {
+  async codeActionHandler(params: CodeActionParams): Promise<CodeAction[] | undefined> {
     const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
     if (!textDocument) {
       return;
@@ -241,6 +316,15 @@ export class LanguageHandlers {
     return this.languageService.getCodeAction(textDocument, params);
   }
 
+  codeActionResolveHandler(param: CodeAction): Promise<CodeAction> | CodeAction {
+    const textDocument = this.yamlSettings.documents.get((param.data as { uri?: string })?.uri);
+    if (!textDocument) {
+      return param;
+    }
+
+    return this.languageService.resolveCodeAction(textDocument, param);
+  }
+
   async codeLensHandler(params: CodeLensParams): Promise<CodeLens[] | undefined> {
     await this.yamlSettings.configurationPullPromise;
     const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
@@ -254,13 +338,19 @@ export class LanguageHandlers {
     return this.languageService.resolveCodeLens(param);
   }
 
-  definitionHandler(params: DefinitionParams): DefinitionLink[] {
+  definitionHandler(params: DefinitionParams): DefinitionLink[] | Promise<DefinitionLink[]> {
     const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
     if (!textDocument) {
       return;
     }
 
-    return this.languageService.doDefinition(textDocument, params);
+    return (
+      this.languageService.doDefinition(
+        textDocument,
+        params,
+        isKubernetesAssociatedDocument(textDocument, this.yamlSettings.specificValidatorPaths)
+      ) ?? this.languageService.doSchemaDefinition(textDocument, params)
+    );
   }
 
   prepareRenameHandler(params: PrepareRenameParams): Range | null {
@@ -281,6 +371,64 @@ export class LanguageHandlers {
     return this.languageService.doRename(textDocument, params);
   }
 
+  referencesHandler(params: ReferenceParams): Location[] {
+    const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
+    if (!textDocument) {
+      return [];
+    }
+
+    return this.languageService.findReferences(textDocument, params);
+  }
+
+  documentHighlightHandler(params: DocumentHighlightParams): DocumentHighlight[] {
+    const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
+    if (!textDocument) {
+      return [];
+    }
+
+    return this.languageService.findDocumentHighlights(textDocument, params);
+  }
+
+  semanticTokensHandler(params: SemanticTokensParams): Promise<SemanticTokens> {
+    const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
+    if (!textDocument) {
+      return Promise.resolve({ data: [] });
+    }
+
+    return this.languageService.getSemanticTokens(textDocument);
+  }
+
+  inlayHintHandler(params: InlayHintParams): Promise<InlayHint[]> {
+    const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
+    if (!textDocument) {
+      return Promise.resolve([]);
+    }
+
+    return this.languageService.getInlayHints(textDocument, params.range);
+  }
+
+  signatureHelpHandler(params: SignatureHelpParams): Promise<SignatureHelp | null> {
+    const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
+    if (!textDocument) {
+      return Promise.resolve(null);
+    }
+
+    return this.languageService.doSignatureHelp(textDocument, params.position, params.context);
+  }
+
+  schemaAtPositionHandler(params: TextDocumentPositionParams): Promise<SchemaAtPosition | null> {
+    const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
+    if (!textDocument) {
+      return Promise.resolve(null);
+    }
+
+    return this.languageService.getSchemaAtPosition(
+      textDocument,
+      params.position,
+      isKubernetesAssociatedDocument(textDocument, this.yamlSettings.specificValidatorPaths)
+    );
+  }
+
   // Adapted from:
   // https://github.com/microsoft/vscode/blob/94c9ea46838a9a619aeafb7e8afd1170c967bb55/extensions/json-language-features/server/src/jsonServer.ts#L172
   private cancelLimitExceededWarnings(uri: string): void {
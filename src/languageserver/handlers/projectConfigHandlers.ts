@@ -0,0 +1,105 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import type { FileEvent, RemoteClient } from 'vscode-languageserver';
+import { DidChangeWatchedFilesNotification, FileChangeType } from 'vscode-languageserver';
+import { URI } from 'vscode-uri';
+import type { Telemetry } from '../../languageservice/telemetry';
+import type { ProjectConfig } from '../../languageservice/utils/projectConfig';
+import {
+  isProjectConfigFile,
+  loadProjectConfigs,
+  parseProjectConfig,
+  PROJECT_CONFIG_FILE_NAMES,
+} from '../../languageservice/utils/projectConfig';
+import { YAMLLINT_CONFIG_FILE_NAMES } from '../../languageservice/utils/yamllintConfig';
+import type { SettingsState } from '../../yamlSettings';
+import type { SettingsHandler } from './settingsHandlers';
+import type { WorkspaceFileProvider } from './validationHandlers';
+
+/**
+ * Finds the `.yaml-language-server.yaml` and `.yamllint` files applying to the open documents, walking up from their folder,
+ * and reloads them when they change. The configurations are applied through the settings.
+ */
+export class ProjectConfigHandler {
+  // the configurations by URI, `undefined` for the files which do not exist or are invalid
+  private readonly loaded = new Map<string, ProjectConfig | undefined>();
+
+  constructor(
+    private readonly yamlSettings: SettingsState,
+    private readonly settingsHandler: SettingsHandler,
+    private readonly workspaceFiles?: WorkspaceFileProvider,
+    private readonly telemetry?: Telemetry
+  ) {}
+
+  registerHandlers(): void {
+    this.yamlSettings.documents.onDidOpen((event) => this.documentsOpened([event.document.uri]));
+  }
+
+  /**
+   * Watch the configuration files, which the watchers of the client for the YAML files do not report, `.yamllint` having no extension
+   */
+  async registerFileWatchers(client: RemoteClient): Promise<void> {
+    if (!this.yamlSettings.hasWsChangeWatchedFileDynamicRegistration) {
+      return;
+    }
+    try {
+      await client.register(DidChangeWatchedFilesNotification.type, {
+        watchers: [...PROJECT_CONFIG_FILE_NAMES, ...YAMLLINT_CONFIG_FILE_NAMES].map((name) => ({ globPattern: `**/${name}` })),
+      });
+    } catch (err) {
+      this.reportError(err);
+    }
+  }
+
+  async documentsOpened(uris: string[]): Promise<void> {
+    if (!this.workspaceFiles) {
+      return;
+    }
+    const fileUris = uris.filter((uri) => URI.parse(uri).scheme === 'file');
+    try {
+      if (await loadProjectConfigs(fileUris, this.workspaceFiles.readFile, this.loaded, (err) => this.reportError(err))) {
+        this.apply();
+      }
+    } catch (err) {
+      this.reportError(err);
+    }
+  }
+
+  async filesChanged(changes: FileEvent[]): Promise<void> {
+    if (!this.workspaceFiles) {
+      return;
+    }
+    let hasChanges = false;
+    for (const change of changes) {
+      // only the locations looked up for the open documents are followed, including the ones where no file was found
+      if (!isProjectConfigFile(change.uri) || !this.loaded.has(change.uri)) {
+        continue;
+      }
+      const previous = this.loaded.get(change.uri);
+      let projectConfig: ProjectConfig | undefined;
+      if (change.type !== FileChangeType.Deleted) {
+        try {
+          projectConfig = parseProjectConfig(change.uri, await this.workspaceFiles.readFile(change.uri));
+        } catch (err) {
+          this.reportError(err);
+        }
+      }
+      this.loaded.set(change.uri, projectConfig);
+      hasChanges = hasChanges || previous !== undefined || projectConfig !== undefined;
+    }
+    if (hasChanges) {
+      this.apply();
+    }
+  }
+
+  private apply(): void {
+    this.yamlSettings.projectConfigs = Array.from(this.loaded.values()).filter((projectConfig) => projectConfig !== undefined);
+    this.settingsHandler.pullConfiguration().catch((err) => this.reportError(err));
+  }
+
+  private reportError(err: unknown): void {
+    this.telemetry?.sendError('yaml.projectConfig.error', err);
+  }
+}
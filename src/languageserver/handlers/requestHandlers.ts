@@ -6,7 +6,7 @@ import type { Connection } from 'vscode-languageserver';
 import type { SchemaAdditions, SchemaDeletions, SchemaDeletionsAll } from '../../languageservice/services/yamlSchemaService';
 import { MODIFICATION_ACTIONS } from '../../languageservice/services/yamlSchemaService';
 import type { LanguageService } from '../../languageservice/yamlLanguageService';
-import { SchemaModificationNotification } from '../../requestTypes';
+import { SchemaDependencyGraphRequest, SchemaModificationNotification } from '../../requestTypes';
 
 export class RequestHandlers {
   private languageService: LanguageService;
@@ -21,6 +21,7 @@ export class RequestHandlers {
     this.connection.onRequest(SchemaModificationNotification.type, (modifications) =>
       this.registerSchemaModificationNotificationHandler(modifications)
     );
+    this.connection.onRequest(SchemaDependencyGraphRequest.type, () => this.languageService.getSchemaDependencyGraph());
   }
 
   private registerSchemaModificationNotificationHandler(
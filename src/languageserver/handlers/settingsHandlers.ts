@@ -2,19 +2,53 @@
  *  Copyright (c) Red Hat, Inc. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import { configure as configureHttpRequests, xhr } from 'request-light';
+import { configure as configureHttpRequests } from 'request-light';
 import type { Connection } from 'vscode-languageserver';
-import { DidChangeConfigurationNotification, DocumentFormattingRequest } from 'vscode-languageserver';
+import {
+  DidChangeConfigurationNotification,
+  DocumentFormattingRequest,
+  DocumentRangeFormattingRequest,
+} from 'vscode-languageserver';
 import { CodeLensRefreshRequest } from 'vscode-languageserver-protocol';
-import { isRelativePath, relativeToAbsolutePath } from '../../languageservice/utils/paths';
-import { checkSchemaURI, EMPTY_SCHEMA_URL, isKubernetes, JSON_SCHEMASTORE_URL } from '../../languageservice/utils/schemaUrls';
+import { isRelativePath, relativeToAbsolutePath, resolveWorkspacePath } from '../../languageservice/utils/paths';
+import {
+  checkSchemaURI,
+  EMPTY_SCHEMA_URL,
+  isKubernetes,
+  JSON_SCHEMASTORE_URL,
+  normalizeKubernetesVersion,
+} from '../../languageservice/utils/schemaUrls';
+import type { KubernetesFolderVersion } from '../../languageservice/utils/schemaUrls';
 import { equals } from '../../languageservice/utils/objects';
+import type { SchemaPack } from '../../languageservice/utils/schemaPacks';
+import { isSchemaPackArchive } from '../../languageservice/utils/schemaPacks';
+import type { ProjectConfig } from '../../languageservice/utils/projectConfig';
+import { getProjectSchemas, toProjectPattern } from '../../languageservice/utils/projectConfig';
+import type { SchemaDetectionRule } from '../../languageservice/utils/schemaDetection';
+import { DEFAULT_SCHEMA_DETECTION_RULES } from '../../languageservice/utils/schemaDetection';
 import type { LanguageService, LanguageSettings, SchemasSettings } from '../../languageservice/yamlLanguageService';
 import { SchemaPriority } from '../../languageservice/yamlLanguageService';
 import { SchemaSelectionRequests } from '../../requestTypes';
+import { requestHttpContent } from '../../languageservice/services/schemaRequestHandler';
+import { getLintRuleOptions, getLintRuleSeverities } from '../../languageservice/services/yamlValidation';
 import type { Settings, SettingsState } from '../../yamlSettings';
+import { getSchemaCacheOptions } from '../../yamlSettings';
 import type { Telemetry } from '../../languageservice/telemetry';
 import type { ValidationHandler } from './validationHandlers';
+import type { CustomResourceDefinitionHandler } from './customResourceDefinitionHandlers';
+
+const FORMATTER_DOCUMENT_SELECTOR = [
+  { language: 'yaml' },
+  { language: 'yaml-textmate' },
+  { language: 'yaml-tmlanguage' },
+  { language: 'ansible' },
+  { language: 'azure-pipelines' },
+  { language: 'dockercompose' },
+  { language: 'github-actions-workflow' },
+  { language: 'home-assistant' },
+  { language: 'manifest-yaml' },
+  { language: 'spring-boot-properties-yaml' },
+];
 
 export class SettingsHandler {
   private schemaSettings: SchemasSettings[] | undefined;
@@ -24,7 +58,8 @@ export class SettingsHandler {
     private readonly languageService: LanguageService,
     private readonly yamlSettings: SettingsState,
     private readonly validationHandler: ValidationHandler,
-    private readonly telemetry: Telemetry
+    private readonly telemetry: Telemetry,
+    private readonly customResourceDefinitionHandler?: CustomResourceDefinitionHandler
   ) {}
 
   async registerHandlers(): Promise<void> {
@@ -93,12 +128,9 @@ export class SettingsHandler {
         this.yamlSettings.yamlHoverSchemaSource = settings.yaml.hoverSchemaSource;
       }
       if (Object.prototype.hasOwnProperty.call(settings.yaml, 'kubernetesVersion')) {
-        const match =
-          typeof settings.yaml.kubernetesVersion === 'string'
-            ? /^v?(\d+)\.(\d+)\.(\d+)$/i.exec(settings.yaml.kubernetesVersion.trim())
-            : undefined;
-        this.yamlSettings.kubernetesVersion = match ? `v${match[1]}.${match[2]}.${match[3]}` : undefined;
+        this.yamlSettings.kubernetesVersion = normalizeKubernetesVersion(settings.yaml.kubernetesVersion);
       }
+      this.yamlSettings.kubernetesFolderVersions = this.resolveKubernetesFolderVersions(settings.yaml.kubernetesFolderVersions);
       this.yamlSettings.yamlDisableSchemaDetection = Array.isArray(settings.yaml.disableSchemaDetection)
         ? settings.yaml.disableSchemaDetection
         : settings.yaml.disableSchemaDetection
@@ -122,6 +154,13 @@ export class SettingsHandler {
         }
       }
 
+      this.yamlSettings.kubernetesWorkspaceCRDsEnabled = settings.yaml.kubernetesWorkspaceCRDs?.enable ?? false;
+      this.yamlSettings.schemaCacheEnabled = settings.yaml.schemaCache?.enable ?? true;
+      const schemaCacheTTL = Number(settings.yaml.schemaCache?.ttl);
+      this.yamlSettings.schemaCacheTTL = Number.isFinite(schemaCacheTTL) && schemaCacheTTL >= 0 ? schemaCacheTTL : 24 * 60 * 60;
+      this.yamlSettings.offline = settings.yaml.offline ?? false;
+      this.yamlSettings.schemaPacks = await this.resolveSchemaPacks(settings.yaml.schemaPacks ?? []);
+
       if (settings.files?.associations) {
         for (const [ext, languageId] of Object.entries(settings.files.associations)) {
           if (languageId === 'yaml') {
@@ -164,6 +203,14 @@ export class SettingsHandler {
         flowSequence: settings.yaml.style?.flowSequence ?? 'allow',
       };
       this.yamlSettings.keyOrdering = settings.yaml.keyOrdering ?? false;
+      this.yamlSettings.suppressionCodeActions = settings.yaml.suppressionCodeActions ?? true;
+      this.yamlSettings.lintRules = getLintRuleSeverities(settings.yaml.lint?.rules);
+      this.yamlSettings.lintRuleOptions = getLintRuleOptions(settings.yaml.lint?.rules);
+      this.yamlSettings.validateIncludes = settings.yaml.validateIncludes ?? false;
+      this.yamlSettings.contentSchemaDetectionEnabled = settings.yaml.contentSchemaDetection?.enable ?? false;
+      this.yamlSettings.contentSchemaDetectionRules = Array.isArray(settings.yaml.contentSchemaDetection?.rules)
+        ? settings.yaml.contentSchemaDetection.rules.filter((rule) => typeof rule?.uri === 'string')
+        : [];
     }
 
     this.yamlSettings.schemaConfigurationSettings = [];
@@ -190,6 +237,9 @@ export class SettingsHandler {
 
     await this.setSchemaStoreSettingsIfNotSet();
     this.updateConfiguration();
+    this.customResourceDefinitionHandler
+      ?.configure()
+      .catch((err) => this.telemetry.sendError('yaml.customResourceDefinitions.error', err));
     if (this.yamlSettings.useSchemaSelectionRequests) {
       this.connection.sendNotification(SchemaSelectionRequests.schemaStoreInitialized, {});
     }
@@ -201,25 +251,28 @@ export class SettingsHandler {
       if (enableFormatter) {
         if (!this.yamlSettings.formatterRegistration) {
           this.yamlSettings.formatterRegistration = this.connection.client.register(DocumentFormattingRequest.type, {
-            documentSelector: [
-              { language: 'yaml' },
-              { language: 'yaml-textmate' },
-              { language: 'yaml-tmlanguage' },
-              { language: 'ansible' },
-              { language: 'azure-pipelines' },
-              { language: 'dockercompose' },
-              { language: 'github-actions-workflow' },
-              { language: 'home-assistant' },
-              { language: 'manifest-yaml' },
-              { language: 'spring-boot-properties-yaml' },
-            ],
+            documentSelector: FORMATTER_DOCUMENT_SELECTOR,
           });
         }
-      } else if (this.yamlSettings.formatterRegistration) {
-        this.yamlSettings.formatterRegistration.then((r) => {
-          return r.dispose();
-        });
-        this.yamlSettings.formatterRegistration = null;
+        if (!this.yamlSettings.rangeFormatterRegistration) {
+          this.yamlSettings.rangeFormatterRegistration = this.connection.client.register(DocumentRangeFormattingRequest.type, {
+            documentSelector: FORMATTER_DOCUMENT_SELECTOR,
+            rangesSupport: true,
+          });
+        }
+      } else {
+        if (this.yamlSettings.formatterRegistration) {
+          this.yamlSettings.formatterRegistration.then((r) => {
+            return r.dispose();
+          });
+          this.yamlSettings.formatterRegistration = null;
+        }
+        if (this.yamlSettings.rangeFormatterRegistration) {
+          this.yamlSettings.rangeFormatterRegistration.then((r) => {
+            return r.dispose();
+          });
+          this.yamlSettings.rangeFormatterRegistration = null;
+        }
       }
     }
   }
@@ -245,19 +298,66 @@ export class SettingsHandler {
     }
   }
 
+  /**
+   * Resolve the paths of the folders with their own Kubernetes version, ignoring the invalid versions
+   */
+  private resolveKubernetesFolderVersions(
+    folderVersions: Settings['yaml']['kubernetesFolderVersions'] | undefined
+  ): KubernetesFolderVersion[] {
+    const resolved: KubernetesFolderVersion[] = [];
+    for (const [folder, version] of Object.entries(folderVersions && typeof folderVersions === 'object' ? folderVersions : {})) {
+      const normalizedVersion = normalizeKubernetesVersion(version);
+      if (normalizedVersion) {
+        resolved.push({
+          folder: resolveWorkspacePath(this.yamlSettings.workspaceFolders, this.yamlSettings.workspaceRoot, folder),
+          version: normalizedVersion,
+        });
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Resolve the paths of the schema packs and of their folders, and extract the schema pack archives
+   */
+  private async resolveSchemaPacks(schemaPacks: Settings['yaml']['schemaPacks']): Promise<SchemaPack[]> {
+    const resolved: SchemaPack[] = [];
+    for (const schemaPack of Array.isArray(schemaPacks) ? schemaPacks : []) {
+      if (typeof schemaPack?.path !== 'string' || !schemaPack.path) {
+        continue;
+      }
+      const toUri = (path: string): string =>
+        resolveWorkspacePath(this.yamlSettings.workspaceFolders, this.yamlSettings.workspaceRoot, path);
+      let uri = toUri(schemaPack.path);
+      if (isSchemaPackArchive(uri)) {
+        if (!this.yamlSettings.schemaPackArchiveExtractor) {
+          continue;
+        }
+        try {
+          uri = await this.yamlSettings.schemaPackArchiveExtractor(uri);
+        } catch (err) {
+          this.telemetry.sendError('yaml.schemaPack.error', err);
+          continue;
+        }
+      }
+      resolved.push({ uri, folders: (schemaPack.folders ?? []).map(toUri) });
+    }
+    return resolved;
+  }
+
   /**
    * When the schema store is enabled, download and store YAML schema associations
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private async getSchemaStoreMatchingSchemas(schemaStoreUrl: string): Promise<{ schemas: any[] }> {
-    const response = await xhr({ url: schemaStoreUrl });
+    const responseText = await requestHttpContent(schemaStoreUrl, getSchemaCacheOptions(this.yamlSettings));
 
     const languageSettings = {
       schemas: [],
     };
 
     // Parse the schema store catalog as JSON
-    const schemas = JSON.parse(response.responseText);
+    const schemas = JSON.parse(responseText);
 
     for (const schemaIndex in schemas.schemas) {
       const schema = schemas.schemas[schemaIndex];
@@ -318,6 +418,10 @@ export class SettingsHandler {
       flowSequence: this.yamlSettings.style?.flowSequence,
       yamlVersion: this.yamlSettings.yamlVersion,
       keyOrdering: this.yamlSettings.keyOrdering,
+      suppressionCodeActions: this.yamlSettings.suppressionCodeActions,
+      lintRules: this.yamlSettings.lintRules,
+      lintRuleOptions: this.yamlSettings.lintRuleOptions,
+      validateIncludes: this.yamlSettings.validateIncludes,
       hoverSchemaSource: this.yamlSettings.yamlHoverSchemaSource,
     };
 
@@ -377,6 +481,12 @@ export class SettingsHandler {
       });
     }
 
+    for (const projectConfig of this.yamlSettings.projectConfigs) {
+      configureProjectSchemas(projectConfig, languageSettings, this.yamlSettings, this.telemetry);
+    }
+    languageSettings.projectConfigs = this.yamlSettings.projectConfigs;
+    languageSettings.schemaDetectionRules = this.getSchemaDetectionRules();
+
     if (this.yamlSettings.schemaStoreSettings) {
       languageSettings.schemas = languageSettings.schemas.concat(this.yamlSettings.schemaStoreSettings);
     }
@@ -401,6 +511,23 @@ export class SettingsHandler {
       .catch((err) => this.telemetry.sendError('yaml.codeLens.refresh.error', err));
   }
 
+  /**
+   * @returns the rules of the settings, with their schema path resolved, followed by the default rules when they are enabled
+   */
+  private getSchemaDetectionRules(): SchemaDetectionRule[] {
+    const rules = this.yamlSettings.contentSchemaDetectionRules.map((rule) => ({
+      ...rule,
+      uri: checkSchemaURI(
+        this.yamlSettings.workspaceFolders,
+        this.yamlSettings.workspaceRoot,
+        rule.uri,
+        this.telemetry,
+        this.yamlSettings.kubernetesVersion
+      ),
+    }));
+    return this.yamlSettings.contentSchemaDetectionEnabled ? rules.concat(DEFAULT_SCHEMA_DETECTION_RULES) : rules;
+  }
+
   /**
    * Stores schema associations in server settings, handling kubernetes
    * @param uri string path to schema (whether local or online)
@@ -442,3 +569,33 @@ export class SettingsHandler {
     return languageSettings;
   }
 }
+
+/**
+ * Stores the schema associations of a project configuration file, for the files of its folder,
+ * the same way in the server and in the `validate` command
+ */
+export function configureProjectSchemas(
+  projectConfig: ProjectConfig,
+  languageSettings: LanguageSettings,
+  yamlSettings: SettingsState,
+  telemetry: Telemetry
+): void {
+  for (const { uri, fileMatch } of getProjectSchemas(projectConfig)) {
+    const schemaUri = checkSchemaURI(
+      yamlSettings.workspaceFolders,
+      yamlSettings.workspaceRoot,
+      uri,
+      telemetry,
+      yamlSettings.kubernetesVersion
+    );
+    languageSettings.schemas.push({
+      uri: schemaUri,
+      fileMatch,
+      priority: SchemaPriority.Settings,
+      folderUri: projectConfig.folder,
+    });
+    if (isKubernetes(schemaUri)) {
+      yamlSettings.specificValidatorPaths.push(...fileMatch.map((pattern) => toProjectPattern(projectConfig, pattern)));
+    }
+  }
+}
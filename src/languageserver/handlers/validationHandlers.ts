@@ -2,28 +2,72 @@
  *  Copyright (c) Red Hat, Inc. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import type { Connection } from 'vscode-languageserver';
-import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type {
+  CancellationToken,
+  Connection,
+  DocumentDiagnosticParams,
+  DocumentDiagnosticReport,
+  WorkspaceDiagnosticParams,
+  WorkspaceDiagnosticReport,
+  WorkspaceDocumentDiagnosticReport,
+} from 'vscode-languageserver';
+import { DocumentDiagnosticReportKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import type { Diagnostic } from 'vscode-languageserver-types';
 import { isKubernetesAssociatedDocument } from '../../languageservice/parser/isKubernetes';
 import { removeDuplicatesObj } from '../../languageservice/utils/arrUtils';
+import { stringHash } from '../../languageservice/utils/strings';
 import type { LanguageService } from '../../languageservice/yamlLanguageService';
 import type { SettingsState } from '../../yamlSettings';
 
+/**
+ * Gives access to the files of the workspace folders, used to compute workspace diagnostics.
+ */
+export interface WorkspaceFileProvider {
+  /**
+   * @returns the URIs of all the files in the folder, including sub folders, with one of the given extensions
+   */
+  findFiles(folderUri: string, extensions: string[]): Promise<string[]>;
+  readFile(uri: string): Promise<string>;
+}
+
+/**
+ * @returns the URIs of the YAML files of the workspace folders, or of the workspace root when there is no folder
+ */
+export async function findWorkspaceFiles(workspaceFiles: WorkspaceFileProvider, yamlSettings: SettingsState): Promise<string[]> {
+  const folderUris = yamlSettings.workspaceFolders.map((folder) => folder.uri);
+  if (folderUris.length === 0 && yamlSettings.workspaceRoot) {
+    folderUris.push(yamlSettings.workspaceRoot.toString());
+  }
+  const files = new Set<string>();
+  for (const folderUri of folderUris) {
+    const folderFiles = await workspaceFiles.findFiles(folderUri, yamlSettings.fileExtensions);
+    folderFiles.forEach((file) => files.add(file));
+  }
+  return Array.from(files);
+}
+
 export class ValidationHandler {
   private languageService: LanguageService;
   private yamlSettings: SettingsState;
+  // incremented every time the settings or the schemas change, to invalidate previous result ids
+  private resultIdGeneration = 0;
+  private pendingDiagnosticRefresh: NodeJS.Timeout;
 
   constructor(
     private readonly connection: Connection,
     languageService: LanguageService,
-    yamlSettings: SettingsState
+    yamlSettings: SettingsState,
+    private readonly workspaceFiles?: WorkspaceFileProvider
   ) {
     this.languageService = languageService;
     this.yamlSettings = yamlSettings;
 
     this.yamlSettings.documents.onDidChangeContent((change) => {
-      this.validate(change.document);
+      // with pull diagnostics the client requests the diagnostics of the changed document itself
+      if (!this.yamlSettings.hasPullDiagnosticsSupport) {
+        this.validate(change.document);
+      }
     });
     this.yamlSettings.documents.onDidClose((event) => {
       this.cleanPendingValidation(event.document);
@@ -31,7 +75,15 @@ export class ValidationHandler {
     });
   }
 
+  get supportsWorkspaceDiagnostics(): boolean {
+    return !!this.workspaceFiles;
+  }
+
   validate(textDocument: TextDocument): void {
+    if (this.yamlSettings.hasPullDiagnosticsSupport) {
+      this.refreshDiagnostics();
+      return;
+    }
     this.cleanPendingValidation(textDocument);
     this.yamlSettings.pendingValidationRequests[textDocument.uri] = setTimeout(() => {
       delete this.yamlSettings.pendingValidationRequests[textDocument.uri];
@@ -39,6 +91,21 @@ export class ValidationHandler {
     }, this.yamlSettings.validationDelayMs);
   }
 
+  /**
+   * Revalidate the documents after a change of the files they depend on, all the documents when no URIs are given.
+   * With pull diagnostics, the results of the files which are not opened are invalidated too.
+   */
+  revalidate(uris?: string[]): void {
+    if (this.yamlSettings.hasPullDiagnosticsSupport) {
+      this.refreshDiagnostics();
+      return;
+    }
+    const documents = uris
+      ? uris.map((uri) => this.yamlSettings.documents.get(uri)).filter((document) => document)
+      : this.yamlSettings.documents.all();
+    documents.forEach((document) => this.validate(document));
+  }
+
   private cleanPendingValidation(textDocument: TextDocument): void {
     const request = this.yamlSettings.pendingValidationRequests[textDocument.uri];
 
@@ -48,34 +115,110 @@ export class ValidationHandler {
     }
   }
 
+  /**
+   * Invalidate the previous pull diagnostics results and ask the client to pull them again.
+   * Successive calls are merged into a single refresh request.
+   */
+  private refreshDiagnostics(): void {
+    this.resultIdGeneration++;
+    if (!this.yamlSettings.hasDiagnosticRefreshSupport || this.pendingDiagnosticRefresh) {
+      return;
+    }
+    this.pendingDiagnosticRefresh = setTimeout(() => {
+      this.pendingDiagnosticRefresh = undefined;
+      this.connection.languages.diagnostics.refresh();
+    }, this.yamlSettings.validationDelayMs);
+  }
+
   async validateTextDocument(textDocument: TextDocument): Promise<Diagnostic[]> {
     if (!textDocument) {
       return;
     }
 
+    const diagnostics = await this.computeDiagnostics(textDocument);
+    this.connection.sendDiagnostics({
+      uri: textDocument.uri,
+      diagnostics,
+    });
+    return diagnostics;
+  }
+
+  /**
+   * Handles `textDocument/diagnostic` requests for open documents.
+   */
+  async documentDiagnosticHandler(params: DocumentDiagnosticParams): Promise<DocumentDiagnosticReport> {
+    const textDocument = this.yamlSettings.documents.get(params.textDocument.uri);
+    if (!textDocument) {
+      return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+    }
+
+    const resultId = this.getResultId(textDocument.getText());
+    if (params.previousResultId === resultId) {
+      return { kind: DocumentDiagnosticReportKind.Unchanged, resultId };
+    }
+    return { kind: DocumentDiagnosticReportKind.Full, resultId, items: await this.computeDiagnostics(textDocument) };
+  }
+
+  /**
+   * Handles `workspace/diagnostic` requests: validates all the YAML files of the workspace folders
+   * which are not opened. Open documents are reported by `textDocument/diagnostic`.
+   */
+  async workspaceDiagnosticHandler(
+    params: WorkspaceDiagnosticParams,
+    token?: CancellationToken
+  ): Promise<WorkspaceDiagnosticReport> {
+    const items: WorkspaceDocumentDiagnosticReport[] = [];
+    if (!this.workspaceFiles) {
+      return { items };
+    }
+
+    const previousResultIds = new Map(params.previousResultIds.map((previous) => [previous.uri, previous.value]));
+    for (const uri of await findWorkspaceFiles(this.workspaceFiles, this.yamlSettings)) {
+      if (token?.isCancellationRequested) {
+        break;
+      }
+      if (this.yamlSettings.documents.get(uri)) {
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = await this.workspaceFiles.readFile(uri);
+      } catch {
+        continue;
+      }
+      const resultId = this.getResultId(content);
+      if (previousResultIds.get(uri) === resultId) {
+        items.push({ kind: DocumentDiagnosticReportKind.Unchanged, uri, version: null, resultId });
+        continue;
+      }
+      // the content hash is used as version, so that the parsed document cache is refreshed when the file changes
+      const textDocument = TextDocument.create(uri, 'yaml', stringHash(content), content);
+      items.push({
+        kind: DocumentDiagnosticReportKind.Full,
+        uri,
+        version: null,
+        resultId,
+        items: await this.computeDiagnostics(textDocument),
+      });
+    }
+    return { items };
+  }
+
+  private getResultId(content: string): string {
+    return `${this.resultIdGeneration}:${stringHash(content)}`;
+  }
+
+  private async computeDiagnostics(textDocument: TextDocument): Promise<Diagnostic[]> {
     const validationEnabled = await this.resolveValidationState(textDocument);
     if (!validationEnabled) {
-      this.connection.sendDiagnostics({ uri: textDocument.uri, diagnostics: [] });
       return [];
     }
     const diagnosticResults = await this.languageService.doValidation(
       textDocument,
       isKubernetesAssociatedDocument(textDocument, this.yamlSettings.specificValidatorPaths)
     );
-    const diagnostics: Diagnostic[] = [];
-    for (const diagnosticItem of diagnosticResults) {
-      // Convert all warnings to errors
-      if (diagnosticItem.severity === 2) {
-        diagnosticItem.severity = 1;
-      }
-      diagnostics.push(diagnosticItem);
-    }
-    const removeDuplicatesDiagnostics = removeDuplicatesObj(diagnostics);
-    this.connection.sendDiagnostics({
-      uri: textDocument.uri,
-      diagnostics: removeDuplicatesDiagnostics,
-    });
-    return removeDuplicatesDiagnostics;
+    return toPublishedDiagnostics(diagnosticResults);
   }
 
   private async resolveValidationState(document: TextDocument): Promise<boolean> {
@@ -96,3 +239,21 @@ export class ValidationHandler {
     return this.yamlSettings.yamlShouldValidate;
   }
 }
+
+/**
+ * Post-processes the language service diagnostics the same way before they are published to the client:
+ * the warnings are reported as errors, except the ones of the lint rules,
+ * and duplicated diagnostics are removed.
+ * @param diagnosticResults diagnostics returned by `LanguageService.doValidation`
+ */
+export function toPublishedDiagnostics(diagnosticResults: Diagnostic[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const diagnosticItem of diagnosticResults) {
+    // Convert the other warnings to errors
+    if (diagnosticItem.severity === 2 && !(diagnosticItem.data as { rule?: string } | undefined)?.rule) {
+      diagnosticItem.severity = 1;
+    }
+    diagnostics.push(diagnosticItem);
+  }
+  return removeDuplicatesObj(diagnostics);
+}
@@ -116,6 +116,42 @@ export enum ErrorCode {
   SchemaUnsupportedFeature = 769,
   SchemaResolveError = 65536,
 }
+/**
+ * Stable codes of the schema validation diagnostics, documented at {@link SCHEMA_PROBLEM_CODES_DOCUMENTATION}
+ */
+export enum SchemaProblemCode {
+  TypeMismatch = 'typeMismatch',
+  Not = 'not',
+  OneOf = 'oneOf',
+  FilePatternAssociation = 'filePatternAssociation',
+  Enum = 'enum',
+  Const = 'const',
+  Deprecated = 'deprecated',
+  MinLength = 'minLength',
+  MaxLength = 'maxLength',
+  InvalidPattern = 'invalidPattern',
+  Pattern = 'pattern',
+  Format = 'format',
+  MultipleOf = 'multipleOf',
+  ExclusiveMinimum = 'exclusiveMinimum',
+  ExclusiveMaximum = 'exclusiveMaximum',
+  Minimum = 'minimum',
+  Maximum = 'maximum',
+  AdditionalItems = 'additionalItems',
+  Contains = 'contains',
+  MinContains = 'minContains',
+  MaxContains = 'maxContains',
+  MinItems = 'minItems',
+  MaxItems = 'maxItems',
+  UniqueItems = 'uniqueItems',
+  Required = 'required',
+  PropertyNotAllowed = 'propertyNotAllowed',
+  MinProperties = 'minProperties',
+  MaxProperties = 'maxProperties',
+  DependentRequired = 'dependentRequired',
+}
+export const SCHEMA_PROBLEM_CODES_DOCUMENTATION =
+  'https://github.com/redhat-developer/yaml-language-server#schema-diagnostic-codes';
 export function isSchemaResolveError(code: number): boolean {
   return code >= ErrorCode.SchemaResolveError;
 }
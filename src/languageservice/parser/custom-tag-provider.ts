@@ -2,6 +2,7 @@ import type { Tags, YAMLMap, YAMLSeq } from 'yaml';
 import { isSeq, isMap, Scalar } from 'yaml';
 import type { CustomTagInputType, CustomTagReturnType } from '../utils/customTags';
 import { parseCustomTag, setCustomTagReturnType } from '../utils/customTags';
+import { INCLUDE_TAG } from '../utils/includeUtils';
 
 class CommonTagImpl {
   tag: string;
@@ -50,7 +51,7 @@ class CommonTagImpl {
 }
 
 class IncludeTag {
-  public readonly tag = '!include';
+  public readonly tag = INCLUDE_TAG;
   public readonly type = 'scalar';
   default: never;
   collection: never;
@@ -20,7 +20,7 @@ import { isArrayEqual } from '../../utils/arrUtils';
 import { safeCreateUnicodeRegExp } from '../../utils/strings';
 import { FilePatternAssociation } from '../../utils/filePatternAssociation';
 import { floatSafeRemainder } from '../../utils/math';
-import { ErrorCode } from '../../jsonLanguageTypes';
+import { ErrorCode, SCHEMA_PROBLEM_CODES_DOCUMENTATION, SchemaProblemCode } from '../../jsonLanguageTypes';
 import * as l10n from '@vscode/l10n';
 import { URI } from 'vscode-uri';
 import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
@@ -52,6 +52,10 @@ export interface IProblem {
   location: IRange;
   severity: DiagnosticSeverity;
   code?: ErrorCode;
+  /**
+   * The stable code published with the diagnostic, `code` being used internally
+   */
+  problemCode?: SchemaProblemCode;
   message: string;
   source?: string;
   problemType?: ProblemType;
@@ -372,10 +376,13 @@ export abstract class BaseValidator {
         range,
         p.message,
         p.severity,
-        p.code ? p.code : ErrorCode.Undefined,
+        p.problemCode ?? (p.code ? p.code : ErrorCode.Undefined),
         p.source
       );
 
+      if (p.problemCode) {
+        diagnostic.codeDescription = { href: SCHEMA_PROBLEM_CODES_DOCUMENTATION };
+      }
       diagnostic.data = { schemaUri: p.schemaUri, ...p.data };
       return diagnostic;
     });
@@ -561,6 +568,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.TypeMismatch,
           message: schema.errorMessage || l10n.t('Incorrect type. Expected one of {0}.', (<string[]>schema.type).join(', ')),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -572,6 +580,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.TypeMismatch,
           message: schema.errorMessage || getWarningMessage(ProblemType.typeMismatchWarning, [schemaType as string]),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -609,6 +618,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.Not,
           message: l10n.t('Matches a schema that is not allowed.'),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -656,6 +666,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: 1 },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.OneOf,
           message: l10n.t('Matches multiple schemas when only one must validate.'),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -722,6 +733,7 @@ export abstract class BaseValidator {
           subValidationResult.problems.push({
             location: { offset: node.offset, length: node.length },
             severity: DiagnosticSeverity.Warning,
+            problemCode: SchemaProblemCode.FilePatternAssociation,
             message: l10n.t(
               "filePatternAssociation '{0}' does not match with doc uri '{1}'",
               filePatternAssociation,
@@ -765,6 +777,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.Enum,
           code: ErrorCode.EnumValueMismatch,
           message:
             schema.errorMessage ||
@@ -785,6 +798,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.Const,
           code: ErrorCode.EnumValueMismatch,
           problemType: ProblemType.constWarning,
           message: schema.errorMessage || getWarningMessage(ProblemType.constWarning, [JSON.stringify(c)]),
@@ -806,6 +820,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.parent.offset, length: node.parent.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.Deprecated,
         message: schema.deprecationMessage,
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -826,6 +841,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MinLength,
         message: l10n.t('String is shorter than the minimum length of {0}.', schema.minLength),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -836,6 +852,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MaxLength,
         message: l10n.t('String is longer than the maximum length of {0}.', schema.maxLength),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -848,6 +865,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.InvalidPattern,
           message: l10n.t('Invalid pattern: "{0}"', schema.pattern),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -856,6 +874,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.Pattern,
           message:
             schema.patternErrorMessage ||
             schema.errorMessage ||
@@ -887,6 +906,7 @@ export abstract class BaseValidator {
             validationResult.problems.push({
               location: { offset: node.offset, length: node.length },
               severity: DiagnosticSeverity.Warning,
+              problemCode: SchemaProblemCode.Format,
               message: schema.patternErrorMessage || schema.errorMessage || l10n.t('String is not a URI: {0}', errorMessage),
               source: this.getSchemaSource(schema, originalSchema),
               schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -906,6 +926,7 @@ export abstract class BaseValidator {
             validationResult.problems.push({
               location: { offset: node.offset, length: node.length },
               severity: DiagnosticSeverity.Warning,
+              problemCode: SchemaProblemCode.Format,
               message: schema.patternErrorMessage || schema.errorMessage || l10n.t(format.errorMessage),
               source: this.getSchemaSource(schema, originalSchema),
               schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -932,6 +953,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.MultipleOf,
           message: l10n.t('Value is not divisible by {0}.', schema.multipleOf),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -945,6 +967,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.ExclusiveMinimum,
         message: l10n.t('Value is below the exclusive minimum of {0}.', limits.exclusiveMinimum),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -955,6 +978,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.ExclusiveMaximum,
         message: l10n.t('Value is above the exclusive maximum of {0}.', limits.exclusiveMaximum),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -965,6 +989,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.Minimum,
         message: l10n.t('Value is below the minimum of {0}.', limits.minimum),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -975,6 +1000,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.Maximum,
         message: l10n.t('Value is above the maximum of {0}.', limits.maximum),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1020,6 +1046,7 @@ export abstract class BaseValidator {
           validationResult.problems.push({
             location: { offset: node.offset, length: node.length },
             severity: DiagnosticSeverity.Warning,
+            problemCode: SchemaProblemCode.AdditionalItems,
             message: l10n.t('Array has too many items according to schema. Expected {0} or fewer.', subSchemas.length),
             source: this.getSchemaSource(schema, originalSchema),
             schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1087,6 +1114,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.Contains,
         message: schema.errorMessage || l10n.t('Array does not contain required item.'),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1106,6 +1134,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MinItems,
         message: l10n.t('Array has too few items. Expected {0} or more.', schema.minItems),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1116,6 +1145,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MaxItems,
         message: l10n.t('Array has too many items. Expected {0} or fewer.', schema.maxItems),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1136,6 +1166,7 @@ export abstract class BaseValidator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.UniqueItems,
           message: l10n.t('Array has duplicate items.'),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1248,11 +1279,13 @@ export abstract class BaseValidator {
           validationResult.problems.push({
             location,
             severity: DiagnosticSeverity.Warning,
+            problemCode: SchemaProblemCode.Required,
             message: schema.errorMessage || getWarningMessage(ProblemType.missingRequiredPropWarning, [propertyName]),
             source: this.getSchemaSource(schema, originalSchema),
             schemaUri: this.getSchemaUri(schema, originalSchema),
             problemArgs: [propertyName],
             problemType: ProblemType.missingRequiredPropWarning,
+            data: { missingProperty: propertyName },
           });
         }
       }
@@ -1291,6 +1324,7 @@ export abstract class BaseValidator {
           validationResult.problems.push({
             location: { offset: propertyNode.keyNode.offset, length: propertyNode.keyNode.length },
             severity: DiagnosticSeverity.Warning,
+            problemCode: SchemaProblemCode.PropertyNotAllowed,
             message: schema.errorMessage || l10n.t('Property {0} is not allowed.', propertyName),
             source: this.getSchemaSource(schema, originalSchema),
             schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1347,6 +1381,7 @@ export abstract class BaseValidator {
             validationResult.problems.push({
               location: { offset: propertyNode.keyNode.offset, length: propertyNode.keyNode.length },
               severity: DiagnosticSeverity.Warning,
+              problemCode: SchemaProblemCode.PropertyNotAllowed,
               message: schema.errorMessage || l10n.t('Property {0} is not allowed.', propertyName),
               source: this.getSchemaSource(schema, originalSchema),
               schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1437,6 +1472,7 @@ export abstract class BaseValidator {
       const problem: IProblem = {
         location: { offset: keyNode.offset, length: keyNode.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.PropertyNotAllowed,
         code: ErrorCode.PropertyExpected,
         message: schema.errorMessage || l10n.t('Property {0} is not allowed.', propertyName),
         source: this.getSchemaSource(schema, originalSchema),
@@ -1458,6 +1494,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MaxProperties,
         message: l10n.t('Object has more properties than limit of {0}.', schema.maxProperties),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1468,6 +1505,7 @@ export abstract class BaseValidator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MinProperties,
         message: l10n.t('Object has fewer properties than the required number of {0}', schema.minProperties),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -1502,6 +1540,7 @@ export abstract class BaseValidator {
             validationResult.problems.push({
               location: { offset: node.offset, length: node.length },
               severity: DiagnosticSeverity.Warning,
+              problemCode: SchemaProblemCode.DependentRequired,
               message: l10n.t('Object is missing property {0} required by property {1}.', requiredProp, key),
               source: this.getSchemaSource(schema, originalSchema),
               schemaUri: this.getSchemaUri(schema, originalSchema),
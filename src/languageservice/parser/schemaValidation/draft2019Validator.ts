@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import type { JSONSchema, JSONSchemaRef } from '../../jsonSchema';
-import { ErrorCode, SchemaDraft } from '../../jsonLanguageTypes';
+import { ErrorCode, SchemaDraft, SchemaProblemCode } from '../../jsonLanguageTypes';
 import type { ASTNode, ArrayASTNode, ObjectASTNode } from '../../jsonLanguageTypes';
 import { isNumber } from '../../utils/objects';
 import * as l10n from '@vscode/l10n';
@@ -59,6 +59,7 @@ export class Draft2019Validator extends Draft07Validator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MinContains,
         message: schema.errorMessage || l10n.t('Array has too few items matching "contains". Expected {0} or more.', minContains),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -69,6 +70,7 @@ export class Draft2019Validator extends Draft07Validator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MaxContains,
         message:
           schema.errorMessage || l10n.t('Array has too many items matching "contains". Expected {0} or fewer.', maxContains),
         source: this.getSchemaSource(schema, originalSchema),
@@ -105,6 +107,7 @@ export class Draft2019Validator extends Draft07Validator {
             validationResult.problems.push({
               location: { offset: node.offset, length: node.length },
               severity: DiagnosticSeverity.Warning,
+              problemCode: SchemaProblemCode.DependentRequired,
               message: l10n.t('Object is missing property {0} required by property {1}.', requiredProp, prop),
               source: this.getSchemaSource(schema, originalSchema),
               schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -170,6 +173,7 @@ export class Draft2019Validator extends Draft07Validator {
         validationResult.problems.push({
           location: { offset: keyNode.offset, length: keyNode.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.PropertyNotAllowed,
           code: ErrorCode.PropertyExpected,
           message: schema.errorMessage || l10n.t('Property {0} is not allowed.', propName),
           source: this.getSchemaSource(schema, originalSchema),
@@ -241,6 +245,7 @@ export class Draft2019Validator extends Draft07Validator {
         validationResult.problems.push({
           location: { offset: item.offset, length: item.length || 1 },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.AdditionalItems,
           code: ErrorCode.PropertyExpected,
           message: schema.errorMessage || l10n.t('Array has too many items according to schema. Expected {0} or fewer.', idx),
           source: this.getSchemaSource(schema, originalSchema),
@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import type { JSONSchema, JSONSchemaRef } from '../../jsonSchema';
-import { SchemaDraft } from '../../jsonLanguageTypes';
+import { SchemaDraft, SchemaProblemCode } from '../../jsonLanguageTypes';
 import type { ASTNode, ArrayASTNode } from '../../jsonLanguageTypes';
 import { isNumber } from '../../utils/objects';
 import * as l10n from '@vscode/l10n';
@@ -63,6 +63,7 @@ export class Draft2020Validator extends Draft2019Validator {
         validationResult.problems.push({
           location: { offset: node.offset, length: node.length },
           severity: DiagnosticSeverity.Warning,
+          problemCode: SchemaProblemCode.AdditionalItems,
           message: l10n.t('Array has too many items according to schema. Expected {0} or fewer.', prefixLen),
           source: this.getSchemaSource(schema, originalSchema),
           schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -143,6 +144,7 @@ export class Draft2020Validator extends Draft2019Validator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MinContains,
         message: schema.errorMessage || l10n.t('Array has too few items matching "contains". Expected {0} or more.', minContains),
         source: this.getSchemaSource(schema, originalSchema),
         schemaUri: this.getSchemaUri(schema, originalSchema),
@@ -153,6 +155,7 @@ export class Draft2020Validator extends Draft2019Validator {
       validationResult.problems.push({
         location: { offset: node.offset, length: node.length },
         severity: DiagnosticSeverity.Warning,
+        problemCode: SchemaProblemCode.MaxContains,
         message:
           schema.errorMessage || l10n.t('Array has too many items matching "contains". Expected {0} or fewer.', maxContains),
         source: this.getSchemaSource(schema, originalSchema),
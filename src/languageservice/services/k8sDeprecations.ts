@@ -0,0 +1,128 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * A deprecated Kubernetes API, from the deprecated API migration guide
+ */
+export interface KubernetesDeprecation {
+  apiVersion: string;
+  kind: string;
+  /**
+   * Minor version deprecating the API, such as `1.16`
+   */
+  deprecatedIn: string;
+  /**
+   * Minor version removing the API
+   */
+  removedIn: string;
+  /**
+   * apiVersion to use instead, when the resource is still served
+   */
+  replacement?: string;
+}
+
+const DEPRECATIONS: [apiVersion: string, kinds: string[], deprecatedIn: string, removedIn: string, replacement?: string][] = [
+  ['extensions/v1beta1', ['DaemonSet', 'Deployment', 'ReplicaSet'], '1.9', '1.16', 'apps/v1'],
+  ['apps/v1beta1', ['Deployment', 'StatefulSet'], '1.9', '1.16', 'apps/v1'],
+  ['apps/v1beta2', ['DaemonSet', 'Deployment', 'ReplicaSet', 'StatefulSet'], '1.9', '1.16', 'apps/v1'],
+  ['extensions/v1beta1', ['NetworkPolicy'], '1.9', '1.16', 'networking.k8s.io/v1'],
+  ['extensions/v1beta1', ['PodSecurityPolicy'], '1.10', '1.16', 'policy/v1beta1'],
+  ['extensions/v1beta1', ['Ingress'], '1.14', '1.22', 'networking.k8s.io/v1'],
+  ['networking.k8s.io/v1beta1', ['Ingress', 'IngressClass'], '1.19', '1.22', 'networking.k8s.io/v1'],
+  [
+    'admissionregistration.k8s.io/v1beta1',
+    ['MutatingWebhookConfiguration', 'ValidatingWebhookConfiguration'],
+    '1.16',
+    '1.22',
+    'admissionregistration.k8s.io/v1',
+  ],
+  ['apiextensions.k8s.io/v1beta1', ['CustomResourceDefinition'], '1.16', '1.22', 'apiextensions.k8s.io/v1'],
+  ['apiregistration.k8s.io/v1beta1', ['APIService'], '1.19', '1.22', 'apiregistration.k8s.io/v1'],
+  ['authentication.k8s.io/v1beta1', ['TokenReview'], '1.19', '1.22', 'authentication.k8s.io/v1'],
+  [
+    'authorization.k8s.io/v1beta1',
+    ['LocalSubjectAccessReview', 'SelfSubjectAccessReview', 'SubjectAccessReview'],
+    '1.19',
+    '1.22',
+    'authorization.k8s.io/v1',
+  ],
+  ['certificates.k8s.io/v1beta1', ['CertificateSigningRequest'], '1.19', '1.22', 'certificates.k8s.io/v1'],
+  ['coordination.k8s.io/v1beta1', ['Lease'], '1.19', '1.22', 'coordination.k8s.io/v1'],
+  [
+    'rbac.authorization.k8s.io/v1beta1',
+    ['ClusterRole', 'ClusterRoleBinding', 'Role', 'RoleBinding'],
+    '1.17',
+    '1.22',
+    'rbac.authorization.k8s.io/v1',
+  ],
+  ['scheduling.k8s.io/v1beta1', ['PriorityClass'], '1.14', '1.22', 'scheduling.k8s.io/v1'],
+  ['storage.k8s.io/v1beta1', ['CSINode'], '1.17', '1.22', 'storage.k8s.io/v1'],
+  ['storage.k8s.io/v1beta1', ['CSIDriver', 'StorageClass', 'VolumeAttachment'], '1.19', '1.22', 'storage.k8s.io/v1'],
+  ['events.k8s.io/v1beta1', ['Event'], '1.19', '1.25', 'events.k8s.io/v1'],
+  ['node.k8s.io/v1beta1', ['RuntimeClass'], '1.20', '1.25', 'node.k8s.io/v1'],
+  ['batch/v1beta1', ['CronJob'], '1.21', '1.25', 'batch/v1'],
+  ['discovery.k8s.io/v1beta1', ['EndpointSlice'], '1.21', '1.25', 'discovery.k8s.io/v1'],
+  ['policy/v1beta1', ['PodDisruptionBudget'], '1.21', '1.25', 'policy/v1'],
+  ['policy/v1beta1', ['PodSecurityPolicy'], '1.21', '1.25'],
+  ['autoscaling/v2beta1', ['HorizontalPodAutoscaler'], '1.22', '1.25', 'autoscaling/v2'],
+  ['autoscaling/v2beta2', ['HorizontalPodAutoscaler'], '1.23', '1.26', 'autoscaling/v2'],
+  [
+    'flowcontrol.apiserver.k8s.io/v1beta1',
+    ['FlowSchema', 'PriorityLevelConfiguration'],
+    '1.23',
+    '1.26',
+    'flowcontrol.apiserver.k8s.io/v1',
+  ],
+  ['storage.k8s.io/v1beta1', ['CSIStorageCapacity'], '1.24', '1.27', 'storage.k8s.io/v1'],
+  [
+    'flowcontrol.apiserver.k8s.io/v1beta2',
+    ['FlowSchema', 'PriorityLevelConfiguration'],
+    '1.26',
+    '1.29',
+    'flowcontrol.apiserver.k8s.io/v1',
+  ],
+  [
+    'flowcontrol.apiserver.k8s.io/v1beta3',
+    ['FlowSchema', 'PriorityLevelConfiguration'],
+    '1.29',
+    '1.32',
+    'flowcontrol.apiserver.k8s.io/v1',
+  ],
+];
+
+const deprecationsByGVK = new Map<string, KubernetesDeprecation>();
+for (const [apiVersion, kinds, deprecatedIn, removedIn, replacement] of DEPRECATIONS) {
+  for (const kind of kinds) {
+    deprecationsByGVK.set(`${apiVersion}/${kind}`, { apiVersion, kind, deprecatedIn, removedIn, replacement });
+  }
+}
+
+/**
+ * @param kubernetesVersion the target version, such as `v1.29.0`
+ * @returns the deprecation of the API when it is deprecated or removed in the target version
+ */
+export function getKubernetesDeprecation(
+  apiVersion: string,
+  kind: string,
+  kubernetesVersion: string
+): KubernetesDeprecation | undefined {
+  const deprecation = deprecationsByGVK.get(`${apiVersion}/${kind}`);
+  return deprecation && compareMinorVersions(kubernetesVersion, deprecation.deprecatedIn) >= 0 ? deprecation : undefined;
+}
+
+export function isRemovedIn(deprecation: KubernetesDeprecation, kubernetesVersion: string): boolean {
+  return compareMinorVersions(kubernetesVersion, deprecation.removedIn) >= 0;
+}
+
+function compareMinorVersions(version: string, other: string): number {
+  const [major, minor] = parseMinorVersion(version);
+  const [otherMajor, otherMinor] = parseMinorVersion(other);
+  return major - otherMajor || minor - otherMinor;
+}
+
+function parseMinorVersion(version: string): [number, number] {
+  const [major, minor] = version.replace(/^v/i, '').split('.');
+  return [Number(major) || 0, Number(minor) || 0];
+}
@@ -0,0 +1,233 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { ASTNode } from '../jsonLanguageTypes';
+import type { SingleYAMLDocument } from '../parser/yamlParser07';
+
+/**
+ * A named Kubernetes resource defined by a document of a file
+ */
+export interface KubernetesResource {
+  kind: string;
+  name: string;
+  namespace?: string;
+  document: SingleYAMLDocument;
+  nameNode: ASTNode;
+}
+
+/**
+ * A reference to another resource, such as the ConfigMap mounted as a volume of a pod
+ */
+export interface KubernetesReference {
+  kind: string;
+  name: string;
+  /**
+   * The value node holding the name of the referenced resource
+   */
+  node: ASTNode;
+}
+
+/**
+ * The pod template of a workload, or a pod, with the labels of its pods
+ */
+export interface KubernetesPodTemplate {
+  labels: Record<string, string>;
+  namespace?: string;
+  document: SingleYAMLDocument;
+  labelsNode: ASTNode;
+}
+
+/**
+ * The label selector of a Service
+ */
+export interface KubernetesSelector {
+  labels: Record<string, string>;
+  node: ASTNode;
+}
+
+/**
+ * The resources and pod templates defined across the documents of a file
+ */
+export interface KubernetesResourceIndex {
+  resources: KubernetesResource[];
+  podTemplates: KubernetesPodTemplate[];
+}
+
+const WORKLOAD_POD_TEMPLATE_PATH = ['spec', 'template'];
+
+/**
+ * Path of the pod template of the workload kinds, the root of a Pod holding its metadata and spec
+ */
+const POD_TEMPLATE_PATHS = new Map<string, string[]>([
+  ['Pod', []],
+  ['Deployment', WORKLOAD_POD_TEMPLATE_PATH],
+  ['ReplicaSet', WORKLOAD_POD_TEMPLATE_PATH],
+  ['ReplicationController', WORKLOAD_POD_TEMPLATE_PATH],
+  ['StatefulSet', WORKLOAD_POD_TEMPLATE_PATH],
+  ['DaemonSet', WORKLOAD_POD_TEMPLATE_PATH],
+  ['Job', WORKLOAD_POD_TEMPLATE_PATH],
+  ['CronJob', ['spec', 'jobTemplate', 'spec', 'template']],
+]);
+
+const CONTAINER_PROPERTIES = ['containers', 'initContainers', 'ephemeralContainers'];
+
+export function indexKubernetesResources(documents: SingleYAMLDocument[]): KubernetesResourceIndex {
+  const index: KubernetesResourceIndex = { resources: [], podTemplates: [] };
+  for (const document of documents) {
+    const kind = getString(getProperty(document.root, 'kind'));
+    if (!kind) {
+      continue;
+    }
+    const namespace = getNamespace(document);
+    const nameNode = getProperty(document.root, 'metadata', 'name');
+    const name = getString(nameNode);
+    if (name) {
+      index.resources.push({ kind, name, namespace, document, nameNode });
+    }
+    const labelsNode = getProperty(getPodTemplate(document, kind), 'metadata', 'labels');
+    if (labelsNode?.type === 'object') {
+      index.podTemplates.push({ labels: getLabels(labelsNode), namespace, document, labelsNode });
+    }
+  }
+  return index;
+}
+
+/**
+ * Collect the references of the pod spec of a workload to its ServiceAccount, ConfigMaps, Secrets and PersistentVolumeClaims.
+ * The references marked `optional` are left out.
+ */
+export function getKubernetesReferences(document: SingleYAMLDocument): KubernetesReference[] {
+  const podSpec = getProperty(getPodTemplate(document, getString(getProperty(document.root, 'kind'))), 'spec');
+  if (podSpec?.type !== 'object') {
+    return [];
+  }
+
+  const references: KubernetesReference[] = [];
+  const addReference = (kind: string, parent: ASTNode | undefined, nameProperty: string): void => {
+    const node = getProperty(parent, nameProperty);
+    const name = getString(node);
+    if (name && getProperty(parent, 'optional')?.value !== true) {
+      references.push({ kind, name, node });
+    }
+  };
+
+  for (const nameProperty of ['serviceAccountName', 'serviceAccount']) {
+    // the default ServiceAccount is created with the namespace
+    if (getString(getProperty(podSpec, nameProperty)) !== 'default') {
+      addReference('ServiceAccount', podSpec, nameProperty);
+    }
+  }
+  for (const imagePullSecret of getItems(getProperty(podSpec, 'imagePullSecrets'))) {
+    addReference('Secret', imagePullSecret, 'name');
+  }
+  for (const volume of getItems(getProperty(podSpec, 'volumes'))) {
+    addReference('ConfigMap', getProperty(volume, 'configMap'), 'name');
+    addReference('Secret', getProperty(volume, 'secret'), 'secretName');
+    addReference('PersistentVolumeClaim', getProperty(volume, 'persistentVolumeClaim'), 'claimName');
+    for (const source of getItems(getProperty(volume, 'projected', 'sources'))) {
+      addReference('ConfigMap', getProperty(source, 'configMap'), 'name');
+      addReference('Secret', getProperty(source, 'secret'), 'name');
+    }
+  }
+  for (const containerProperty of CONTAINER_PROPERTIES) {
+    for (const container of getItems(getProperty(podSpec, containerProperty))) {
+      for (const envFrom of getItems(getProperty(container, 'envFrom'))) {
+        addReference('ConfigMap', getProperty(envFrom, 'configMapRef'), 'name');
+        addReference('Secret', getProperty(envFrom, 'secretRef'), 'name');
+      }
+      for (const env of getItems(getProperty(container, 'env'))) {
+        addReference('ConfigMap', getProperty(env, 'valueFrom', 'configMapKeyRef'), 'name');
+        addReference('Secret', getProperty(env, 'valueFrom', 'secretKeyRef'), 'name');
+      }
+    }
+  }
+  return references;
+}
+
+/**
+ * @returns the selector of a Service, unless it selects no pods
+ */
+export function getServiceSelector(document: SingleYAMLDocument): KubernetesSelector | undefined {
+  if (getString(getProperty(document.root, 'kind')) !== 'Service') {
+    return undefined;
+  }
+  const node = getProperty(document.root, 'spec', 'selector');
+  if (node?.type !== 'object' || node.properties.length === 0) {
+    return undefined;
+  }
+  return { labels: getLabels(node), node };
+}
+
+export function findReferencedResources(
+  index: KubernetesResourceIndex,
+  document: SingleYAMLDocument,
+  reference: KubernetesReference
+): KubernetesResource[] {
+  const namespace = getNamespace(document);
+  return index.resources.filter(
+    (resource) =>
+      resource.kind === reference.kind && resource.name === reference.name && isSameNamespace(resource.namespace, namespace)
+  );
+}
+
+export function findSelectedPodTemplates(
+  index: KubernetesResourceIndex,
+  document: SingleYAMLDocument,
+  selector: KubernetesSelector
+): KubernetesPodTemplate[] {
+  const namespace = getNamespace(document);
+  return index.podTemplates.filter(
+    (podTemplate) =>
+      isSameNamespace(podTemplate.namespace, namespace) &&
+      Object.entries(selector.labels).every(([label, value]) => podTemplate.labels[label] === value)
+  );
+}
+
+/**
+ * The resources without namespace are created in the namespace of the context, which may be the one of the others
+ */
+function isSameNamespace(namespace: string | undefined, other: string | undefined): boolean {
+  return !namespace || !other || namespace === other;
+}
+
+function getNamespace(document: SingleYAMLDocument): string | undefined {
+  return getString(getProperty(document.root, 'metadata', 'namespace'));
+}
+
+function getPodTemplate(document: SingleYAMLDocument, kind: string | undefined): ASTNode | undefined {
+  const path = POD_TEMPLATE_PATHS.get(kind);
+  return path && getProperty(document.root, ...path);
+}
+
+function getProperty(node: ASTNode | undefined, ...path: string[]): ASTNode | undefined {
+  for (const key of path) {
+    if (node?.type !== 'object') {
+      return undefined;
+    }
+    node = node.properties.find((property) => property.keyNode.value === key)?.valueNode;
+  }
+  return node;
+}
+
+function getItems(node: ASTNode | undefined): ASTNode[] {
+  return node?.type === 'array' ? node.items : [];
+}
+
+function getString(node: ASTNode | undefined): string | undefined {
+  return node?.type === 'string' ? node.value : undefined;
+}
+
+function getLabels(node: ASTNode): Record<string, string> {
+  const labels: Record<string, string> = {};
+  if (node.type === 'object') {
+    for (const property of node.properties) {
+      const value = property.valueNode?.value;
+      if (value !== undefined && value !== null) {
+        labels[property.keyNode.value] = String(value);
+      }
+    }
+  }
+  return labels;
+}
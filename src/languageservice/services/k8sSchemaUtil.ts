@@ -1,3 +1,4 @@
+import { parseAllDocuments } from 'yaml';
 import type { JSONDocument } from '../parser/jsonDocument';
 import { SingleYAMLDocument } from '../parser/yamlParser07';
 
@@ -97,6 +98,90 @@ type GroupVersionKind = {
   kind: string;
 };
 
+const INSTANCE_KEYWORDS = new Set(['enum', 'default', 'example']);
+const SCHEMA_MAP_KEYWORDS = new Set(['properties', 'patternProperties', 'definitions']);
+
+/**
+ * The schema of a custom resource, for one of the versions served by its CustomResourceDefinition
+ */
+export interface CustomResourceSchema extends GroupVersionKind {
+  schema: JSONSchema;
+}
+
+/**
+ * Extract the `openAPIV3Schema` of each version served by the CustomResourceDefinitions of a YAML file.
+ * @param content the content of the file
+ */
+export function getCustomResourceSchemas(content: string): CustomResourceSchema[] {
+  if (!content.includes('CustomResourceDefinition')) {
+    return [];
+  }
+  const customResourceSchemas: CustomResourceSchema[] = [];
+  for (const document of parseAllDocuments(content)) {
+    if (document.errors.length) {
+      continue;
+    }
+    let crd;
+    try {
+      crd = document.toJSON();
+    } catch {
+      continue;
+    }
+    if (
+      crd?.kind !== 'CustomResourceDefinition' ||
+      typeof crd.apiVersion !== 'string' ||
+      !crd.apiVersion.startsWith('apiextensions.k8s.io/')
+    ) {
+      continue;
+    }
+    const group = crd.spec?.group;
+    const kind = crd.spec?.names?.kind;
+    if (typeof group !== 'string' || typeof kind !== 'string') {
+      continue;
+    }
+    // v1beta1 definitions may share a single schema between their versions
+    const versions = Array.isArray(crd.spec.versions) ? crd.spec.versions : [{ name: crd.spec.version }];
+    for (const version of versions) {
+      const openAPIV3Schema = version?.schema?.openAPIV3Schema ?? crd.spec.validation?.openAPIV3Schema;
+      if (
+        typeof version?.name !== 'string' ||
+        version.served === false ||
+        !openAPIV3Schema ||
+        typeof openAPIV3Schema !== 'object'
+      ) {
+        continue;
+      }
+      customResourceSchemas.push({ group, version: version.name, kind, schema: toJSONSchema(openAPIV3Schema) });
+    }
+  }
+  return customResourceSchemas;
+}
+
+/**
+ * Turn the OpenAPI `nullable` keyword into a `null` type
+ * @param inSchemaMap whether the value maps names to schemas, like `properties`
+ */
+function toJSONSchema(openAPISchema: unknown, inSchemaMap = false): JSONSchema {
+  if (Array.isArray(openAPISchema)) {
+    return openAPISchema.map((item) => toJSONSchema(item)) as JSONSchema;
+  }
+  if (!openAPISchema || typeof openAPISchema !== 'object') {
+    return openAPISchema as JSONSchema;
+  }
+  const schema: JSONSchema = {};
+  for (const [key, value] of Object.entries(openAPISchema)) {
+    if (!inSchemaMap && INSTANCE_KEYWORDS.has(key)) {
+      schema[key] = value;
+    } else {
+      schema[key] = toJSONSchema(value, !inSchemaMap && SCHEMA_MAP_KEYWORDS.has(key));
+    }
+  }
+  if (!inSchemaMap && schema['nullable'] === true && typeof schema.type === 'string') {
+    schema.type = [schema.type, 'null'];
+  }
+  return schema;
+}
+
 /**
  * Retrieve the group, version and kind from the document.
  * Public for testing purpose, not part of the API.
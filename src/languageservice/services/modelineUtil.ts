@@ -12,14 +12,26 @@ import type { JSONDocument } from '../parser/jsonDocument';
  * @param doc
  */
 export function getSchemaFromModeline(doc: SingleYAMLDocument | JSONDocument): string | undefined {
+  return getModelineValue(doc, 'schema');
+}
+
+/**
+ * Retrieve the Kubernetes version declared as modeline, such as `# yaml-language-server: $k8sVersion=v1.29.0`.
+ * @param doc
+ */
+export function getKubernetesVersionFromModeline(doc: SingleYAMLDocument | JSONDocument): string | undefined {
+  return getModelineValue(doc, 'k8sVersion');
+}
+
+function getModelineValue(doc: SingleYAMLDocument | JSONDocument, name: string): string | undefined {
   if (doc instanceof SingleYAMLDocument) {
     const yamlLanguageServerModeline = doc.documentHeaderComments.find((lineComment) => {
       return isModeline(lineComment);
     });
     if (yamlLanguageServerModeline != undefined) {
-      const schemaMatches = yamlLanguageServerModeline.match(/\$schema(?:=|:[^\S\r\n]*)(\S+)/);
-      if (schemaMatches !== null && schemaMatches.length === 2) {
-        return schemaMatches[1];
+      const matches = yamlLanguageServerModeline.match(new RegExp(`\\$${name}(?:=|:[^\\S\\r\\n]*)(\\S+)`));
+      if (matches !== null && matches.length === 2) {
+        return matches[1];
       }
     }
   }
@@ -0,0 +1,80 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * `ref`: a schema references another one with `$ref`.
+ * `id`: a resource is declared with `$id` by a schema, possibly under another URI than the one of the schema.
+ */
+export type SchemaDependencyKind = 'ref' | 'id';
+
+/**
+ * The schema `from` depends on the schema `to`: it changes when `to` changes
+ */
+export interface SchemaDependencyEdge {
+  from: string;
+  to: string;
+  kind: SchemaDependencyKind;
+}
+
+/**
+ * The dependencies between the schemas, recorded while resolving them
+ */
+export class SchemaDependencyGraph {
+  // the schemas depending on a schema, by URI of the schema
+  private dependents = new Map<string, Map<string, SchemaDependencyKind>>();
+
+  addDependency(from: string, to: string, kind: SchemaDependencyKind): void {
+    if (from === to) {
+      return;
+    }
+    let dependents = this.dependents.get(to);
+    if (!dependents) {
+      dependents = new Map();
+      this.dependents.set(to, dependents);
+    }
+    if (!dependents.has(from)) {
+      dependents.set(from, kind);
+    }
+  }
+
+  /**
+   * Forget the dependencies of a schema, which are recorded again when it is resolved
+   */
+  removeDependencies(from: string): void {
+    for (const [to, dependents] of this.dependents) {
+      dependents.delete(from);
+      if (dependents.size === 0) {
+        this.dependents.delete(to);
+      }
+    }
+  }
+
+  /**
+   * @returns the schemas depending on the schema, directly or through other schemas
+   */
+  getDependents(uri: string): string[] {
+    const found = new Set<string>();
+    const toWalk = [uri];
+    while (toWalk.length) {
+      for (const dependent of this.dependents.get(toWalk.pop())?.keys() ?? []) {
+        if (dependent !== uri && !found.has(dependent)) {
+          found.add(dependent);
+          toWalk.push(dependent);
+        }
+      }
+    }
+    return Array.from(found);
+  }
+
+  getEdges(): SchemaDependencyEdge[] {
+    const edges: SchemaDependencyEdge[] = [];
+    for (const [to, dependents] of this.dependents) {
+      for (const [from, kind] of dependents) {
+        edges.push({ from, to, kind });
+      }
+    }
+    return edges;
+  }
+}
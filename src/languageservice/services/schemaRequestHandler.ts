@@ -1,4 +1,5 @@
 import { join } from 'path';
+import type { XHRResponse } from 'request-light';
 import { getErrorStatusDescription, xhr } from 'request-light';
 import * as URL from 'url';
 import type { Connection, WorkspaceFolder } from 'vscode-languageserver';
@@ -12,6 +13,39 @@ export interface FileSystem {
   readFile(fsPath: string, encoding?: string): Promise<string>;
 }
 
+/**
+ * Content of a remote schema kept in a {@link SchemaCache}, with the validators to revalidate it
+ */
+export interface CachedSchema {
+  content: string;
+  etag?: string;
+  lastModified?: string;
+  /**
+   * Time, in milliseconds since the epoch, the content was last fetched or revalidated
+   */
+  timestamp: number;
+}
+
+/**
+ * Persistent storage of the content of remote schemas
+ */
+export interface SchemaCache {
+  get(uri: string): Promise<CachedSchema | undefined>;
+  set(uri: string, schema: CachedSchema): Promise<void>;
+}
+
+export interface SchemaCacheOptions {
+  cache?: SchemaCache;
+  /**
+   * Time, in milliseconds, the cached content is used without being revalidated
+   */
+  ttl: number;
+  /**
+   * Only serve cached content, never access the network
+   */
+  offline: boolean;
+}
+
 // eslint-disable-next-line @typescript-eslint/no-namespace
 namespace FSReadUri {
   export const type: RequestType<string, string, unknown> = new RequestType('fs/readUri');
@@ -28,7 +62,8 @@ export const schemaRequestHandler = async (
   workspaceRoot: URI,
   useVSCodeContentRequest: boolean,
   fs: FileSystem,
-  isWeb: boolean
+  isWeb: boolean,
+  schemaCache?: SchemaCacheOptions
 ): Promise<string> => {
   if (!uri) {
     return Promise.reject('No schema specified');
@@ -78,32 +113,98 @@ export const schemaRequestHandler = async (
     // If we are running inside of VSCode we need to make a content request. This content request
     // will make it so that schemas behind VPN's will resolve correctly
     if (useVSCodeContentRequest) {
-      try {
-        return await connection.sendRequest(VSCodeContentRequest.type, uri);
-      } catch (error) {
-        throw error.message;
-      }
+      return requestWithCache(uri, schemaCache, async () => {
+        try {
+          return { content: await connection.sendRequest(VSCodeContentRequest.type, uri), timestamp: Date.now() };
+        } catch (error) {
+          throw error.message;
+        }
+      });
     }
 
+    return requestHttpContent(uri, schemaCache);
+  }
+
+  // Neither local file nor vscode, nor HTTP(S) schema request, so send it off as a custom request
+  return connection.sendRequest(CustomSchemaContentRequest.type, uri) as Promise<string>;
+};
+
+/**
+ * Send an HTTP(S) request for the given URI, revalidating the cached content with its ETag and Last-Modified
+ * date once its time to live is over.
+ * @param uri the http(s) URI
+ * @param schemaCache where to keep the content
+ */
+export async function requestHttpContent(uri: string, schemaCache?: SchemaCacheOptions): Promise<string> {
+  return requestWithCache(uri, schemaCache, async (cached) => {
     // Send the HTTP(S) schema content request and return the result
     const version = (typeof process !== 'undefined' && process.env.YAML_LANGUAGE_SERVER_VERSION) || 'unknown';
     const nodeVersion = typeof process !== 'undefined' && process.versions?.node ? ` node/${process.versions.node}` : '';
     const platform = typeof process !== 'undefined' && process.platform ? ` (${process.platform})` : '';
-    const headers = {
+    const headers: Record<string, string> = {
       'Accept-Encoding': 'gzip, deflate',
       'User-Agent': `yaml-language-server/${version} (RedHat)${nodeVersion}${platform}`,
     };
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
     try {
       const response = await xhr({ url: uri, followRedirects: 5, headers });
-      return response.responseText;
+      return {
+        content: response.responseText,
+        etag: getHeader(response, 'etag'),
+        lastModified: getHeader(response, 'last-modified'),
+        timestamp: Date.now(),
+      };
     } catch (error) {
+      if (cached && error.status === 304) {
+        return { ...cached, etag: getHeader(error, 'etag') ?? cached.etag, timestamp: Date.now() };
+      }
       throw error.responseText || getErrorStatusDescription(error.status) || error.toString();
     }
+  });
+}
+
+/**
+ * Serve the cached content of the URI while it is fresh, in offline mode, or when it cannot be fetched again.
+ * Otherwise fetch it and update the cache.
+ */
+async function requestWithCache(
+  uri: string,
+  schemaCache: SchemaCacheOptions | undefined,
+  fetchContent: (cached: CachedSchema | undefined) => Promise<CachedSchema>
+): Promise<string> {
+  const cached = await schemaCache?.cache?.get(uri).catch((): undefined => undefined);
+  if (schemaCache?.offline) {
+    if (cached) {
+      return cached.content;
+    }
+    throw `Unable to load ${uri} in offline mode, it has not been cached.`;
+  }
+  if (cached && Date.now() - cached.timestamp < schemaCache.ttl) {
+    return cached.content;
   }
 
-  // Neither local file nor vscode, nor HTTP(S) schema request, so send it off as a custom request
-  return connection.sendRequest(CustomSchemaContentRequest.type, uri) as Promise<string>;
-};
+  let fetched: CachedSchema;
+  try {
+    fetched = await fetchContent(cached);
+  } catch (error) {
+    if (cached) {
+      return cached.content;
+    }
+    throw error;
+  }
+  await schemaCache?.cache?.set(uri, fetched).catch(() => undefined);
+  return fetched.content;
+}
+
+function getHeader(response: XHRResponse, name: string): string | undefined {
+  const value = response?.headers?.[name];
+  return Array.isArray(value) ? value[0] : value;
+}
 
 export const workspaceContext: WorkspaceContextService = {
   resolveRelativePath: (relativePath: string, resource: string) => {
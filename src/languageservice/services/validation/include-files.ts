@@ -0,0 +1,103 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { TextDocument as TextDocumentImpl } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location } from 'vscode-languageserver-types';
+import * as l10n from '@vscode/l10n';
+import { URI } from 'vscode-uri';
+import type { JSONSchema } from '../../jsonSchema';
+import { YAML_SOURCE } from '../../parser/schemaValidation/baseValidator';
+import type { ParserOptions, SingleYAMLDocument } from '../../parser/yamlParser07';
+import { parse } from '../../parser/yamlParser07';
+import type { IncludeReference } from '../../utils/includeUtils';
+import { findIncludes } from '../../utils/includeUtils';
+import type { FileReaderService } from '../../yamlLanguageService';
+
+/**
+ * Report the `!include` tags whose file can't be read and, when a schema is given,
+ * validate the content of the included files against the subschema at the include site.
+ */
+export class IncludeFilesValidator {
+  constructor(
+    private readonly fileReader: FileReaderService,
+    private readonly parserOptions: ParserOptions
+  ) {}
+
+  async validate(document: TextDocument, yamlDoc: SingleYAMLDocument, schema?: JSONSchema): Promise<Diagnostic[]> {
+    const includes = findIncludes(document, yamlDoc);
+    if (includes.length === 0) {
+      return [];
+    }
+
+    const matchingSchemas = schema ? yamlDoc.getMatchingSchemas(schema) : [];
+    const result: Diagnostic[] = [];
+    for (const include of includes) {
+      // the included files are read from the file system, remote files are not fetched
+      if (URI.parse(include.uri).scheme !== 'file') {
+        result.push(
+          Diagnostic.create(
+            include.range,
+            l10n.t('Included file "{0}" is not a local file', include.path),
+            DiagnosticSeverity.Error,
+            undefined,
+            YAML_SOURCE
+          )
+        );
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = await this.fileReader(include.uri);
+      } catch {
+        result.push(
+          Diagnostic.create(
+            include.range,
+            l10n.t('Included file "{0}" not found', include.path),
+            DiagnosticSeverity.Error,
+            undefined,
+            YAML_SOURCE
+          )
+        );
+        continue;
+      }
+
+      // the first schema applied to the node is the one of its property or item, the next ones are its alternatives
+      const subschema = matchingSchemas.find((s) => s.node.internalNode === include.node && !s.inverted)?.schema;
+      if (subschema) {
+        result.push(...this.validateContent(include, content, subschema, yamlDoc.disableAdditionalProperties));
+      }
+    }
+    return result;
+  }
+
+  private validateContent(
+    include: IncludeReference,
+    content: string,
+    schema: JSONSchema,
+    disableAdditionalProperties: boolean
+  ): Diagnostic[] {
+    const includedDocument = TextDocumentImpl.create(include.uri, 'yaml', 0, content);
+    const result: Diagnostic[] = [];
+    for (const includedYamlDoc of parse(content, this.parserOptions, includedDocument).documents) {
+      includedYamlDoc.disableAdditionalProperties = disableAdditionalProperties;
+      includedYamlDoc.uri = include.uri;
+      for (const problem of includedYamlDoc.validate(includedDocument, schema) ?? []) {
+        result.push(
+          Diagnostic.create(
+            include.range,
+            l10n.t('Included file "{0}": {1}', include.path, problem.message),
+            problem.severity,
+            problem.code,
+            YAML_SOURCE,
+            [DiagnosticRelatedInformation.create(Location.create(include.uri, problem.range), problem.message)]
+          )
+        );
+      }
+    }
+    return result;
+  }
+}
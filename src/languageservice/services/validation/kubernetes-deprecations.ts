@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import * as l10n from '@vscode/l10n';
+import { YAML_SOURCE } from '../../parser/schemaValidation/baseValidator';
+import type { SingleYAMLDocument } from '../../parser/yamlParser07';
+import { getKubernetesDeprecation, isRemovedIn } from '../k8sDeprecations';
+import { getGroupVersionKindFromDocument } from '../k8sSchemaUtil';
+import type { AdditionalValidator } from './types';
+
+export const KUBERNETES_DEPRECATED_API_CODE = 'kubernetesDeprecatedApi';
+
+/**
+ * Report the `apiVersion` of the Kubernetes resources which is deprecated or removed in the target Kubernetes version.
+ * The diagnostics carry the replacement apiVersion, if any, in their `replacement` data.
+ */
+export class KubernetesDeprecationsValidator implements AdditionalValidator {
+  constructor(private readonly getKubernetesVersion: (uri: string, yamlDoc: SingleYAMLDocument) => string) {}
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const gvk = yamlDoc.isKubernetes ? getGroupVersionKindFromDocument(yamlDoc) : undefined;
+    if (!gvk || yamlDoc.root?.type !== 'object') {
+      return [];
+    }
+    const kubernetesVersion = this.getKubernetesVersion(document.uri, yamlDoc);
+    const apiVersion = `${gvk.group}/${gvk.version}`;
+    const deprecation = getKubernetesDeprecation(apiVersion, gvk.kind, kubernetesVersion);
+    const apiVersionNode = yamlDoc.root.properties.find((property) => property.keyNode.value === 'apiVersion')?.valueNode;
+    if (!deprecation || !apiVersionNode) {
+      return [];
+    }
+
+    const { deprecatedIn, removedIn, replacement } = deprecation;
+    const removed = isRemovedIn(deprecation, kubernetesVersion);
+    let message: string;
+    if (removed) {
+      message = replacement
+        ? l10n.t(
+            '{0} {1} is no longer served since Kubernetes {2}, use {3} instead',
+            apiVersion,
+            gvk.kind,
+            removedIn,
+            replacement
+          )
+        : l10n.t('{0} {1} is no longer served since Kubernetes {2}', apiVersion, gvk.kind, removedIn);
+    } else {
+      message = replacement
+        ? l10n.t(
+            '{0} {1} is deprecated since Kubernetes {2} and removed in {3}, use {4} instead',
+            apiVersion,
+            gvk.kind,
+            deprecatedIn,
+            removedIn,
+            replacement
+          )
+        : l10n.t('{0} {1} is deprecated since Kubernetes {2} and removed in {3}', apiVersion, gvk.kind, deprecatedIn, removedIn);
+    }
+    const range = Range.create(
+      document.positionAt(apiVersionNode.offset),
+      document.positionAt(apiVersionNode.offset + apiVersionNode.length)
+    );
+    const diagnostic = Diagnostic.create(
+      range,
+      message,
+      removed ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+      KUBERNETES_DEPRECATED_API_CODE,
+      YAML_SOURCE
+    );
+    diagnostic.data = { replacement };
+    return [diagnostic];
+  }
+}
@@ -0,0 +1,78 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import * as l10n from '@vscode/l10n';
+import type { ASTNode } from '../../jsonLanguageTypes';
+import { YAML_SOURCE } from '../../parser/schemaValidation/baseValidator';
+import type { SingleYAMLDocument } from '../../parser/yaml-documents';
+import type { KubernetesResourceIndex } from '../k8sReferences';
+import {
+  findReferencedResources,
+  findSelectedPodTemplates,
+  getKubernetesReferences,
+  getServiceSelector,
+  indexKubernetesResources,
+} from '../k8sReferences';
+import type { AdditionalValidator } from './types';
+
+export const KUBERNETES_UNRESOLVED_REFERENCE_CODE = 'kubernetesUnresolvedReference';
+export const KUBERNETES_UNMATCHED_SELECTOR_CODE = 'kubernetesUnmatchedSelector';
+
+/**
+ * Check the references between the Kubernetes resources of a multi-document file.
+ * A reference is only reported when the file defines resources of its kind, the others being expected to come from elsewhere,
+ * and a Service selector when the file defines pod templates.
+ */
+export class KubernetesReferencesValidator implements AdditionalValidator {
+  private indexes = new WeakMap<SingleYAMLDocument[], KubernetesResourceIndex>();
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument, documents?: SingleYAMLDocument[]): Diagnostic[] {
+    if (!yamlDoc.isKubernetes || !documents || documents.length < 2) {
+      return [];
+    }
+    let index = this.indexes.get(documents);
+    if (!index) {
+      index = indexKubernetesResources(documents);
+      this.indexes.set(documents, index);
+    }
+
+    const diagnostics: Diagnostic[] = [];
+    for (const reference of getKubernetesReferences(yamlDoc)) {
+      if (
+        index.resources.some((resource) => resource.kind === reference.kind) &&
+        findReferencedResources(index, yamlDoc, reference).length === 0
+      ) {
+        diagnostics.push(
+          this.createDiagnostic(
+            document,
+            reference.node,
+            l10n.t('{0} "{1}" is not defined in this file', reference.kind, reference.name),
+            KUBERNETES_UNRESOLVED_REFERENCE_CODE
+          )
+        );
+      }
+    }
+
+    const selector = getServiceSelector(yamlDoc);
+    if (selector && index.podTemplates.length > 0 && findSelectedPodTemplates(index, yamlDoc, selector).length === 0) {
+      diagnostics.push(
+        this.createDiagnostic(
+          document,
+          selector.node,
+          l10n.t('Selector does not match the pod labels of any resource in this file'),
+          KUBERNETES_UNMATCHED_SELECTOR_CODE
+        )
+      );
+    }
+    return diagnostics;
+  }
+
+  private createDiagnostic(document: TextDocument, node: ASTNode, message: string, code: string): Diagnostic {
+    const range = Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+    return Diagnostic.create(range, message, DiagnosticSeverity.Warning, code, YAML_SOURCE);
+  }
+}
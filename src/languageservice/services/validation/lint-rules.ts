@@ -0,0 +1,87 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { DiagnosticSeverity } from 'vscode-languageserver-types';
+import { KubernetesDeprecationsValidator } from './kubernetes-deprecations';
+import { KubernetesReferencesValidator } from './kubernetes-references';
+import { MapKeyOrderValidator } from './map-key-order';
+import { MergeKeysValidator } from './merge-keys';
+import type { LintRule, LintRuleSeverity } from './types';
+import { UnusedAnchorsValidator } from './unused-anchors';
+import { YAMLStyleValidator } from './yaml-style';
+import {
+  CommentsValidator,
+  DocumentEndValidator,
+  DocumentStartValidator,
+  EmptyLinesValidator,
+  IndentationValidator,
+  LineLengthValidator,
+  OctalValuesValidator,
+  QuotedStringsValidator,
+  TrailingSpacesValidator,
+  TruthyValidator,
+} from './yamllint';
+
+// the rules of yamllint, which only run once a severity is configured for them
+const YAMLLINT_RULES: LintRule[] = [
+  { id: 'line-length', create: ({ options, printWidth }) => new LineLengthValidator(options, printWidth) },
+  { id: 'trailing-spaces', create: () => new TrailingSpacesValidator() },
+  { id: 'empty-lines', create: ({ options }) => new EmptyLinesValidator(options) },
+  { id: 'document-start', create: ({ options }) => new DocumentStartValidator(options) },
+  { id: 'document-end', create: ({ options }) => new DocumentEndValidator(options) },
+  { id: 'truthy', create: ({ options }) => new TruthyValidator(options) },
+  { id: 'comments', create: ({ options }) => new CommentsValidator(options) },
+  { id: 'indentation', create: ({ options }) => new IndentationValidator(options) },
+  { id: 'octal-values', create: ({ options }) => new OctalValuesValidator(options) },
+  { id: 'quoted-strings', create: ({ options }) => new QuotedStringsValidator(options) },
+].map((rule) => ({ ...rule, isEnabledByDefault: () => false }));
+
+export const BUILTIN_LINT_RULES: LintRule[] = [
+  {
+    id: 'flow-style',
+    isEnabledByDefault: (settings) => settings.flowMapping === 'forbid' || settings.flowSequence === 'forbid',
+    create: ({ settings }) => new YAMLStyleValidator(settings),
+  },
+  {
+    id: 'key-ordering',
+    isEnabledByDefault: (settings) => !!settings.keyOrdering,
+    create: () => new MapKeyOrderValidator(),
+  },
+  {
+    id: 'unused-anchors',
+    create: () => new UnusedAnchorsValidator(),
+  },
+  {
+    id: 'merge-keys',
+    isEnabledByDefault: () => false,
+    create: () => new MergeKeysValidator(),
+  },
+  {
+    id: 'kubernetes-references',
+    create: () => new KubernetesReferencesValidator(),
+  },
+  {
+    id: 'kubernetes-deprecations',
+    create: ({ getKubernetesVersion }) => new KubernetesDeprecationsValidator(getKubernetesVersion),
+  },
+  ...YAMLLINT_RULES,
+];
+
+const LINT_RULE_SEVERITIES: { [severity in Exclude<LintRuleSeverity, 'off'>]: DiagnosticSeverity } = {
+  info: DiagnosticSeverity.Information,
+  warning: DiagnosticSeverity.Warning,
+  error: DiagnosticSeverity.Error,
+};
+
+export function isLintRuleSeverity(value: unknown): value is LintRuleSeverity {
+  return value === 'off' || (typeof value === 'string' && Object.prototype.hasOwnProperty.call(LINT_RULE_SEVERITIES, value));
+}
+
+/**
+ * @returns the diagnostic severity of a configured rule severity other than `off`
+ */
+export function toDiagnosticSeverity(severity: Exclude<LintRuleSeverity, 'off'>): DiagnosticSeverity {
+  return LINT_RULE_SEVERITIES[severity];
+}
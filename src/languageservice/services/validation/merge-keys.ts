@@ -0,0 +1,159 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity, Location, Range } from 'vscode-languageserver-types';
+import type { Document, Node, Pair, YAMLMap } from 'yaml';
+import { isAlias, isMap, isScalar, isSeq, visit } from 'yaml';
+import * as l10n from '@vscode/l10n';
+import type { SingleYAMLDocument } from '../../parser/yaml-documents';
+import type { AdditionalValidator } from './types';
+
+export const MERGE_KEY_OVERRIDE_CODE = 'mergeKeyOverride';
+export const MERGE_KEY_CONFLICT_CODE = 'mergeKeyConflict';
+
+/**
+ * A key brought into a mapping by a merge key
+ */
+interface MergedKey {
+  /**
+   * The key in the merged mapping
+   */
+  key: Node;
+  /**
+   * The alias, such as `*base`, or the mapping merged
+   */
+  source: Node;
+}
+
+/**
+ * Report the keys of the `<<` merge keys which are overridden: by a key of the mapping, or by another merged mapping
+ * providing the same key, the first merged mapping winning.
+ */
+export class MergeKeysValidator implements AdditionalValidator {
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    visit(yamlDoc.internalDocument, (key, node) => {
+      if (!isMap(node) || !node.items.some(isMergePair)) {
+        return;
+      }
+      const localKeys = new Map<string, Node>();
+      for (const pair of node.items) {
+        const name = getKeyName(pair);
+        if (name !== undefined && !isMergePair(pair)) {
+          localKeys.set(name, pair.key as Node);
+        }
+      }
+      for (const [name, mergedKeys] of getMergedKeys(node, yamlDoc.internalDocument)) {
+        const localKey = localKeys.get(name);
+        if (localKey) {
+          diagnostics.push(
+            this.createDiagnostic(
+              document,
+              localKey,
+              l10n.t(
+                'Key "{0}" overrides the value merged from {1}',
+                name,
+                mergedKeys.map((mergedKey) => getLabel(mergedKey)).join(', ')
+              ),
+              MERGE_KEY_OVERRIDE_CODE,
+              mergedKeys
+            )
+          );
+        } else if (mergedKeys.length > 1) {
+          diagnostics.push(
+            this.createDiagnostic(
+              document,
+              mergedKeys[1].source,
+              l10n.t(
+                'Key "{0}" is merged from {1}, the value of {2} is used',
+                name,
+                mergedKeys.map((mergedKey) => getLabel(mergedKey)).join(', '),
+                getLabel(mergedKeys[0])
+              ),
+              MERGE_KEY_CONFLICT_CODE,
+              mergedKeys
+            )
+          );
+        }
+      }
+    });
+    return diagnostics;
+  }
+
+  private createDiagnostic(
+    document: TextDocument,
+    node: Node,
+    message: string,
+    code: string,
+    mergedKeys: MergedKey[]
+  ): Diagnostic {
+    const diagnostic = Diagnostic.create(getRange(document, node), message, DiagnosticSeverity.Information, code);
+    diagnostic.relatedInformation = mergedKeys.map((mergedKey) =>
+      DiagnosticRelatedInformation.create(
+        Location.create(document.uri, getRange(document, mergedKey.key)),
+        l10n.t('Key merged from {0}', getLabel(mergedKey))
+      )
+    );
+    return diagnostic;
+  }
+}
+
+/**
+ * @returns the keys the merge keys of a mapping bring in, by name, in the order of the merged mappings
+ */
+function getMergedKeys(map: YAMLMap, document: Document, visited = new Set<YAMLMap>()): Map<string, MergedKey[]> {
+  const mergedKeys = new Map<string, MergedKey[]>();
+  visited.add(map);
+  for (const pair of map.items.filter(isMergePair)) {
+    const sources = isSeq(pair.value) ? pair.value.items : [pair.value];
+    for (const source of sources) {
+      const mergedMap = isAlias(source) ? source.resolve(document) : source;
+      if (!isMap(mergedMap) || visited.has(mergedMap)) {
+        continue;
+      }
+      for (const [name, key] of getEffectiveKeys(mergedMap, document, new Set(visited))) {
+        const keys = mergedKeys.get(name) ?? [];
+        keys.push({ key, source: source as Node });
+        mergedKeys.set(name, keys);
+      }
+    }
+  }
+  return mergedKeys;
+}
+
+/**
+ * @returns the keys of a mapping, its own keys and the ones it merges, with the key node providing their value
+ */
+function getEffectiveKeys(map: YAMLMap, document: Document, visited: Set<YAMLMap>): Map<string, Node> {
+  const keys = new Map<string, Node>();
+  for (const [name, mergedKeys] of getMergedKeys(map, document, visited)) {
+    keys.set(name, mergedKeys[0].key);
+  }
+  for (const pair of map.items) {
+    const name = getKeyName(pair);
+    if (name !== undefined && !isMergePair(pair)) {
+      keys.set(name, pair.key as Node);
+    }
+  }
+  return keys;
+}
+
+function isMergePair(pair: Pair): boolean {
+  const key = pair.key;
+  return isScalar(key) && (key.value === '<<' || (typeof key.value === 'symbol' && key.value.description === '<<'));
+}
+
+function getKeyName(pair: Pair): string | undefined {
+  return isScalar(pair.key) && pair.key.range && typeof pair.key.value !== 'symbol' ? String(pair.key.value) : undefined;
+}
+
+function getLabel(mergedKey: MergedKey): string {
+  return isAlias(mergedKey.source) ? `"*${mergedKey.source.source}"` : l10n.t('the merged mapping');
+}
+
+function getRange(document: TextDocument, node: Node): Range {
+  return Range.create(document.positionAt(node.range[0]), document.positionAt(node.range[1]));
+}
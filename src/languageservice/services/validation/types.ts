@@ -6,7 +6,55 @@
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 import type { Diagnostic } from 'vscode-languageserver-types';
 import type { SingleYAMLDocument } from '../../parser/yaml-documents';
+import type { LanguageSettings } from '../../yamlLanguageService';
 
 export interface AdditionalValidator {
-  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[];
+  /**
+   * @param documents all the documents of the file, for the validators looking across them
+   */
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument, documents?: SingleYAMLDocument[]): Diagnostic[];
+}
+
+/**
+ * `off` disables the rule, the other severities replace the severity of its diagnostics
+ */
+export type LintRuleSeverity = 'off' | 'info' | 'warning' | 'error';
+
+/**
+ * The configuration of a rule taking options, such as `{ severity: 'warning', max: 120 }`
+ */
+export interface LintRuleConfig {
+  severity?: LintRuleSeverity;
+  [option: string]: unknown;
+}
+
+export interface LintRuleContext {
+  settings: LanguageSettings;
+  /**
+   * The options configured for the rule
+   */
+  options: { [option: string]: unknown };
+  /**
+   * The line width of the formatter
+   */
+  printWidth: number;
+  /**
+   * @returns the Kubernetes version the resources of a document are validated against
+   */
+  getKubernetesVersion(uri: string, yamlDoc: SingleYAMLDocument): string;
+}
+
+/**
+ * A rule of the linter, whose severity is configured with its ID in the `yaml.lint.rules` setting
+ */
+export interface LintRule {
+  /**
+   * Stable identifier of the rule, such as `key-ordering`
+   */
+  id: string;
+  /**
+   * Whether the rule runs when no severity is configured for it, `true` when left out
+   */
+  isEnabledByDefault?(settings: LanguageSettings): boolean;
+  create(context: LintRuleContext): AdditionalValidator;
 }
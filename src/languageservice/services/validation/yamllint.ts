@@ -0,0 +1,502 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import type { CST, Node } from 'yaml';
+import { isMap, isPair, isScalar, isSeq, parseDocument, Parser, Scalar, visit } from 'yaml';
+import * as l10n from '@vscode/l10n';
+import type { SingleYAMLDocument } from '../../parser/yaml-documents';
+import { guessIndentation } from '../../utils/indentationGuesser';
+import { TextBuffer } from '../../utils/textBuffer';
+import type { AdditionalValidator } from './types';
+
+/*
+ * Validators of the yamllint rules of the same name, reading the options of the yamllint rules.
+ * The validators looking at the text rather than the documents check the whole file with its first document.
+ */
+
+type RuleOptions = { [option: string]: unknown };
+
+// the plain scalars which are booleans in YAML 1.1
+const TRUTHY_VALUES = [
+  ...['y', 'yes', 'n', 'no', 'true', 'false', 'on', 'off'].flatMap((value) => [value, value[0].toUpperCase() + value.slice(1)]),
+  ...['YES', 'NO', 'TRUE', 'FALSE', 'ON', 'OFF'],
+];
+
+export class LineLengthValidator implements AdditionalValidator {
+  private max: number;
+  private allowNonBreakableWords: boolean;
+  private allowNonBreakableInlineMappings: boolean;
+
+  constructor(options: RuleOptions, printWidth: number) {
+    this.max = getOption(options, 'max', printWidth);
+    this.allowNonBreakableInlineMappings = getOption(options, 'allow-non-breakable-inline-mappings', false);
+    this.allowNonBreakableWords = this.allowNonBreakableInlineMappings || getOption(options, 'allow-non-breakable-words', true);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument, documents?: SingleYAMLDocument[]): Diagnostic[] {
+    if (!isFirstDocument(yamlDoc, documents)) {
+      return [];
+    }
+    const diagnostics: Diagnostic[] = [];
+    getLines(document).forEach((line, lineNumber) => {
+      if (line.length <= this.max || this.isNonBreakable(line)) {
+        return;
+      }
+      diagnostics.push(
+        createDiagnostic(
+          Range.create(lineNumber, this.max, lineNumber, line.length),
+          l10n.t('Line too long ({0} > {1} characters)', line.length, this.max),
+          'lineLength'
+        )
+      );
+    });
+    return diagnostics;
+  }
+
+  private isNonBreakable(line: string): boolean {
+    if (!this.allowNonBreakableWords) {
+      return false;
+    }
+    // the words of a comment, a sequence item or a line
+    const content = line.trim().replace(/^#+\s?|^-\s/, '');
+    if (!content.includes(' ')) {
+      return true;
+    }
+    return this.allowNonBreakableInlineMappings && /^[^\s#]+:\s+[^\s#]+$/.test(content);
+  }
+}
+
+export class TrailingSpacesValidator implements AdditionalValidator {
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument, documents?: SingleYAMLDocument[]): Diagnostic[] {
+    if (!isFirstDocument(yamlDoc, documents)) {
+      return [];
+    }
+    const diagnostics: Diagnostic[] = [];
+    getLines(document).forEach((line, lineNumber) => {
+      const trimmedLength = line.trimEnd().length;
+      if (trimmedLength < line.length) {
+        diagnostics.push(
+          createDiagnostic(
+            Range.create(lineNumber, trimmedLength, lineNumber, line.length),
+            l10n.t('Trailing spaces'),
+            'trailingSpaces'
+          )
+        );
+      }
+    });
+    return diagnostics;
+  }
+}
+
+export class EmptyLinesValidator implements AdditionalValidator {
+  private max: number;
+  private maxStart: number;
+  private maxEnd: number;
+
+  constructor(options: RuleOptions) {
+    this.max = getOption(options, 'max', 2);
+    this.maxStart = getOption(options, 'max-start', 0);
+    this.maxEnd = getOption(options, 'max-end', 0);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument, documents?: SingleYAMLDocument[]): Diagnostic[] {
+    if (!isFirstDocument(yamlDoc, documents)) {
+      return [];
+    }
+    const lines = getLines(document);
+    // the new line ending the last line
+    if (lines.length > 1 && lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    const diagnostics: Diagnostic[] = [];
+    let blankLines = 0;
+    lines.forEach((line, lineNumber) => {
+      if (line !== '') {
+        blankLines = 0;
+        return;
+      }
+      blankLines++;
+      const isLast = lineNumber === lines.length - 1 || lines[lineNumber + 1] !== '';
+      if (!isLast) {
+        return;
+      }
+      let max = this.max;
+      if (lineNumber + 1 === blankLines) {
+        max = this.maxStart;
+      } else if (lineNumber === lines.length - 1) {
+        max = this.maxEnd;
+      }
+      if (blankLines > max) {
+        diagnostics.push(
+          createDiagnostic(
+            Range.create(lineNumber, 0, lineNumber, 0),
+            l10n.t('Too many blank lines ({0} > {1})', blankLines, max),
+            'emptyLines'
+          )
+        );
+      }
+    });
+    return diagnostics;
+  }
+}
+
+export class DocumentStartValidator implements AdditionalValidator {
+  private present: boolean;
+
+  constructor(options: RuleOptions) {
+    this.present = getOption(options, 'present', true);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const internalDocument = yamlDoc.internalDocument;
+    const hasStart = !!internalDocument.directives?.docStart;
+    if (this.present && !hasStart && internalDocument.contents) {
+      const start = document.positionAt((internalDocument.contents as Node).range?.[0] ?? internalDocument.range[0]);
+      return [createDiagnostic(Range.create(start, start), l10n.t('Missing document start "---"'), 'documentStart')];
+    }
+    if (!this.present && hasStart) {
+      const start = internalDocument.range[0];
+      return [
+        createDiagnostic(
+          Range.create(document.positionAt(start), document.positionAt(start + 3)),
+          l10n.t('Found forbidden document start "---"'),
+          'documentStart'
+        ),
+      ];
+    }
+    return [];
+  }
+}
+
+export class DocumentEndValidator implements AdditionalValidator {
+  private present: boolean;
+
+  constructor(options: RuleOptions) {
+    this.present = getOption(options, 'present', true);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const internalDocument = yamlDoc.internalDocument;
+    const hasEnd = !!internalDocument.directives?.docEnd;
+    const [, valueEnd, end] = internalDocument.range;
+    if (this.present && !hasEnd && (internalDocument.contents || internalDocument.directives?.docStart)) {
+      const position = document.positionAt(valueEnd);
+      return [createDiagnostic(Range.create(position, position), l10n.t('Missing document end "..."'), 'documentEnd')];
+    }
+    if (!this.present && hasEnd) {
+      const match = /^\.\.\.(?=\s|$)/m.exec(document.getText().slice(valueEnd, end));
+      const start = valueEnd + (match?.index ?? 0);
+      return [
+        createDiagnostic(
+          Range.create(document.positionAt(start), document.positionAt(start + 3)),
+          l10n.t('Found forbidden document end "..."'),
+          'documentEnd'
+        ),
+      ];
+    }
+    return [];
+  }
+}
+
+export class TruthyValidator implements AdditionalValidator {
+  private allowedValues: string[];
+  private checkKeys: boolean;
+
+  constructor(options: RuleOptions) {
+    this.allowedValues = getOption(options, 'allowed-values', ['true', 'false']);
+    this.checkKeys = getOption(options, 'check-keys', true);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    visit(yamlDoc.internalDocument, (key, node) => {
+      if (!isPlainScalar(node) || (key === 'key' && !this.checkKeys)) {
+        return;
+      }
+      const source = getSource(document, node);
+      if (TRUTHY_VALUES.includes(source) && !this.allowedValues.includes(source)) {
+        diagnostics.push(
+          createDiagnostic(
+            getRange(document, node),
+            l10n.t('Truthy value should be one of [{0}]', this.allowedValues.join(', ')),
+            'truthy'
+          )
+        );
+      }
+    });
+    return diagnostics;
+  }
+}
+
+export class CommentsValidator implements AdditionalValidator {
+  private requireStartingSpace: boolean;
+  private ignoreShebangs: boolean;
+  private minSpacesFromContent: number;
+
+  constructor(options: RuleOptions) {
+    this.requireStartingSpace = getOption(options, 'require-starting-space', true);
+    this.ignoreShebangs = getOption(options, 'ignore-shebangs', true);
+    this.minSpacesFromContent = getOption(options, 'min-spaces-from-content', 2);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument, documents?: SingleYAMLDocument[]): Diagnostic[] {
+    if (!isFirstDocument(yamlDoc, documents)) {
+      return [];
+    }
+    const text = document.getText();
+    const diagnostics: Diagnostic[] = [];
+    for (const comment of getComments(text)) {
+      const start = document.positionAt(comment.offset);
+      const range = Range.create(start, document.positionAt(comment.offset + comment.source.length));
+      const isShebang = comment.offset === 0 && comment.source.startsWith('#!');
+      const afterHashes = comment.source.replace(/^#+/, '');
+      if (this.requireStartingSpace && !/^(\s|$)/.test(afterHashes) && !(this.ignoreShebangs && isShebang)) {
+        diagnostics.push(createDiagnostic(range, l10n.t('Missing starting space in comment'), 'comments'));
+      }
+      const before = text.slice(comment.offset - start.character, comment.offset);
+      const spaces = before.length - before.trimEnd().length;
+      if (before.trim() !== '' && spaces < this.minSpacesFromContent) {
+        diagnostics.push(createDiagnostic(range, l10n.t('Too few spaces before comment'), 'comments'));
+      }
+    }
+    return diagnostics;
+  }
+}
+
+export class IndentationValidator implements AdditionalValidator {
+  private spaces: number | 'consistent';
+  private indentSequences: boolean | 'whatever' | 'consistent';
+
+  constructor(options: RuleOptions) {
+    this.spaces = typeof options.spaces === 'number' && options.spaces > 0 ? options.spaces : 'consistent';
+    const indentSequences = options['indent-sequences'];
+    this.indentSequences =
+      typeof indentSequences === 'boolean' || indentSequences === 'whatever' || indentSequences === 'consistent'
+        ? indentSequences
+        : true;
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const spaces = this.spaces === 'consistent' ? guessIndentation(new TextBuffer(document), 2, true).tabSize : this.spaces;
+    let indentedSequences = this.indentSequences === 'consistent' ? undefined : this.indentSequences;
+    const lines = getLines(document);
+    const diagnostics: Diagnostic[] = [];
+    visit(yamlDoc.internalDocument, (key, node, path) => {
+      if (!(isMap(node) || isSeq(node)) || node.flow || !node.range) {
+        return;
+      }
+      const parent = path[path.length - 1];
+      const parentCollection = isPair(parent) ? path[path.length - 2] : parent;
+      if (
+        (isPair(parent) && key !== 'value') ||
+        !(isMap(parentCollection) || isSeq(parentCollection)) ||
+        !parentCollection.range
+      ) {
+        return;
+      }
+      const start = document.positionAt(node.range[0]);
+      const indentation = /^[ \t]*/.exec(lines[start.line])[0];
+      // the collections starting on the line of their parent item, such as the mapping of `- a: 1`
+      if (indentation.length !== start.character || indentation.includes('\t')) {
+        return;
+      }
+      const indent = start.character - document.positionAt(parentCollection.range[0]).character;
+      let expected = [spaces];
+      if (isSeq(node) && isPair(parent)) {
+        if (indentedSequences === undefined) {
+          indentedSequences = indent !== 0;
+        }
+        expected = indentedSequences === 'whatever' ? [0, spaces] : [indentedSequences ? spaces : 0];
+      }
+      if (!expected.includes(indent)) {
+        diagnostics.push(
+          createDiagnostic(
+            Range.create(start.line, 0, start.line, start.character),
+            l10n.t('Wrong indentation: expected {0} but found {1}', expected[expected.length - 1], indent),
+            'indentation'
+          )
+        );
+      }
+    });
+    return diagnostics;
+  }
+}
+
+export class OctalValuesValidator implements AdditionalValidator {
+  private forbidImplicitOctal: boolean;
+  private forbidExplicitOctal: boolean;
+
+  constructor(options: RuleOptions) {
+    this.forbidImplicitOctal = getOption(options, 'forbid-implicit-octal', true);
+    this.forbidExplicitOctal = getOption(options, 'forbid-explicit-octal', true);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    visit(yamlDoc.internalDocument, (key, node) => {
+      if (!isPlainScalar(node)) {
+        return;
+      }
+      const source = getSource(document, node);
+      if (this.forbidImplicitOctal && /^0[0-7]+$/.test(source)) {
+        diagnostics.push(
+          createDiagnostic(getRange(document, node), l10n.t('Forbidden implicit octal value "{0}"', source), 'octalValues')
+        );
+      } else if (this.forbidExplicitOctal && /^0o[0-7]+$/.test(source)) {
+        diagnostics.push(
+          createDiagnostic(getRange(document, node), l10n.t('Forbidden explicit octal value "{0}"', source), 'octalValues')
+        );
+      }
+    });
+    return diagnostics;
+  }
+}
+
+export class QuotedStringsValidator implements AdditionalValidator {
+  private quoteType: 'any' | 'single' | 'double';
+  private required: boolean | 'only-when-needed';
+  private extraRequired: RegExp[];
+  private extraAllowed: RegExp[];
+  private allowQuotedQuotes: boolean;
+  private checkKeys: boolean;
+
+  constructor(options: RuleOptions) {
+    const quoteType = options['quote-type'];
+    this.quoteType = quoteType === 'single' || quoteType === 'double' ? quoteType : 'any';
+    const required = options.required;
+    this.required = typeof required === 'boolean' || required === 'only-when-needed' ? required : true;
+    this.extraRequired = getPatterns(options, 'extra-required');
+    this.extraAllowed = getPatterns(options, 'extra-allowed');
+    this.allowQuotedQuotes = getOption(options, 'allow-quoted-quotes', false);
+    this.checkKeys = getOption(options, 'check-keys', false);
+  }
+
+  validate(document: TextDocument, yamlDoc: SingleYAMLDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    visit(yamlDoc.internalDocument, (key, node) => {
+      if (!isScalar(node) || typeof node.value !== 'string' || node.tag || !node.range || (key === 'key' && !this.checkKeys)) {
+        return;
+      }
+      const message = this.getMessage(node as Scalar<string>, getSource(document, node));
+      if (message) {
+        diagnostics.push(createDiagnostic(getRange(document, node), message, 'quotedStrings'));
+      }
+    });
+    return diagnostics;
+  }
+
+  private getMessage(node: Scalar<string>, source: string): string | undefined {
+    const value = node.value;
+    if (node.type === Scalar.PLAIN) {
+      if (TRUTHY_VALUES.includes(source)) {
+        return undefined;
+      }
+      const isRequired =
+        this.required === true
+          ? !this.extraAllowed.some((pattern) => pattern.test(value))
+          : this.extraRequired.some((pattern) => pattern.test(value));
+      if (!isRequired) {
+        return undefined;
+      }
+      return this.quoteType === 'any'
+        ? l10n.t('String value is not quoted')
+        : l10n.t('String value is not quoted with {0} quotes', this.quoteType);
+    }
+    if (node.type !== Scalar.QUOTE_SINGLE && node.type !== Scalar.QUOTE_DOUBLE) {
+      return undefined;
+    }
+    const quoteType = node.type === Scalar.QUOTE_SINGLE ? 'single' : 'double';
+    const otherQuote = quoteType === 'single' ? '"' : "'";
+    if (this.quoteType !== 'any' && this.quoteType !== quoteType && !(this.allowQuotedQuotes && value.includes(otherQuote))) {
+      return l10n.t('String value is not quoted with {0} quotes', this.quoteType);
+    }
+    if (
+      this.required === 'only-when-needed' &&
+      isPlainString(value) &&
+      !this.extraRequired.some((pattern) => pattern.test(value))
+    ) {
+      return l10n.t('String value is redundantly quoted with {0} quotes', this.quoteType === 'any' ? quoteType : this.quoteType);
+    }
+    return undefined;
+  }
+}
+
+function getOption<T>(options: RuleOptions, name: string, defaultValue: T): T {
+  const value = options[name];
+  if (Array.isArray(defaultValue)) {
+    return (Array.isArray(value) ? value.map(String) : defaultValue) as T;
+  }
+  return typeof value === typeof defaultValue ? (value as T) : defaultValue;
+}
+
+function getPatterns(options: RuleOptions, name: string): RegExp[] {
+  return getOption<string[]>(options, name, []).flatMap((pattern) => {
+    try {
+      return [new RegExp(pattern)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function isFirstDocument(yamlDoc: SingleYAMLDocument, documents: SingleYAMLDocument[] | undefined): boolean {
+  return !documents || documents[0] === yamlDoc;
+}
+
+function getLines(document: TextDocument): string[] {
+  return document.getText().split(/\r?\n/);
+}
+
+function isPlainScalar(node: unknown): node is Scalar {
+  return isScalar(node) && node.type === Scalar.PLAIN && !node.tag && !!node.range;
+}
+
+function getSource(document: TextDocument, node: Scalar): string {
+  return document.getText().slice(node.range[0], node.range[1]);
+}
+
+function getRange(document: TextDocument, node: Scalar): Range {
+  return Range.create(document.positionAt(node.range[0]), document.positionAt(node.range[1]));
+}
+
+/**
+ * Whether a string reads the same without quotes
+ */
+function isPlainString(value: string): boolean {
+  if (value === '' || value !== value.trim() || /[\n\r\t\\]/.test(value) || TRUTHY_VALUES.includes(value)) {
+    return false;
+  }
+  const document = parseDocument(value);
+  return document.errors.length === 0 && isScalar(document.contents) && document.contents.value === value;
+}
+
+/**
+ * @returns the comments of the text, from its concrete syntax tree
+ */
+function getComments(text: string): CST.SourceToken[] {
+  const comments: CST.SourceToken[] = [];
+  const collect = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      const token = value as CST.SourceToken;
+      if (token.type === 'comment' && typeof token.offset === 'number') {
+        comments.push(token);
+        return;
+      }
+      Object.values(value).forEach(collect);
+    }
+  };
+  for (const token of new Parser().parse(text)) {
+    collect(token);
+  }
+  return comments;
+}
+
+function createDiagnostic(range: Range, message: string, code: string): Diagnostic {
+  return Diagnostic.create(range, message, DiagnosticSeverity.Warning, code);
+}
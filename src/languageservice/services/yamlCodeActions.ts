@@ -5,7 +5,7 @@
 
 import * as l10n from '@vscode/l10n';
 import * as path from 'path';
-import { ErrorCode } from '../jsonLanguageTypes';
+import { SchemaProblemCode } from '../jsonLanguageTypes';
 import type { Diagnostic, WorkspaceEdit } from 'vscode-languageserver-types';
 import { CodeAction, CodeActionKind, Command, Position, Range, TextEdit } from 'vscode-languageserver-types';
 import type { ClientCapabilities, CodeActionParams } from 'vscode-languageserver-protocol';
@@ -17,6 +17,7 @@ import { CST, isMap, isSeq, isScalar, visit } from 'yaml';
 import { YamlCommands } from '../../commands';
 import { TextBuffer } from '../utils/textBuffer';
 import { toYamlStringScalar } from '../utils/yamlScalar';
+import { CODE_SPECIFIER_PREFIX, parseDisableSpecifiers, YAML_DISABLE_PATTERN } from '../utils/diagnostic-filter';
 import type { LanguageSettings } from '../yamlLanguageService';
 import { YAML_SOURCE } from '../parser/schemaValidation/baseValidator';
 import { getFirstNonWhitespaceCharacterAfterOffset } from '../utils/strings';
@@ -25,22 +26,36 @@ import { yamlDocumentsCache } from '../parser/yaml-documents';
 
 import { BlockStringRewriter } from '../utils/block-string-rewriter';
 import { FlowStyleRewriter } from '../utils/flow-style-rewriter';
+import { KUBERNETES_DEPRECATED_API_CODE } from './validation/kubernetes-deprecations';
+import type { YamlCompletion } from './yamlCompletion';
 
-import type { ASTNode } from '../jsonLanguageTypes';
+import type { ASTNode, ObjectASTNode } from '../jsonLanguageTypes';
 
 interface YamlDiagnosticData {
   schemaUri: string[];
   values?: string[];
   properties?: string[];
+  missingProperty?: string;
+  replacement?: string;
+}
+
+interface AddMissingPropertiesData {
+  uri: string;
+  missingProperties: string[];
 }
 export class YamlCodeActions {
   private indentation = '  ';
   private lineWidth = 80;
+  private suppressionCodeActions = false;
 
-  constructor(private readonly clientCapabilities: ClientCapabilities) {}
+  constructor(
+    private readonly clientCapabilities: ClientCapabilities,
+    private readonly completer?: YamlCompletion
+  ) {}
 
   configure(settings: LanguageSettings, printWidth: number): void {
     this.indentation = settings.indentation;
+    this.suppressionCodeActions = settings.suppressionCodeActions;
     this.lineWidth = printWidth;
   }
 
@@ -59,10 +74,33 @@ export class YamlCodeActions {
     result.push(...this.getConvertStringToBlockStyleActions(params.range, document));
     result.push(...this.getKeyOrderActions(params.context.diagnostics, document));
     result.push(...this.getQuickFixForPropertyOrValueMismatch(params.context.diagnostics, document));
+    result.push(...this.getAddMissingPropertiesActions(params.context.diagnostics, document));
+    result.push(...this.getReplaceApiVersionActions(params.context.diagnostics, document));
+    if (this.suppressionCodeActions) {
+      result.push(...this.getSuppressDiagnosticActions(params.context.diagnostics, document));
+    }
 
     return result;
   }
 
+  /**
+   * The code actions of {@link getCodeAction}, with their edits computed right away when the client cannot resolve them
+   */
+  async getResolvedCodeAction(document: TextDocument, params: CodeActionParams): Promise<CodeAction[] | undefined> {
+    const actions = this.getCodeAction(document, params);
+    if (!actions || this.isResolveEditSupported()) {
+      return actions;
+    }
+    const resolved = await Promise.all(
+      actions.map((action) => (action.edit ? action : this.resolveCodeAction(document, action)))
+    );
+    return resolved.filter((action) => action.edit || action.command);
+  }
+
+  private isResolveEditSupported(): boolean {
+    return this.clientCapabilities?.textDocument?.codeAction?.resolveSupport?.properties?.includes('edit') ?? false;
+  }
+
   private getJumpToSchemaActions(diagnostics: Diagnostic[]): CodeAction[] {
     const isOpenTextDocumentEnabled = this.clientCapabilities?.window?.showDocument?.support ?? false;
     if (!isOpenTextDocumentEnabled) {
@@ -294,6 +332,23 @@ export class YamlCodeActions {
     return results;
   }
 
+  private getReplaceApiVersionActions(diagnostics: Diagnostic[], document: TextDocument): CodeAction[] {
+    const results: CodeAction[] = [];
+    for (const diagnostic of diagnostics) {
+      const replacement = (diagnostic.data as YamlDiagnosticData)?.replacement;
+      if (diagnostic.code === KUBERNETES_DEPRECATED_API_CODE && replacement) {
+        const action = CodeAction.create(
+          l10n.t('Change apiVersion to {0}', replacement),
+          createWorkspaceEdit(document.uri, [TextEdit.replace(diagnostic.range, replacement)]),
+          CodeActionKind.QuickFix
+        );
+        action.diagnostics = [diagnostic];
+        results.push(action);
+      }
+    }
+    return results;
+  }
+
   private getKeyOrderActions(diagnostics: Diagnostic[], document: TextDocument): CodeAction[] {
     const results: CodeAction[] = [];
     for (const diagnostic of diagnostics) {
@@ -386,13 +441,13 @@ export class YamlCodeActions {
       return;
     }
     if (
-      diagnostic.code === ErrorCode.EnumValueMismatch &&
+      (diagnostic.code === SchemaProblemCode.Enum || diagnostic.code === SchemaProblemCode.Const) &&
       'values' in diagnostic.data &&
       Array.isArray((diagnostic.data as YamlDiagnosticData).values)
     ) {
       return (diagnostic.data as YamlDiagnosticData).values;
     } else if (
-      diagnostic.code === ErrorCode.PropertyExpected &&
+      diagnostic.code === SchemaProblemCode.PropertyNotAllowed &&
       'properties' in diagnostic.data &&
       Array.isArray((diagnostic.data as YamlDiagnosticData).properties)
     ) {
@@ -420,6 +475,152 @@ export class YamlCodeActions {
     }
     return results;
   }
+
+  /**
+   * Insert all the required properties missing from a mapping, the edit is computed from its schema when the action is resolved
+   */
+  private getAddMissingPropertiesActions(diagnostics: Diagnostic[], document: TextDocument): CodeAction[] {
+    if (!this.completer) {
+      return [];
+    }
+    const missingByObject = new Map<ObjectASTNode, Diagnostic[]>();
+    for (const diagnostic of diagnostics) {
+      if (typeof (diagnostic.data as YamlDiagnosticData)?.missingProperty !== 'string') {
+        continue;
+      }
+      const object = getObjectForMissingProperty(document, diagnostic);
+      if (object && isMap(object.internalNode) && object.internalNode.srcToken?.type === 'block-map') {
+        missingByObject.set(object, [...(missingByObject.get(object) ?? []), diagnostic]);
+      }
+    }
+
+    const results: CodeAction[] = [];
+    for (const objectDiagnostics of missingByObject.values()) {
+      const missingProperties = [
+        ...new Set(objectDiagnostics.map((diagnostic) => (diagnostic.data as YamlDiagnosticData).missingProperty)),
+      ];
+      const action = CodeAction.create(
+        l10n.t('Add missing properties: {0}', missingProperties.join(', ')),
+        CodeActionKind.QuickFix
+      );
+      action.diagnostics = objectDiagnostics;
+      const data: AddMissingPropertiesData = { uri: document.uri, missingProperties };
+      action.data = data;
+      results.push(action);
+    }
+    return results;
+  }
+
+  /**
+   * Compute the edit of an action inserting missing properties, with the values a completion of their schema inserts
+   */
+  async resolveCodeAction(document: TextDocument, action: CodeAction): Promise<CodeAction> {
+    const data = action.data as AddMissingPropertiesData;
+    if (!this.completer || !Array.isArray(data?.missingProperties) || !action.diagnostics?.length) {
+      return action;
+    }
+    const object = getObjectForMissingProperty(document, action.diagnostics[0]);
+    if (!object?.properties.length) {
+      return action;
+    }
+    const text = await this.completer.getInsertTextForProperties(document, object.offset, data.missingProperties);
+    if (!text) {
+      return action;
+    }
+    const indent = ' '.repeat(document.positionAt(object.properties[0].offset).character);
+    const insertText = text
+      .split('\n')
+      .map((line) => `${indent}${line}`)
+      .join('\n');
+
+    // the range of a block mapping includes its trailing line break but not a comment after its last value
+    const documentText = document.getText();
+    let end = object.offset + object.length;
+    while (end > object.offset && /\s/.test(documentText[end - 1])) {
+      end--;
+    }
+    const endLine = document.positionAt(end).line;
+    const position = Position.create(endLine, new TextBuffer(document).getLineContent(endLine).trimEnd().length);
+    action.edit = createWorkspaceEdit(document.uri, [TextEdit.insert(position, `\n${insertText}`)]);
+    return action;
+  }
+
+  /**
+   * Suppress a diagnostic with a comment on the line before it, added to the specifiers of an existing comment,
+   * or with a `# yaml-language-server-disable-file` comment at the top of the file
+   */
+  private getSuppressDiagnosticActions(diagnostics: Diagnostic[], document: TextDocument): CodeAction[] {
+    const results: CodeAction[] = [];
+    const textBuffer = new TextBuffer(document);
+    const processed = new Set<string>();
+    for (const diagnostic of diagnostics) {
+      const specifier = getSuppressionSpecifier(diagnostic);
+      const line = diagnostic.range.start.line;
+      if (!specifier || processed.has(`${line} ${specifier}`)) {
+        continue;
+      }
+      processed.add(`${line} ${specifier}`);
+
+      const previousLine = line > 0 ? textBuffer.getLineContent(line - 1).trimEnd() : '';
+      const previousMatch = YAML_DISABLE_PATTERN.exec(previousLine);
+      const lineEdit =
+        previousMatch && parseDisableSpecifiers(previousMatch[1]).length > 0
+          ? TextEdit.insert(Position.create(line - 1, previousLine.length), `, ${specifier}`)
+          : TextEdit.insert(
+              Position.create(line, 0),
+              `${textBuffer.getLineContent(line).match(/^[ \t]*/)[0]}# yaml-language-server-disable ${specifier}\n`
+            );
+      const lineAction = CodeAction.create(
+        l10n.t('Suppress "{0}" on this line', specifier),
+        createWorkspaceEdit(document.uri, [lineEdit]),
+        CodeActionKind.QuickFix
+      );
+      lineAction.diagnostics = [diagnostic];
+      results.push(lineAction);
+
+      const fileAction = CodeAction.create(
+        l10n.t('Suppress "{0}" in this file', specifier),
+        createWorkspaceEdit(document.uri, [
+          TextEdit.insert(Position.create(0, 0), `# yaml-language-server-disable-file ${specifier}\n`),
+        ]),
+        CodeActionKind.QuickFix
+      );
+      fileAction.diagnostics = [diagnostic];
+      results.push(fileAction);
+    }
+    return results;
+  }
+}
+
+/**
+ * The code of a diagnostic when it is a string, else its whole message, unless it contains the separator of the specifiers
+ */
+function getSuppressionSpecifier(diagnostic: Diagnostic): string | undefined {
+  if (typeof diagnostic.code === 'string' && diagnostic.code) {
+    return `${CODE_SPECIFIER_PREFIX}${diagnostic.code}`;
+  }
+  const message = diagnostic.message.trim();
+  return /[,\r\n]/.test(message) ? undefined : message;
+}
+
+/**
+ * The missing properties of an object are reported on the key of its parent property, or at the start of the object
+ */
+function getObjectForMissingProperty(document: TextDocument, diagnostic: Diagnostic): ObjectASTNode | undefined {
+  let node = getNodeForDiagnostic(document, diagnostic);
+  const parent = node?.parent;
+  if (
+    parent?.type === 'property' &&
+    parent.keyNode === node &&
+    parent.valueNode?.type === 'object' &&
+    document.offsetAt(diagnostic.range.end) === node.offset + node.length
+  ) {
+    return parent.valueNode;
+  }
+  while (node && node.type !== 'object') {
+    node = node.parent;
+  }
+  return node?.type === 'object' ? node : undefined;
 }
 
 function getNodeForDiagnostic(document: TextDocument, diagnostic: Diagnostic): ASTNode {
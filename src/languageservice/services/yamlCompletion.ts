@@ -107,13 +107,7 @@ export class YamlCompletion {
     }
     const doc = this.yamlDocument.getYamlDocument(document, { customTags: this.customTags, yamlVersion: this.yamlVersion }, true);
     const textBuffer = new TextBuffer(document);
-
-    if (!this.configuredIndentation) {
-      const indent = guessIndentation(textBuffer, 2, true);
-      this.indentation = indent.insertSpaces ? ' '.repeat(indent.tabSize) : '\t';
-    } else {
-      this.indentation = this.configuredIndentation;
-    }
+    this.updateIndentation(textBuffer);
 
     setKubernetesParserOption(doc.documents, isKubernetes);
 
@@ -1144,6 +1138,60 @@ export class YamlCompletion {
     return resultText + value + separatorAfter;
   }
 
+  /**
+   * Get the text of the given properties of the object starting at the offset, with the values a completion of the object
+   * inserts for them in its matching schemas, and without the snippet placeholders
+   */
+  async getInsertTextForProperties(document: TextDocument, offset: number, properties: string[]): Promise<string | undefined> {
+    try {
+      const doc = this.yamlDocument.getYamlDocument(
+        document,
+        { customTags: this.customTags, yamlVersion: this.yamlVersion },
+        true
+      );
+      const currentDoc = matchOffsetToDocument(offset, doc);
+      let node = currentDoc?.getNodeFromOffset(offset);
+      while (node && !(node.type === 'object' && node.offset === offset)) {
+        node = node.parent;
+      }
+      const schema = node && (await this.schemaService.getSchemaForResource(document.uri, currentDoc));
+      if (!schema?.schema) {
+        return;
+      }
+      this.updateIndentation(new TextBuffer(document));
+      const matchingSchemas = currentDoc
+        .getMatchingSchemas(schema.schema, offset)
+        .filter((matchingSchema) => matchingSchema.node === node && !matchingSchema.inverted);
+      return properties
+        .map((property) => {
+          const propertySchema = matchingSchemas.find((matchingSchema) => matchingSchema.schema.properties?.[property])?.schema
+            .properties[property];
+          const { insertText } = this.getInsertTextForObject(
+            { properties: { [property]: asSchema(propertySchema) ?? {} }, required: [property] },
+            '',
+            ''
+          );
+          return insertText.startsWith(`${property}:`) ? removeSnippetPlaceholders(insertText) : `${property}:`;
+        })
+        .join('\n')
+        .split('\n')
+        .map((line) => line.trimEnd())
+        .filter((line) => line.trim())
+        .join('\n');
+    } catch (err) {
+      this.telemetry?.sendError('yaml.completion.error', err);
+    }
+  }
+
+  private updateIndentation(textBuffer: TextBuffer): void {
+    if (!this.configuredIndentation) {
+      const indent = guessIndentation(textBuffer, 2, true);
+      this.indentation = indent.insertSpaces ? ' '.repeat(indent.tabSize) : '\t';
+    } else {
+      this.indentation = this.configuredIndentation;
+    }
+  }
+
   private getInsertTextForObject(
     schema: JSONSchema,
     separatorAfter: string,
@@ -1788,3 +1836,12 @@ export class YamlCompletion {
     return 'parent' in item;
   }
 }
+
+/**
+ * Replace the placeholders of a snippet with their default value and unescape its text
+ */
+function removeSnippetPlaceholders(snippet: string): string {
+  return snippet.replace(/\$\{\d+:((?:\\.|[^\\}])*)\}|\$\{?\d+\}?|\\([$}\\])/g, (match, value?: string, escaped?: string) =>
+    value !== undefined ? value.replace(/\\([$}\\])/g, '$1') : (escaped ?? '')
+  );
+}
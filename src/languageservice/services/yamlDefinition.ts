@@ -8,21 +8,40 @@ import type { TextDocument } from 'vscode-languageserver-textdocument';
 import type { DefinitionLink } from 'vscode-languageserver-types';
 import { LocationLink, Range } from 'vscode-languageserver-types';
 import { isAlias } from 'yaml';
+import type { ASTNode } from '../jsonLanguageTypes';
 import type { Telemetry } from '../telemetry';
 import { yamlDocumentsCache } from '../parser/yaml-documents';
+import type { SingleYAMLDocument } from '../parser/yamlParser07';
 import { matchOffsetToDocument } from '../utils/arrUtils';
+import { toIncludeReference } from '../utils/includeUtils';
 import { TextBuffer } from '../utils/textBuffer';
+import type { YAMLSchemaService } from './yamlSchemaService';
+import {
+  findReferencedResources,
+  findSelectedPodTemplates,
+  getKubernetesReferences,
+  getServiceSelector,
+  indexKubernetesResources,
+} from './k8sReferences';
 
 export class YamlDefinition {
-  constructor(private readonly telemetry?: Telemetry) {}
+  constructor(
+    private readonly telemetry?: Telemetry,
+    private readonly schemaService?: YAMLSchemaService
+  ) {}
 
-  getDefinition(document: TextDocument, params: DefinitionParams): DefinitionLink[] | undefined {
+  getDefinition(document: TextDocument, params: DefinitionParams, isKubernetes = false): DefinitionLink[] | undefined {
     try {
       const yamlDocument = yamlDocumentsCache.getYamlDocument(document);
       const offset = document.offsetAt(params.position);
       const currentDoc = matchOffsetToDocument(offset, yamlDocument);
       if (currentDoc) {
         const [node] = currentDoc.getNodeFromPosition(offset, new TextBuffer(document));
+        const include = toIncludeReference(document, node);
+        if (include) {
+          const fileStart = Range.create(0, 0, 0, 0);
+          return [LocationLink.create(include.uri, fileStart, fileStart, include.range)];
+        }
         if (node && isAlias(node)) {
           const defNode = node.resolve(currentDoc.internalDocument);
           if (defNode && defNode.range) {
@@ -30,6 +49,8 @@ export class YamlDefinition {
             const selectionRange = Range.create(document.positionAt(defNode.range[0]), document.positionAt(defNode.range[1]));
             return [LocationLink.create(document.uri, targetRange, selectionRange)];
           }
+        } else if (isKubernetes || currentDoc.isKubernetes) {
+          return this.getKubernetesDefinition(document, offset, currentDoc, yamlDocument.documents);
         }
       }
     } catch (err) {
@@ -38,4 +59,112 @@ export class YamlDefinition {
 
     return undefined;
   }
+
+  /**
+   * Find the subschema describing the key or value at the given position, in the schema file it comes from.
+   */
+  async getSchemaDefinition(document: TextDocument, params: DefinitionParams): Promise<DefinitionLink[] | undefined> {
+    if (!this.schemaService) {
+      return undefined;
+    }
+    try {
+      const yamlDocument = yamlDocumentsCache.getYamlDocument(document);
+      const offset = document.offsetAt(params.position);
+      const currentDoc = matchOffsetToDocument(offset, yamlDocument);
+      if (currentDoc) {
+        return await this.findSchemaDefinition(document, offset, currentDoc);
+      }
+    } catch (err) {
+      this.telemetry?.sendError('yaml.definition.error', err);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find the documents of the file defining the Kubernetes resource referenced at the given offset,
+   * or the pod templates matching the Service selector holding it.
+   */
+  private getKubernetesDefinition(
+    document: TextDocument,
+    offset: number,
+    doc: SingleYAMLDocument,
+    documents: SingleYAMLDocument[]
+  ): DefinitionLink[] | undefined {
+    const node = doc.getNodeFromOffset(offset);
+    if (!node) {
+      return undefined;
+    }
+    const toRange = (astNode: ASTNode): Range =>
+      Range.create(document.positionAt(astNode.offset), document.positionAt(astNode.offset + astNode.length));
+
+    const reference = getKubernetesReferences(doc).find((reference) => reference.node === node);
+    if (reference) {
+      const resources = findReferencedResources(indexKubernetesResources(documents), doc, reference);
+      return resources.length
+        ? resources.map((resource) =>
+            LocationLink.create(document.uri, toRange(resource.document.root), toRange(resource.nameNode), toRange(node))
+          )
+        : undefined;
+    }
+
+    const selector = getServiceSelector(doc);
+    if (
+      selector &&
+      node.offset >= selector.node.offset &&
+      node.offset + node.length <= selector.node.offset + selector.node.length
+    ) {
+      const podTemplates = findSelectedPodTemplates(indexKubernetesResources(documents), doc, selector);
+      return podTemplates.length
+        ? podTemplates.map((podTemplate) =>
+            LocationLink.create(
+              document.uri,
+              toRange(podTemplate.document.root),
+              toRange(podTemplate.labelsNode),
+              toRange(selector.node)
+            )
+          )
+        : undefined;
+    }
+    return undefined;
+  }
+
+  private async findSchemaDefinition(
+    document: TextDocument,
+    offset: number,
+    doc: SingleYAMLDocument
+  ): Promise<DefinitionLink[] | undefined> {
+    let node = doc.getNodeFromOffset(offset);
+    if (!node || node.type === 'object' || node.type === 'array') {
+      return undefined;
+    }
+    const originNode = node;
+    // use the property schema for an object key
+    if (node.type === 'string' && node.parent?.type === 'property' && node.parent.keyNode === node) {
+      node = node.parent.valueNode;
+      if (!node) {
+        return undefined;
+      }
+    }
+
+    const schema = await this.schemaService.getSchemaForResource(document.uri, doc);
+    if (!schema || schema.errors.length) {
+      return undefined;
+    }
+    const matchingSchemas = doc.getMatchingSchemas(schema.schema, node.offset);
+    for (const matchingSchema of matchingSchemas) {
+      if (matchingSchema.node !== node || matchingSchema.inverted || !matchingSchema.schema) {
+        continue;
+      }
+      const source = await this.schemaService.getSchemaSourceRange(matchingSchema.schema);
+      if (source) {
+        const originSelectionRange = Range.create(
+          document.positionAt(originNode.offset),
+          document.positionAt(originNode.offset + originNode.length)
+        );
+        return [LocationLink.create(source.uri, source.range, source.selectionRange, originSelectionRange)];
+      }
+    }
+    return undefined;
+  }
 }
@@ -4,14 +4,14 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import type { FormattingOptions } from 'vscode-languageserver-types';
-import { Range, Position, TextEdit } from 'vscode-languageserver-types';
+import type { FormattingOptions, Range, TextEdit } from 'vscode-languageserver-types';
 import type { CustomFormatterOptions, LanguageSettings } from '../yamlLanguageService';
 import type { Options } from 'prettier';
 import * as yamlPlugin from 'prettier/plugins/yaml';
 import * as estreePlugin from 'prettier/plugins/estree';
 import { format } from 'prettier/standalone';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { computeMinimalEdits } from '../utils/minimalEdits';
 
 export class YAMLFormatter {
   private formatterEnabled = true;
@@ -32,31 +32,71 @@ export class YAMLFormatter {
 
     try {
       const text = document.getText();
+      const formatted = await this.formatText(text, options);
+      if (formatted === text) {
+        return [];
+      }
 
-      const prettierOptions: Options = {
-        parser: 'yaml',
-        plugins: [yamlPlugin, estreePlugin],
-
-        // --- FormattingOptions ---
-        tabWidth: (options.tabWidth as number) || options.tabSize,
+      return computeMinimalEdits(document, formatted);
+    } catch {
+      return [];
+    }
+  }
 
-        // --- CustomFormatterOptions ---
-        singleQuote: options.singleQuote,
-        bracketSpacing: options.bracketSpacing,
-        // 'preserve' is the default for Options.proseWrap. See also server.ts
-        proseWrap: 'always' === options.proseWrap ? 'always' : 'never' === options.proseWrap ? 'never' : 'preserve',
-        printWidth: options.printWidth,
-        trailingComma: options.trailingComma === false ? 'none' : 'all',
-      };
+  /**
+   * Format the given ranges of a document. The whole document is formatted, then only the
+   * edits of the changed lines touching one of the ranges are returned.
+   */
+  public async formatRanges(
+    document: TextDocument,
+    ranges: Range[],
+    options: Partial<FormattingOptions> & CustomFormatterOptions = {}
+  ): Promise<TextEdit[]> {
+    if (!this.formatterEnabled) {
+      return [];
+    }
 
-      const formatted = await format(text, prettierOptions);
+    try {
+      const text = document.getText();
+      const formatted = await this.formatText(text, options);
       if (formatted === text) {
         return [];
       }
 
-      return [TextEdit.replace(Range.create(Position.create(0, 0), document.positionAt(text.length)), formatted)];
+      return computeMinimalEdits(document, formatted).filter((edit) => ranges.some((range) => intersects(edit.range, range)));
     } catch {
       return [];
     }
   }
+
+  private formatText(text: string, options: Partial<FormattingOptions> & CustomFormatterOptions): Promise<string> {
+    const prettierOptions: Options = {
+      parser: 'yaml',
+      plugins: [yamlPlugin, estreePlugin],
+
+      // --- FormattingOptions ---
+      tabWidth: (options.tabWidth as number) || options.tabSize,
+
+      // --- CustomFormatterOptions ---
+      singleQuote: options.singleQuote,
+      bracketSpacing: options.bracketSpacing,
+      // 'preserve' is the default for Options.proseWrap. See also server.ts
+      proseWrap: 'always' === options.proseWrap ? 'always' : 'never' === options.proseWrap ? 'never' : 'preserve',
+      printWidth: options.printWidth,
+      trailingComma: options.trailingComma === false ? 'none' : 'all',
+    };
+
+    return format(text, prettierOptions);
+  }
+}
+
+/**
+ * Whether an edit touches a range. Edits replace whole lines, so the lines of the range are compared,
+ * a range ending at the start of a line does not include that line.
+ */
+function intersects(editRange: Range, range: Range): boolean {
+  const rangeEndLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+  const editEndLine =
+    editRange.end.character === 0 && editRange.end.line > editRange.start.line ? editRange.end.line - 1 : editRange.end.line;
+  return editRange.start.line <= rangeEndLine && editEndLine >= range.start.line;
 }
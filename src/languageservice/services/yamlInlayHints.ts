@@ -0,0 +1,142 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Range } from 'vscode-languageserver-types';
+import { InlayHint, InlayHintKind } from 'vscode-languageserver-types';
+import { isAlias, isScalar, visit } from 'yaml';
+import * as l10n from '@vscode/l10n';
+import type { ObjectASTNode } from '../jsonLanguageTypes';
+import type { JSONSchema } from '../jsonSchema';
+import { yamlDocumentsCache } from '../parser/yaml-documents';
+import type { SingleYAMLDocument, YamlVersion } from '../parser/yamlParser07';
+import type { Telemetry } from '../telemetry';
+import { getCustomTagReturnType } from '../utils/customTags';
+import type { LanguageSettings } from '../yamlLanguageService';
+import type { YAMLSchemaService } from './yamlSchemaService';
+
+const MAX_VALUE_LENGTH = 40;
+
+export class YamlInlayHints {
+  private customTags: string[] = [];
+  private yamlVersion: YamlVersion;
+
+  constructor(
+    private readonly schemaService: YAMLSchemaService,
+    private readonly telemetry?: Telemetry
+  ) {}
+
+  configure(settings: LanguageSettings): void {
+    this.customTags = settings.customTags ?? [];
+    this.yamlVersion = settings.yamlVersion;
+  }
+
+  /**
+   * Compute the inlay hints of the given range:
+   * - the schema defaults of the required properties missing from a mapping, after its last property,
+   * - the value of the scalar an alias resolves to, after the alias,
+   * - the return type declared by the custom tag of a scalar, after the scalar.
+   */
+  async getInlayHints(document: TextDocument, range: Range): Promise<InlayHint[]> {
+    const hints: InlayHint[] = [];
+    try {
+      const yamlDocument = yamlDocumentsCache.getYamlDocument(document, {
+        customTags: this.customTags,
+        yamlVersion: this.yamlVersion,
+      });
+      const startOffset = document.offsetAt(range.start);
+      const endOffset = document.offsetAt(range.end);
+      const addHint = (offset: number, label: string, kind?: InlayHintKind): void => {
+        if (offset >= startOffset && offset <= endOffset) {
+          const hint = InlayHint.create(document.positionAt(offset), label, kind);
+          hint.paddingLeft = true;
+          hints.push(hint);
+        }
+      };
+
+      for (const yamlDoc of yamlDocument.documents) {
+        this.collectNodeHints(document, yamlDoc, addHint);
+        await this.collectDefaultHints(document, yamlDoc, addHint);
+      }
+    } catch (err) {
+      this.telemetry?.sendError('yaml.inlayHint.error', err);
+    }
+    return hints.sort((a, b) => document.offsetAt(a.position) - document.offsetAt(b.position));
+  }
+
+  private collectNodeHints(
+    document: TextDocument,
+    yamlDoc: SingleYAMLDocument,
+    addHint: (offset: number, label: string, kind?: InlayHintKind) => void
+  ): void {
+    visit(yamlDoc.internalDocument, (key, node) => {
+      if (isAlias(node) && node.range) {
+        const resolved = node.resolve(yamlDoc.internalDocument);
+        if (isScalar(resolved) && resolved.range) {
+          addHint(node.range[1], `= ${formatValue(document.getText().substring(resolved.range[0], resolved.range[1]))}`);
+        }
+      } else if (isScalar(node) && node.range) {
+        const returnType = getCustomTagReturnType(node);
+        if (returnType) {
+          addHint(node.range[1], `: ${returnType}`, InlayHintKind.Type);
+        }
+      }
+    });
+  }
+
+  private async collectDefaultHints(
+    document: TextDocument,
+    yamlDoc: SingleYAMLDocument,
+    addHint: (offset: number, label: string, kind?: InlayHintKind) => void
+  ): Promise<void> {
+    const schema = await this.schemaService.getSchemaForResource(document.uri, yamlDoc);
+    if (!schema || schema.errors.length) {
+      return;
+    }
+
+    const text = document.getText();
+    const missingDefaults = new Map<ObjectASTNode, Map<string, unknown>>();
+    for (const matchingSchema of yamlDoc.getMatchingSchemas(schema.schema)) {
+      const node = matchingSchema.node;
+      if (matchingSchema.inverted || node.type !== 'object' || !isObjectSchema(matchingSchema.schema)) {
+        continue;
+      }
+      for (const requiredKey of matchingSchema.schema.required ?? []) {
+        const propertySchema = matchingSchema.schema.properties?.[requiredKey];
+        if (
+          !isObjectSchema(propertySchema) ||
+          propertySchema.default === undefined ||
+          node.properties.some((property) => property.keyNode.value === requiredKey)
+        ) {
+          continue;
+        }
+        const defaults = missingDefaults.get(node) ?? new Map<string, unknown>();
+        if (!defaults.has(requiredKey)) {
+          defaults.set(requiredKey, propertySchema.default);
+        }
+        missingDefaults.set(node, defaults);
+      }
+    }
+
+    for (const [node, defaults] of missingDefaults) {
+      const values = Array.from(defaults, ([key, value]) => `${key}: ${formatValue(JSON.stringify(value))}`);
+      // the range of a block mapping includes its trailing line break
+      let end = node.offset + node.length;
+      while (end > node.offset && /\s/.test(text[end - 1])) {
+        end--;
+      }
+      addHint(end, l10n.t('defaults: {0}', values.join(', ')));
+    }
+  }
+}
+
+function isObjectSchema(schema: JSONSchema | boolean | undefined): schema is JSONSchema {
+  return !!schema && typeof schema === 'object';
+}
+
+function formatValue(text: string): string {
+  const firstLine = text.split(/\r?\n/)[0];
+  return firstLine.length > MAX_VALUE_LENGTH || firstLine !== text ? `${firstLine.substring(0, MAX_VALUE_LENGTH)}…` : text;
+}
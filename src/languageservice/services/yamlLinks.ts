@@ -10,6 +10,8 @@ import type { Telemetry } from '../telemetry';
 import { yamlDocumentsCache } from '../parser/yaml-documents';
 import type { ASTNode, PropertyASTNode } from '../jsonLanguageTypes';
 import type { JSONDocument } from '../parser/jsonDocument';
+import type { SingleYAMLDocument } from '../parser/yamlParser07';
+import { findIncludes } from '../utils/includeUtils';
 
 export class YamlLinks {
   constructor(private readonly telemetry?: Telemetry) {}
@@ -21,6 +23,7 @@ export class YamlLinks {
       const linkPromises = [];
       for (const yamlDoc of doc.documents) {
         linkPromises.push(findDocumentLinks(document, yamlDoc));
+        linkPromises.push(Promise.resolve(findIncludeLinks(document, yamlDoc)));
       }
       // Wait for all the promises to return and then flatten them into one DocumentLink array
       const yamlLinkArray = await Promise.all(linkPromises);
@@ -31,6 +34,13 @@ export class YamlLinks {
   }
 }
 
+/**
+ * Link the paths of `!include` tags to the included files.
+ */
+function findIncludeLinks(document: TextDocument, yamlDoc: SingleYAMLDocument): DocumentLink[] {
+  return findIncludes(document, yamlDoc).map((include) => ({ range: include.range, target: include.uri }));
+}
+
 // Copied from vscode-json-languageservice@6.0.0-next.1
 // Source: https://github.com/microsoft/vscode-json-languageservice/blob/810471bbb462bb6b87351c2232e209a3bb4062ca/src/services/jsonLinks.ts
 
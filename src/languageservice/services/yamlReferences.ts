@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { DocumentHighlightParams, ReferenceParams } from 'vscode-languageserver-protocol';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { DocumentHighlight, DocumentHighlightKind, Location } from 'vscode-languageserver-types';
+import type { Telemetry } from '../telemetry';
+import { findAliasTokens, findAnchorTarget, findAnchorToken, getAnchorNameRange } from '../utils/anchorUtils';
+
+export class YamlReferences {
+  constructor(private readonly telemetry?: Telemetry) {}
+
+  /**
+   * Find the aliases, including the ones used in `<<` merge keys, of the anchor at the given position
+   * or of the anchor referenced by the alias at the given position.
+   */
+  findReferences(document: TextDocument, params: ReferenceParams): Location[] {
+    try {
+      const target = findAnchorTarget(document, params.position);
+      if (!target) {
+        return [];
+      }
+
+      const locations: Location[] = [];
+      if (params.context?.includeDeclaration) {
+        const anchorToken = findAnchorToken(target.yamlDoc, target.anchorNode);
+        if (anchorToken) {
+          locations.push(Location.create(document.uri, getAnchorNameRange(document, anchorToken)));
+        }
+      }
+      for (const aliasToken of findAliasTokens(target.yamlDoc, target.anchorNode)) {
+        locations.push(Location.create(document.uri, getAnchorNameRange(document, aliasToken)));
+      }
+      return locations;
+    } catch (err) {
+      this.telemetry?.sendError('yaml.references.error', err);
+      return [];
+    }
+  }
+
+  /**
+   * Highlight the anchor at the given position, or referenced by the alias at the given position, and all its aliases.
+   */
+  findDocumentHighlights(document: TextDocument, params: DocumentHighlightParams): DocumentHighlight[] {
+    try {
+      const target = findAnchorTarget(document, params.position);
+      if (!target) {
+        return [];
+      }
+
+      const highlights: DocumentHighlight[] = [];
+      const anchorToken = findAnchorToken(target.yamlDoc, target.anchorNode);
+      if (anchorToken) {
+        highlights.push(DocumentHighlight.create(getAnchorNameRange(document, anchorToken), DocumentHighlightKind.Write));
+      }
+      for (const aliasToken of findAliasTokens(target.yamlDoc, target.anchorNode)) {
+        highlights.push(DocumentHighlight.create(getAnchorNameRange(document, aliasToken), DocumentHighlightKind.Read));
+      }
+      return highlights;
+    } catch (err) {
+      this.telemetry?.sendError('yaml.documentHighlight.error', err);
+      return [];
+    }
+  }
+}
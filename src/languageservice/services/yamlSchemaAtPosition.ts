@@ -0,0 +1,193 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Position } from 'vscode-languageserver-types';
+import type { ASTNode } from '../jsonLanguageTypes';
+import type { JSONSchema, JSONSchemaRef } from '../jsonSchema';
+import { setKubernetesParserOption } from '../parser/isKubernetes';
+import { yamlDocumentsCache } from '../parser/yaml-documents';
+import type { SingleYAMLDocument } from '../parser/yamlParser07';
+import type { Telemetry } from '../telemetry';
+import { matchOffsetToDocument } from '../utils/arrUtils';
+import type { YAMLSchemaService } from './yamlSchemaService';
+
+/**
+ * The schema applying to the node at a position of a document
+ */
+export interface SchemaAtPosition {
+  /**
+   * JSON pointer of the node in its document, such as `/spec/containers/0`
+   */
+  path: string;
+  /**
+   * The subschemas applying to the node merged together, once `$ref`, `allOf` and the `then`/`else` branches are resolved.
+   * The subschemas used several times, such as the recursive ones, are a `$ref` to their first occurrence.
+   */
+  schema: JSONSchema;
+  /**
+   * URI of the schema file defining the subschema
+   */
+  sourceUri: string;
+}
+
+// keywords applied to the node by the validator, and thus merged in the effective schema
+const APPLIED_KEYWORDS = ['allOf', 'if', 'then', 'else', '$ref'];
+// keywords added by the schema service, besides the ones starting with `_`
+const INTERNAL_KEYWORDS = ['url', 'closestTitle'];
+// keywords holding subschemas by name
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties', 'definitions', '$defs', 'dependentSchemas'];
+// keywords holding instances rather than subschemas
+const DATA_KEYWORDS = ['default', 'examples', 'enum', 'const'];
+
+export class YamlSchemaAtPosition {
+  constructor(
+    private readonly schemaService: YAMLSchemaService,
+    private readonly telemetry?: Telemetry
+  ) {}
+
+  async getSchemaAtPosition(document: TextDocument, position: Position, isKubernetes = false): Promise<SchemaAtPosition | null> {
+    try {
+      const yamlDocument = yamlDocumentsCache.getYamlDocument(document);
+      const offset = document.offsetAt(position);
+      const doc = matchOffsetToDocument(offset, yamlDocument);
+      if (!doc) {
+        return null;
+      }
+      setKubernetesParserOption(yamlDocument.documents, isKubernetes);
+      const node = getValueNode(doc.getNodeFromOffset(offset, true));
+      if (!node) {
+        return null;
+      }
+      const resolvedSchema = await this.schemaService.getSchemaForResource(document.uri, doc);
+      if (!resolvedSchema || resolvedSchema.errors.length) {
+        return null;
+      }
+
+      const path = getNodePath(node);
+      const schemas = this.getNodeSchemas(doc, resolvedSchema.schema, node);
+      if (schemas.length === 0) {
+        const section = resolvedSchema.getSection(path.map(String));
+        if (!section) {
+          return null;
+        }
+        schemas.push(section);
+      }
+      return {
+        path: toJsonPointer(path),
+        schema: toPlainSchema(mergeSchemas(schemas)),
+        sourceUri: schemas[0]._sourceUri ?? resolvedSchema.schema.url,
+      };
+    } catch (err) {
+      this.telemetry?.sendError('yaml.schemaAtPosition.error', err);
+      return null;
+    }
+  }
+
+  /**
+   * @returns the subschemas the validator applies to the node, the outermost first, without the `if` conditions
+   */
+  private getNodeSchemas(doc: SingleYAMLDocument, schema: JSONSchema, node: ASTNode): JSONSchema[] {
+    const matchingSchemas = doc
+      .getMatchingSchemas(schema, node.offset)
+      .filter((matchingSchema) => matchingSchema.node === node && !matchingSchema.inverted && matchingSchema.schema)
+      .map((matchingSchema) => matchingSchema.schema);
+    const conditions = new Set(matchingSchemas.map((matchingSchema) => matchingSchema.if));
+    // the validator collects the subschemas before the schemas applying them
+    return matchingSchemas.filter((matchingSchema) => !conditions.has(matchingSchema)).reverse();
+  }
+}
+
+/**
+ * The value of a property whose key is at the position
+ */
+function getValueNode(node: ASTNode | undefined): ASTNode | undefined {
+  if (node?.type === 'string' && node.parent?.type === 'property' && node.parent.keyNode === node) {
+    return node.parent.valueNode ?? node.parent;
+  }
+  return node?.type === 'property' ? (node.valueNode ?? node) : node;
+}
+
+function getNodePath(node: ASTNode): (string | number)[] {
+  const path: (string | number)[] = [];
+  for (let current = node; current.parent; current = current.parent) {
+    const parent = current.parent;
+    if (parent.type === 'property') {
+      path.unshift(parent.keyNode.value);
+    } else if (parent.type === 'array') {
+      path.unshift(parent.items.indexOf(current));
+    }
+  }
+  return path;
+}
+
+function toJsonPointer(path: (string | number)[]): string {
+  return path.map((segment) => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Merge the subschemas applying to a node: the keywords of the outermost schemas win, the `required` properties add up
+ * and the schemas of a property defined by several subschemas are combined with `allOf`
+ */
+function mergeSchemas(schemas: JSONSchema[]): JSONSchema {
+  const merged: JSONSchema = {};
+  for (const schema of schemas) {
+    for (const key of Object.keys(schema)) {
+      if (APPLIED_KEYWORDS.includes(key)) {
+        continue;
+      }
+      if (key === 'required' && Array.isArray(schema.required)) {
+        merged.required = Array.from(new Set([...(merged.required ?? []), ...schema.required]));
+      } else if ((key === 'properties' || key === 'patternProperties') && schema[key]) {
+        const subschemas: { [name: string]: JSONSchemaRef } = { ...merged[key] };
+        for (const [name, subschema] of Object.entries(schema[key])) {
+          const current = subschemas[name];
+          subschemas[name] = current === undefined || current === subschema ? subschema : { allOf: [current, subschema] };
+        }
+        merged[key] = subschemas;
+      } else if (!(key in merged)) {
+        merged[key] = schema[key];
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Copy a schema without the internal keywords of the schema service. The references are resolved in place by the schema
+ * service, so the subschemas used several times, the recursive ones included, are replaced by a `$ref` to their first copy.
+ */
+function toPlainSchema(schema: JSONSchema): JSONSchema {
+  const copies = new Map<object, string>();
+  const copy = (value: unknown, kind: 'schema' | 'map' | 'data', pointer: string): unknown => {
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (kind === 'schema' && !Array.isArray(value)) {
+      if (copies.has(value)) {
+        return { $ref: '#' + copies.get(value) };
+      }
+      copies.set(value, pointer);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => copy(item, kind === 'data' ? kind : 'schema', `${pointer}/${index}`));
+    }
+    const object: { [key: string]: unknown } = {};
+    for (const [key, property] of Object.entries(value)) {
+      if (kind === 'schema' && (key.startsWith('_') || INTERNAL_KEYWORDS.includes(key))) {
+        continue;
+      }
+      let propertyKind: 'schema' | 'map' | 'data' = kind === 'data' ? kind : 'schema';
+      if (kind === 'schema' && SCHEMA_MAP_KEYWORDS.includes(key)) {
+        propertyKind = 'map';
+      } else if (kind === 'schema' && DATA_KEYWORDS.includes(key)) {
+        propertyKind = 'data';
+      }
+      object[key] = copy(property, propertyKind, pointer + toJsonPointer([key]));
+    }
+    return object;
+  };
+  return copy(schema, 'schema', '') as JSONSchema;
+}
@@ -26,17 +26,34 @@ import Ajv4 from 'ajv-draft-04';
 import * as ajvLocalizers from 'ajv-i18n';
 import * as Json from 'jsonc-parser';
 import picomatch from 'picomatch';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Range } from 'vscode-languageserver-types';
 import { URI } from 'vscode-uri';
-import { parse } from 'yaml';
+import type { Node } from 'yaml';
+import { isMap, parse, parseDocument } from 'yaml';
 
 import { getDollarSchema } from './dollarUtils';
-import { getSchemaFromModeline } from './modelineUtil';
+import { getKubernetesVersionFromModeline, getSchemaFromModeline } from './modelineUtil';
 import { ErrorCode, SchemaDraft } from '../jsonLanguageTypes';
 import { asSchema } from '../parser/schemaValidation/baseValidator';
 import { SchemaPriority } from '../yamlLanguageService';
-import { autoDetectKubernetesSchema } from './k8sSchemaUtil';
-import { CRD_CATALOG_URL, EMPTY_SCHEMA_URL, isKubernetes } from '../utils/schemaUrls';
+import type { CustomResourceSchema } from './k8sSchemaUtil';
+import { autoDetectKubernetesSchema, getGroupVersionKindFromDocument } from './k8sSchemaUtil';
+import {
+  CRD_CATALOG_URL,
+  DEFAULT_KUBERNETES_SCHEMA_VERSION,
+  EMPTY_SCHEMA_URL,
+  findKubernetesFolderVersion,
+  getKubernetesSchemaUrl,
+  isKubernetes,
+  normalizeKubernetesVersion,
+} from '../utils/schemaUrls';
+import type { SchemaPack } from '../utils/schemaPacks';
+import { findSchemaPack, getSchemaPackCRDCatalog, getSchemaPackKubernetesSchema } from '../utils/schemaPacks';
+import type { SchemaDetectionRule } from '../utils/schemaDetection';
+import type { SchemaDependencyEdge } from './schemaDependencyGraph';
+import { SchemaDependencyGraph } from './schemaDependencyGraph';
+import { detectSchemas } from '../utils/schemaDetection';
 import * as Strings from '../utils/strings';
 
 const ajv4 = new Ajv4({ allErrors: true });
@@ -89,6 +106,20 @@ const REF_SIBLING_NONCONSTRAINT_KEYS = new Set([
   'unevaluatedItems',
 ]);
 
+/**
+ * Location of a node of a schema file: its parent node and its key in it, recorded before the in place $ref resolution.
+ * The path of the node in the file is built on demand from the chain of parents.
+ */
+interface SchemaSourceLocation {
+  uri: string;
+  parent?: object;
+  key?: string | number;
+}
+
+const schemaSourceLocations = new WeakMap<object, SchemaSourceLocation>();
+// schema nodes with a $ref, mapped to the schema node the $ref resolved to
+const schemaRefTargets = new WeakMap<JSONSchema, JSONSchema>();
+
 export declare type CustomSchemaProvider = (uri: string) => Promise<string | string[]>;
 
 export enum MODIFICATION_ACTIONS {
@@ -97,6 +128,18 @@ export enum MODIFICATION_ACTIONS {
   'deleteAll',
 }
 
+export interface SchemaSourceRange {
+  uri: string;
+  /**
+   * The range of the whole schema node
+   */
+  range: Range;
+  /**
+   * The range of the property key when the schema is the value of a property, the range of the schema otherwise
+   */
+  selectionRange: Range;
+}
+
 export interface SchemaAdditions {
   schema: string;
   action: MODIFICATION_ACTIONS.add;
@@ -392,6 +435,12 @@ export class YAMLSchemaService implements IJSONSchemaService {
   public schemaPriorityMapping: Map<string, Set<SchemaPriority>>;
 
   private schemaUriToNameAndDescription = new Map<string, SchemaStoreSchema>();
+  // the custom resource schemas of the CustomResourceDefinitions of the workspace, by file
+  private workspaceCustomResources = new Map<string, CustomResourceSchema[]>();
+  // content of the schema files, kept for the go to definition requests until they change
+  private schemaSourceContents = new Map<string, Promise<string | undefined>>();
+  private schemaDetectionRules: SchemaDetectionRule[] = [];
+  private dependencyGraph = new SchemaDependencyGraph();
 
   constructor(
     requestService: SchemaRequestService,
@@ -417,6 +466,16 @@ export class YAMLSchemaService implements IJSONSchemaService {
     this.customSchemaProvider = customSchemaProvider;
   }
 
+  /**
+   * Set the rules selecting a schema from the content of the documents, with the `ContentDetection` priority
+   */
+  setSchemaDetectionRules(rules: SchemaDetectionRule[]): void {
+    this.schemaDetectionRules = rules.map((rule) => ({ ...rule, uri: normalizeId(rule.uri) }));
+    for (const rule of this.schemaDetectionRules) {
+      this.addSchemaPriority(rule.uri, SchemaPriority.ContentDetection);
+    }
+  }
+
   getAllSchemas(): JSONSchemaDescriptionExt[] {
     const result: JSONSchemaDescriptionExt[] = [];
     const schemaUris = new Set<string>();
@@ -543,6 +602,12 @@ export class YAMLSchemaService implements IJSONSchemaService {
         }
       }
     }
+    for (const schemaId of detectSchemas(this.schemaDetectionRules, doc)) {
+      if (!seen[schemaId]) {
+        schemas.push(schemaId);
+        seen[schemaId] = true;
+      }
+    }
 
     return schemas.length > 0 ? this.highestPrioritySchemas(schemas) : [];
   }
@@ -635,6 +700,9 @@ export class YAMLSchemaService implements IJSONSchemaService {
       // clone objects
       const result: JSONSchema = {};
       seen.set(value, result);
+      if (schemaSourceLocations.has(value)) {
+        schemaSourceLocations.set(result, schemaSourceLocations.get(value));
+      }
       for (const prop in value) {
         result[prop] = _cloneSchema(value[prop], seen, stopCondition);
       }
@@ -785,6 +853,7 @@ export class YAMLSchemaService implements IJSONSchemaService {
           } else {
             // $id without fragment creates a new embedded resource scope
             baseUri = resolvedBaseUri;
+            this.dependencyGraph.addDependency(normalizeId(resolvedBaseUri), normalizeId(current.sourceUri), 'id');
             const entry = _getResourceIndex(resolvedBaseUri);
             if (!entry.root) {
               entry.root = node;
@@ -883,6 +952,7 @@ export class YAMLSchemaService implements IJSONSchemaService {
       }
       if (typeof section === 'object' && section) {
         const source = clone ? (_cloneSchema(section, new Map()) as JSONSchema) : section;
+        schemaRefTargets.set(target, source);
         for (const key in source) {
           if (Object.prototype.hasOwnProperty.call(source, key) && !Object.prototype.hasOwnProperty.call(target, key)) {
             target[key] = source[key];
@@ -955,6 +1025,7 @@ export class YAMLSchemaService implements IJSONSchemaService {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
       ): Promise<any> => {
         parentSchemaDependencies[schemaUri] = true;
+        this.dependencyGraph.addDependency(normalizeId(parentSchemaSourceUri ?? parentSchemaURL), normalizeId(schemaUri), 'ref');
         _merge(node, schemaRoot, schemaUri, linkPath, !!inheritedDynamicScope || !!recursiveAnchorBase);
         if (!recursiveAnchorBase || !node._baseUri) node._baseUri = schemaUri;
         node.url = schemaUri;
@@ -1379,6 +1450,102 @@ export class YAMLSchemaService implements IJSONSchemaService {
     return new ResolvedSchema(schema, resolveErrors);
   }
 
+  /**
+   * Register the custom resources defined by a file of the workspace, in place of the ones it previously defined
+   * @param uri the URI of the file
+   * @param customResources the schemas of the resources, none when the file is deleted
+   * @returns whether the registered custom resources changed
+   */
+  public setWorkspaceCustomResources(uri: string, customResources: CustomResourceSchema[]): boolean {
+    const previous = this.workspaceCustomResources.get(uri) ?? [];
+    if (JSON.stringify(previous) === JSON.stringify(customResources)) {
+      return false;
+    }
+    for (const customResource of previous) {
+      const id = getWorkspaceCustomResourceId(uri, customResource);
+      delete this.schemasById[id];
+      this.onResourceChange(id);
+    }
+    if (customResources.length) {
+      this.workspaceCustomResources.set(uri, customResources);
+    } else {
+      this.workspaceCustomResources.delete(uri);
+    }
+    this.cachedSchemaForResource = undefined;
+    return true;
+  }
+
+  public clearWorkspaceCustomResources(): boolean {
+    let hasChanges = false;
+    for (const uri of Array.from(this.workspaceCustomResources.keys())) {
+      hasChanges = this.setWorkspaceCustomResources(uri, []) || hasChanges;
+    }
+    return hasChanges;
+  }
+
+  /**
+   * @returns the id of the schema of the workspace CustomResourceDefinition matching the GroupVersionKind of the document
+   */
+  private autoDetectWorkspaceCustomResource(doc: JSONDocument): string | undefined {
+    const gvk = getGroupVersionKindFromDocument(doc);
+    if (!gvk) {
+      return undefined;
+    }
+    for (const [uri, customResources] of this.workspaceCustomResources) {
+      const customResource = customResources.find(
+        ({ group, version, kind }) => group === gvk.group && version === gvk.version && kind === gvk.kind
+      );
+      if (customResource) {
+        const id = getWorkspaceCustomResourceId(uri, customResource);
+        this.getOrAddSchemaHandle(id, customResource.schema);
+        return id;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the GroupVersionKind of the document against the builtin resources and CRDs of the schema pack,
+   * then against the CRD catalog when the CRD store is enabled.
+   */
+  private async autoDetectSchemaPackSchema(
+    doc: JSONDocument,
+    kubernetesSchema: ResolvedSchema,
+    kubernetesSchemaURI: string,
+    schemaPack: SchemaPack
+  ): Promise<string | undefined> {
+    const crdCatalog = getSchemaPackCRDCatalog(schemaPack);
+    const packSchema = autoDetectKubernetesSchema(doc, kubernetesSchema, kubernetesSchemaURI, crdCatalog);
+    if (!packSchema || !packSchema.startsWith(`${crdCatalog}/`)) {
+      return packSchema;
+    }
+    const crdSchema = await this.getOrAddSchemaHandle(normalizeId(packSchema)).getResolvedSchema();
+    if (crdSchema && crdSchema.errors.length === 0) {
+      return packSchema;
+    }
+    if (this.yamlSettings?.kubernetesCRDStoreEnabled) {
+      return autoDetectKubernetesSchema(
+        doc,
+        kubernetesSchema,
+        kubernetesSchemaURI,
+        this.yamlSettings.kubernetesCRDStoreUrl ?? CRD_CATALOG_URL
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns the Kubernetes version of the resource: the one of its modeline, of its closest workspace folder, or the configured one
+   */
+  public getKubernetesVersion(resource: string, doc: JSONDocument): string {
+    return (
+      normalizeKubernetesVersion(getKubernetesVersionFromModeline(doc)) ??
+      findKubernetesFolderVersion(this.yamlSettings?.kubernetesFolderVersions, resource) ??
+      this.yamlSettings?.kubernetesVersion ??
+      DEFAULT_KUBERNETES_SCHEMA_VERSION
+    );
+  }
+
   public async getSchemaForResource(resource: string, doc: JSONDocument): Promise<ResolvedSchema> {
     const resolveSchemaForResource = async (schemas: string[]): Promise<ResolvedSchema> => {
       const schemaHandle = this.createCombinedSchema(resource, schemas);
@@ -1392,27 +1559,48 @@ export class YAMLSchemaService implements IJSONSchemaService {
       const schemas: string[] = [];
       let k8sAllSchema: ResolvedSchema = undefined;
       let k8sSchemaUrl: string | undefined = undefined;
+      // the version of the modeline takes precedence over the schema packs, which take precedence over the folder versions
+      const modelineVersion = normalizeKubernetesVersion(getKubernetesVersionFromModeline(doc));
+      const schemaPack = modelineVersion ? undefined : findSchemaPack(this.yamlSettings?.schemaPacks, resource);
+      const kubernetesVersion =
+        modelineVersion ?? findKubernetesFolderVersion(this.yamlSettings?.kubernetesFolderVersions, resource);
 
       for (const entry of this.filePatternAssociations) {
         if (entry.matchesPattern(resource)) {
           for (const schemaId of entry.getURIs()) {
             if (!seen[schemaId]) {
-              if (this.yamlSettings?.kubernetesCRDStoreEnabled && isKubernetes(schemaId)) {
+              const workspaceCustomResource = isKubernetes(schemaId) && this.autoDetectWorkspaceCustomResource(doc);
+              if (workspaceCustomResource) {
+                schemas.push(workspaceCustomResource);
+                seen[schemaId] = true;
+              } else if (
+                (this.yamlSettings?.kubernetesCRDStoreEnabled || schemaPack || kubernetesVersion) &&
+                isKubernetes(schemaId)
+              ) {
                 if (!k8sAllSchema) {
-                  k8sSchemaUrl = schemaId;
-                  k8sAllSchema = await this.getResolvedSchema(schemaId);
+                  if (schemaPack) {
+                    k8sSchemaUrl = getSchemaPackKubernetesSchema(schemaPack);
+                  } else {
+                    k8sSchemaUrl = kubernetesVersion ? getKubernetesSchemaUrl(kubernetesVersion) : schemaId;
+                  }
+                  k8sAllSchema = await this.getOrAddSchemaHandle(normalizeId(k8sSchemaUrl)).getResolvedSchema();
+                }
+                let kubeSchema: string | undefined;
+                if (schemaPack) {
+                  kubeSchema = await this.autoDetectSchemaPackSchema(doc, k8sAllSchema, k8sSchemaUrl, schemaPack);
+                } else if (this.yamlSettings?.kubernetesCRDStoreEnabled) {
+                  kubeSchema = autoDetectKubernetesSchema(
+                    doc,
+                    k8sAllSchema,
+                    k8sSchemaUrl,
+                    this.yamlSettings.kubernetesCRDStoreUrl ?? CRD_CATALOG_URL
+                  );
                 }
-                const kubeSchema = autoDetectKubernetesSchema(
-                  doc,
-                  k8sAllSchema,
-                  k8sSchemaUrl ?? schemaId,
-                  this.yamlSettings.kubernetesCRDStoreUrl ?? CRD_CATALOG_URL
-                );
                 if (kubeSchema) {
                   schemas.push(kubeSchema);
                   seen[schemaId] = true;
                 } else {
-                  schemas.push(schemaId);
+                  schemas.push(k8sSchemaUrl ?? schemaId);
                   seen[schemaId] = true;
                 }
               } else {
@@ -1423,6 +1611,12 @@ export class YAMLSchemaService implements IJSONSchemaService {
           }
         }
       }
+      for (const schemaId of detectSchemas(this.schemaDetectionRules, doc)) {
+        if (!seen[schemaId]) {
+          schemas.push(schemaId);
+          seen[schemaId] = true;
+        }
+      }
 
       if (schemas.length > 0) {
         // Join all schemas with the highest priority.
@@ -1772,6 +1966,7 @@ export class YAMLSchemaService implements IJSONSchemaService {
         }
         try {
           const schemaContent = parse(content);
+          recordSchemaSourceLocations(schemaContent, schemaUri);
           return new UnresolvedSchema(schemaContent, []);
         } catch (yamlError) {
           const errorMessage = l10n.t("Unable to parse content from '{0}': {1}.", toDisplayString(schemaUri), yamlError);
@@ -1815,21 +2010,49 @@ export class YAMLSchemaService implements IJSONSchemaService {
       }
       return new UnresolvedSchema(<JSONSchema>{}, [toDiagnostic(errorMessage, schemaError.code, schemaUri)]);
     }
+    recordSchemaSourceLocations(unresolvedJsonSchema.schema, schemaUri);
     return unresolvedJsonSchema;
   }
 
+  /**
+   * Find where a resolved schema node is defined in the schema file it was loaded from.
+   * For a schema node with a `$ref`, this is the location of the schema the `$ref` resolved to.
+   * @returns undefined if the schema node was not loaded from a schema file
+   */
+  async getSchemaSourceRange(schema: JSONSchema): Promise<SchemaSourceRange | undefined> {
+    let target = schema;
+    const visited = new Set<JSONSchema>();
+    while (schemaRefTargets.has(target) && !visited.has(target)) {
+      visited.add(target);
+      target = schemaRefTargets.get(target);
+    }
+    const node = schemaSourceLocations.has(target) ? target : schema;
+    const location = schemaSourceLocations.get(node);
+    if (!location || !this.requestService) {
+      return undefined;
+    }
+    let content = this.schemaSourceContents.get(location.uri);
+    if (!content) {
+      content = this.requestService(location.uri).catch(() => undefined);
+      this.schemaSourceContents.set(location.uri, content);
+    }
+    const text = await content;
+    return text ? findSchemaSourceRange(location.uri, text, getSchemaSourcePath(node)) : undefined;
+  }
+
   registerExternalSchema(
     uri: string,
     filePatterns?: string[],
     unresolvedSchema?: JSONSchema,
     name?: string,
     description?: string,
-    versions?: SchemaVersions
+    versions?: SchemaVersions,
+    folderUri?: string
   ): SchemaHandle {
     if (name || description) {
       this.schemaUriToNameAndDescription.set(uri, { name, description, versions });
     }
-    const config: SchemaConfiguration = { uri: uri, fileMatch: filePatterns, schema: unresolvedSchema };
+    const config: SchemaConfiguration = { uri: uri, fileMatch: filePatterns, schema: unresolvedSchema, folderUri };
     const id = normalizeId(config.uri);
     this.registeredSchemasIds[id] = true;
 
@@ -1843,6 +2066,7 @@ export class YAMLSchemaService implements IJSONSchemaService {
     this.schemasById = {};
     this.filePatternAssociations = [];
     this.registeredSchemasIds = {};
+    this.schemaSourceContents.clear();
     this.cachedSchemaForResource = undefined;
 
     for (const id in this.contributionSchemas) {
@@ -1888,17 +2112,28 @@ export class YAMLSchemaService implements IJSONSchemaService {
     return Promise.resolve(undefined);
   }
 
+  /**
+   * @returns the `$ref` and `$id` dependencies between the schemas resolved so far
+   */
+  getSchemaDependencyGraph(): SchemaDependencyEdge[] {
+    return this.dependencyGraph.getEdges();
+  }
+
   onResourceChange(uri: string): boolean {
     this.cachedSchemaForResource = undefined;
 
     let hasChanges = false;
     uri = normalizeId(uri);
+    this.schemaSourceContents.delete(uri);
 
-    const toWalk = [uri];
+    // the schemas depending on the resources declared by the schema are found through the graph only
+    const toWalk = [uri, ...this.dependencyGraph.getDependents(uri)];
     const all: (SchemaHandle | undefined)[] = Object.keys(this.schemasById).map((key) => this.schemasById[key]);
 
     while (toWalk.length) {
       const curr = toWalk.pop()!;
+      // the dependencies of the invalidated schemas are recorded again when they are resolved
+      this.dependencyGraph.removeDependencies(curr);
       for (let i = 0; i < all.length; i++) {
         const handle = all[i];
         if (handle && (handle.uri === curr || handle.dependencies[curr])) {
@@ -1916,6 +2151,64 @@ export class YAMLSchemaService implements IJSONSchemaService {
   }
 }
 
+function recordSchemaSourceLocations(schema: unknown, uri: string): void {
+  if (!schema || typeof schema !== 'object') {
+    return;
+  }
+  schemaSourceLocations.set(schema, { uri });
+  const toWalk: object[] = [schema];
+  while (toWalk.length) {
+    const node = toWalk.pop();
+    for (const key of Object.keys(node)) {
+      const child = node[key];
+      if (child && typeof child === 'object' && !schemaSourceLocations.has(child)) {
+        schemaSourceLocations.set(child, { uri, parent: node, key: Array.isArray(node) ? Number(key) : key });
+        toWalk.push(child);
+      }
+    }
+  }
+}
+
+/**
+ * @returns the path of a schema node in the schema file it was loaded from
+ */
+function getSchemaSourcePath(node: object): (string | number)[] {
+  const path: (string | number)[] = [];
+  for (let location = schemaSourceLocations.get(node); location?.parent; location = schemaSourceLocations.get(location.parent)) {
+    path.unshift(location.key);
+  }
+  return path;
+}
+
+function findSchemaSourceRange(uri: string, content: string, path: (string | number)[]): SchemaSourceRange | undefined {
+  const document = TextDocument.create(uri, 'json', 0, content);
+  const toRange = (offset: number, length: number): Range =>
+    Range.create(document.positionAt(offset), document.positionAt(offset + length));
+
+  const jsonErrors: Json.ParseError[] = [];
+  const jsonRoot = Json.parseTree(content, jsonErrors);
+  if (jsonRoot && !jsonErrors.length) {
+    const node = Json.findNodeAtLocation(jsonRoot, path);
+    if (!node) {
+      return undefined;
+    }
+    const keyNode = node.parent?.type === 'property' ? node.parent.children[0] : node;
+    return { uri, range: toRange(node.offset, node.length), selectionRange: toRange(keyNode.offset, keyNode.length) };
+  }
+
+  // schema written in YAML
+  const yamlDocument = parseDocument(content);
+  const node = yamlDocument.getIn(path, true) as Node;
+  if (!node?.range) {
+    return undefined;
+  }
+  const range = toRange(node.range[0], node.range[1] - node.range[0]);
+  const parent = path.length > 0 ? yamlDocument.getIn(path.slice(0, -1), true) : undefined;
+  const keyNode = isMap(parent) ? (parent.items.find((pair) => pair.value === node)?.key as Node) : undefined;
+  const selectionRange = keyNode?.range ? toRange(keyNode.range[0], keyNode.range[1] - keyNode.range[0]) : range;
+  return { uri, range, selectionRange };
+}
+
 function toDisplayString(url: string): string {
   try {
     const uri = URI.parse(url);
@@ -1944,6 +2237,10 @@ function getLineAndColumnFromOffset(text: string, offset: number): { line: numbe
   return { line, column };
 }
 
+function getWorkspaceCustomResourceId(uri: string, { group, version, kind }: CustomResourceSchema): string {
+  return normalizeId(`${uri}?crd=${group}/${version}/${kind}`);
+}
+
 const jsonSchemaHttpPrefix = `http://json-schema.org/`;
 const jsonSchemaHttpsPrefix = `https://json-schema.org/`;
 
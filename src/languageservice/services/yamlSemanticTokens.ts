@@ -0,0 +1,217 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { SemanticTokens, SemanticTokensLegend } from 'vscode-languageserver-types';
+import { SemanticTokenModifiers, SemanticTokenTypes } from 'vscode-languageserver-types';
+import { SemanticTokensBuilder } from 'vscode-languageserver';
+import { CST, isScalar } from 'yaml';
+import type { ASTNode, PropertyASTNode } from '../jsonLanguageTypes';
+import type { JSONSchema } from '../jsonSchema';
+import { getCustomTags } from '../parser/custom-tag-provider';
+import { yamlDocumentsCache } from '../parser/yaml-documents';
+import type { SingleYAMLDocument, YamlVersion } from '../parser/yamlParser07';
+import type { Telemetry } from '../telemetry';
+import { equals } from '../utils/objects';
+import { safeCreateUnicodeRegExp } from '../utils/strings';
+import type { LanguageSettings } from '../yamlLanguageService';
+import type { YAMLSchemaService } from './yamlSchemaService';
+
+/**
+ * Modifier of the keys which are not described by the schema of their mapping
+ */
+export const UNKNOWN_TOKEN_MODIFIER = 'unknown';
+
+const tokenTypes: string[] = [
+  SemanticTokenTypes.property,
+  SemanticTokenTypes.enumMember,
+  SemanticTokenTypes.variable,
+  SemanticTokenTypes.decorator,
+];
+const tokenModifiers: string[] = [SemanticTokenModifiers.declaration, SemanticTokenModifiers.deprecated, UNKNOWN_TOKEN_MODIFIER];
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = { tokenTypes, tokenModifiers };
+
+interface YamlToken {
+  offset: number;
+  length: number;
+  type: string;
+  modifiers: string[];
+}
+
+export class YamlSemanticTokens {
+  private customTags: string[] = [];
+  private yamlVersion: YamlVersion;
+
+  constructor(
+    private readonly schemaService: YAMLSchemaService,
+    private readonly telemetry?: Telemetry
+  ) {}
+
+  configure(settings: LanguageSettings): void {
+    this.customTags = settings.customTags ?? [];
+    this.yamlVersion = settings.yamlVersion;
+  }
+
+  /**
+   * Compute the semantic tokens of a document:
+   * - keys, `unknown` when the schema of their mapping does not describe them and `deprecated` when their schema is,
+   * - values listed in the `enum` or `const` of their schema,
+   * - anchors (as `declaration`) and aliases,
+   * - custom tags.
+   */
+  async getSemanticTokens(document: TextDocument): Promise<SemanticTokens> {
+    const builder = new SemanticTokensBuilder();
+    try {
+      const yamlDocument = yamlDocumentsCache.getYamlDocument(document, {
+        customTags: this.customTags,
+        yamlVersion: this.yamlVersion,
+      });
+      // nodes resolved from aliases are visited once per alias, keep the first token found at an offset
+      const tokens = new Map<number, YamlToken>();
+      const addToken = (token: YamlToken): void => {
+        if (token.length > 0 && !tokens.has(token.offset)) {
+          tokens.set(token.offset, token);
+        }
+      };
+
+      this.collectSyntaxTokens(yamlDocument.tokens, addToken);
+      for (const yamlDoc of yamlDocument.documents) {
+        await this.collectSchemaTokens(document, yamlDoc, addToken);
+      }
+
+      for (const token of Array.from(tokens.values()).sort((a, b) => a.offset - b.offset)) {
+        const start = document.positionAt(token.offset);
+        const end = document.positionAt(token.offset + token.length);
+        if (start.line !== end.line) {
+          continue;
+        }
+        builder.push(start.line, start.character, token.length, tokenTypes.indexOf(token.type), encodeModifiers(token.modifiers));
+      }
+    } catch (err) {
+      this.telemetry?.sendError('yaml.semanticTokens.error', err);
+    }
+    return builder.build();
+  }
+
+  private collectSyntaxTokens(cstTokens: CST.Token[], addToken: (token: YamlToken) => void): void {
+    const customTags = new Set((getCustomTags(this.customTags) as { tag: string }[]).map((tag) => tag.tag));
+    const addProps = (props: CST.SourceToken[] | undefined): void => {
+      for (const prop of props ?? []) {
+        if (prop.type === 'anchor') {
+          addToken({
+            offset: prop.offset,
+            length: prop.source.length,
+            type: SemanticTokenTypes.variable,
+            modifiers: [SemanticTokenModifiers.declaration],
+          });
+        } else if (prop.type === 'tag' && customTags.has(prop.source)) {
+          addToken({ offset: prop.offset, length: prop.source.length, type: SemanticTokenTypes.decorator, modifiers: [] });
+        }
+      }
+    };
+    const addAlias = (token: CST.Token | undefined): void => {
+      if (token?.type === 'alias') {
+        addToken({ offset: token.offset, length: token.source.length, type: SemanticTokenTypes.variable, modifiers: [] });
+      }
+    };
+
+    for (const cstToken of cstTokens) {
+      if (cstToken.type !== 'document') {
+        continue;
+      }
+      CST.visit(cstToken, (item) => {
+        addProps(item.start);
+        addProps(item.sep);
+        addAlias(item.key);
+        addAlias(item.value);
+      });
+    }
+  }
+
+  private async collectSchemaTokens(
+    document: TextDocument,
+    yamlDoc: SingleYAMLDocument,
+    addToken: (token: YamlToken) => void
+  ): Promise<void> {
+    const schema = await this.schemaService.getSchemaForResource(document.uri, yamlDoc);
+    if (!schema || schema.errors.length) {
+      return;
+    }
+
+    const schemasByNode = new Map<ASTNode, JSONSchema[]>();
+    for (const matchingSchema of yamlDoc.getMatchingSchemas(schema.schema)) {
+      if (matchingSchema.inverted || !matchingSchema.schema || typeof matchingSchema.schema !== 'object') {
+        continue;
+      }
+      const schemas = schemasByNode.get(matchingSchema.node) ?? [];
+      schemas.push(matchingSchema.schema);
+      schemasByNode.set(matchingSchema.node, schemas);
+    }
+
+    yamlDoc.visit((node) => {
+      if (node.type === 'property') {
+        const keyToken = getKeyToken(node, schemasByNode.get(node.parent));
+        if (keyToken) {
+          addToken(keyToken);
+        }
+      } else if (isEnumValue(node, schemasByNode.get(node))) {
+        addToken({ offset: node.offset, length: node.length, type: SemanticTokenTypes.enumMember, modifiers: [] });
+      }
+      return true;
+    });
+  }
+}
+
+function getKeyToken(property: PropertyASTNode, objectSchemas: JSONSchema[] | undefined): YamlToken | undefined {
+  const keyNode = property.keyNode;
+  if (!isScalar(keyNode.internalNode)) {
+    return undefined;
+  }
+  const schemas = (objectSchemas ?? []).filter((schema) => schema.properties || schema.patternProperties);
+  if (schemas.length === 0) {
+    return undefined;
+  }
+
+  const token: YamlToken = { offset: keyNode.offset, length: keyNode.length, type: SemanticTokenTypes.property, modifiers: [] };
+  const propertySchema = findPropertySchema(schemas, keyNode.value);
+  if (propertySchema === undefined) {
+    token.modifiers.push(UNKNOWN_TOKEN_MODIFIER);
+  } else if (typeof propertySchema === 'object' && (propertySchema.deprecated || propertySchema.deprecationMessage)) {
+    token.modifiers.push(SemanticTokenModifiers.deprecated);
+  }
+  return token;
+}
+
+function findPropertySchema(schemas: JSONSchema[], key: string): JSONSchema | boolean | undefined {
+  for (const schema of schemas) {
+    if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+      return schema.properties[key];
+    }
+    for (const pattern of Object.keys(schema.patternProperties ?? {})) {
+      if (safeCreateUnicodeRegExp(pattern)?.test(key)) {
+        return schema.patternProperties[pattern];
+      }
+    }
+  }
+  return undefined;
+}
+
+function isEnumValue(node: ASTNode, schemas: JSONSchema[] | undefined): boolean {
+  if (!schemas || node.type === 'object' || node.type === 'array' || node.type === 'property') {
+    return false;
+  }
+  if (node.parent?.type === 'property' && node.parent.keyNode === node) {
+    return false;
+  }
+  return schemas.some(
+    (schema) =>
+      schema.enum?.some((value) => equals(value, node.value)) || (schema.const !== undefined && equals(schema.const, node.value))
+  );
+}
+
+function encodeModifiers(modifiers: string[]): number {
+  return modifiers.reduce((result, modifier) => result | (1 << tokenModifiers.indexOf(modifier)), 0);
+}
@@ -0,0 +1,180 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { SignatureHelpContext } from 'vscode-languageserver-protocol';
+import { SignatureHelpTriggerKind } from 'vscode-languageserver-protocol';
+import type { Position, SignatureHelp, SignatureInformation } from 'vscode-languageserver-types';
+import { MarkupKind, ParameterInformation, SignatureInformation as Signature } from 'vscode-languageserver-types';
+import { isMap, isNode, isPair, isScalar, isSeq } from 'yaml';
+import * as l10n from '@vscode/l10n';
+import type { ASTNode, YamlNode } from '../jsonLanguageTypes';
+import type { JSONSchema } from '../jsonSchema';
+import { yamlDocumentsCache } from '../parser/yaml-documents';
+import type { SingleYAMLDocument, YamlVersion } from '../parser/yamlParser07';
+import type { Telemetry } from '../telemetry';
+import { matchOffsetToDocument } from '../utils/arrUtils';
+import type { CustomTag, CustomTagInputType } from '../utils/customTags';
+import { parseCustomTag } from '../utils/customTags';
+import { TextBuffer } from '../utils/textBuffer';
+import type { LanguageSettings } from '../yamlLanguageService';
+import type { YAMLSchemaService } from './yamlSchemaService';
+
+export class YamlSignatureHelp {
+  private customTags: string[] = [];
+  private yamlVersion: YamlVersion;
+
+  constructor(
+    private readonly schemaService: YAMLSchemaService,
+    private readonly telemetry?: Telemetry
+  ) {}
+
+  configure(settings: LanguageSettings): void {
+    this.customTags = settings.customTags ?? [];
+    this.yamlVersion = settings.yamlVersion;
+  }
+
+  /**
+   * List the declarations of the custom tag at the given position or, when there is none, the `oneOf`/`anyOf`
+   * alternatives of the closest value, with the one matching best as active signature.
+   * The alternatives, which need the schema matching, are only listed when the signature help is invoked
+   * or already shown, not when it is opened by a trigger character such as the space typed after a tag.
+   */
+  async doSignatureHelp(
+    document: TextDocument,
+    position: Position,
+    context?: SignatureHelpContext
+  ): Promise<SignatureHelp | null> {
+    try {
+      const yamlDocument = yamlDocumentsCache.getYamlDocument(document, {
+        customTags: this.customTags,
+        yamlVersion: this.yamlVersion,
+      });
+      const offset = document.offsetAt(position);
+      const currentDoc = matchOffsetToDocument(offset, yamlDocument);
+      if (!currentDoc) {
+        return null;
+      }
+      const tagSignatures = this.getCustomTagSignatures(document, position, currentDoc);
+      if (tagSignatures || (context?.triggerKind === SignatureHelpTriggerKind.TriggerCharacter && !context.isRetrigger)) {
+        return tagSignatures;
+      }
+      return await this.getAlternativeSignatures(document, offset, currentDoc);
+    } catch (err) {
+      this.telemetry?.sendError('yaml.signatureHelp.error', err);
+      return null;
+    }
+  }
+
+  private getCustomTagSignatures(document: TextDocument, position: Position, doc: SingleYAMLDocument): SignatureHelp | null {
+    const textBuffer = new TextBuffer(document);
+    const [node] = doc.getNodeFromPosition(document.offsetAt(position), textBuffer);
+    // the closest tagged node, the position may be inside a tagged collection
+    let value: unknown = isPair(node) ? node.value : node;
+    while (value && !(isNode(value) && value.tag)) {
+      value = doc.getParent(value as YamlNode);
+    }
+    let tag = isNode(value) ? value.tag : undefined;
+    if (!tag) {
+      // the tag has been typed but not its value yet
+      const linePrefix = textBuffer.getLineContent(position.line).substring(0, position.character);
+      tag = /(![^\s[\]{},]*)\s+$/.exec(linePrefix)?.[1];
+    }
+
+    const declarations = this.customTags
+      .map((customTag) => parseCustomTag(customTag))
+      .filter((customTag) => customTag?.tag === tag);
+    if (!tag || declarations.length === 0) {
+      return null;
+    }
+
+    const inputType = getInputType(value);
+    const activeSignature = Math.max(
+      declarations.findIndex((declaration) => declaration.inputType === inputType),
+      0
+    );
+    return {
+      signatures: declarations.map((declaration) => toTagSignature(declaration)),
+      activeSignature,
+      activeParameter: 0,
+    };
+  }
+
+  private async getAlternativeSignatures(
+    document: TextDocument,
+    offset: number,
+    doc: SingleYAMLDocument
+  ): Promise<SignatureHelp | null> {
+    const schema = await this.schemaService.getSchemaForResource(document.uri, doc);
+    if (!schema || schema.errors.length) {
+      return null;
+    }
+
+    const matchingSchemas = doc.getMatchingSchemas(schema.schema).filter((matchingSchema) => !matchingSchema.inverted);
+    for (let node: ASTNode = doc.getNodeFromOffset(offset, true); node; node = node.parent) {
+      const nodeSchemas = matchingSchemas.filter((matchingSchema) => matchingSchema.node === node);
+      for (const { schema: nodeSchema } of nodeSchemas) {
+        const alternatives = (nodeSchema.oneOf ?? nodeSchema.anyOf ?? []).filter(
+          (alternative): alternative is JSONSchema => !!alternative && typeof alternative === 'object'
+        );
+        if (alternatives.length === 0) {
+          continue;
+        }
+        // the validator collects a copy of the best alternative for the node
+        const activeSignature = alternatives.findIndex((alternative) =>
+          nodeSchemas.some((matchingSchema) => isShallowCopy(matchingSchema.schema, alternative))
+        );
+        return {
+          signatures: alternatives.map((alternative, index) => toAlternativeSignature(alternative, index)),
+          activeSignature: Math.max(activeSignature, 0),
+        };
+      }
+    }
+    return null;
+  }
+}
+
+function getInputType(node: YamlNode | unknown): CustomTagInputType | undefined {
+  if (isMap(node)) {
+    return 'mapping';
+  }
+  if (isSeq(node)) {
+    return 'sequence';
+  }
+  if (isScalar(node)) {
+    return 'scalar';
+  }
+  return undefined;
+}
+
+function toTagSignature(declaration: CustomTag): SignatureInformation {
+  const label = declaration.returnType
+    ? `${declaration.tag} ${declaration.inputType} → ${declaration.returnType}`
+    : `${declaration.tag} ${declaration.inputType}`;
+  const start = declaration.tag.length + 1;
+  return Signature.create(
+    label,
+    l10n.t('Custom tag taking a {0} value', declaration.inputType),
+    ParameterInformation.create([start, start + declaration.inputType.length])
+  );
+}
+
+function toAlternativeSignature(alternative: JSONSchema, index: number): SignatureInformation {
+  const label = alternative.title || alternative.type?.toString() || l10n.t('Alternative {0}', index + 1);
+  const signature: SignatureInformation = { label };
+  if (alternative.markdownDescription) {
+    signature.documentation = { kind: MarkupKind.Markdown, value: alternative.markdownDescription };
+  } else if (alternative.description) {
+    signature.documentation = alternative.description;
+  }
+  return signature;
+}
+
+/**
+ * @returns whether `copy` is a shallow copy of `schema`, to which the validator may have added keys such as `closestTitle`
+ */
+function isShallowCopy(copy: JSONSchema, schema: JSONSchema): boolean {
+  return copy === schema || Object.keys(schema).every((key) => copy[key] === schema[key]);
+}
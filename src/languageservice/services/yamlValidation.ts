@@ -6,23 +6,26 @@
 
 import { Diagnostic, DiagnosticSeverity, Position, Range } from 'vscode-languageserver-types';
 import type { DiagnosticRelatedInformation } from 'vscode-languageserver-types';
-import type { LanguageSettings } from '../yamlLanguageService';
+import type { FileReaderService, LanguageSettings } from '../yamlLanguageService';
 import type { YamlVersion, SingleYAMLDocument } from '../parser/yamlParser07';
 import type { YAMLSchemaService } from './yamlSchemaService';
 import type { YAMLDocDiagnostic } from '../utils/parseUtils';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 import { YAML_SOURCE } from '../parser/schemaValidation/baseValidator';
 import { TextBuffer } from '../utils/textBuffer';
-import { filterSuppressedDiagnostics } from '../utils/diagnostic-filter';
+import { filterSuppressedDiagnostics, parseDisableSpecifiers, shouldSuppressDiagnostic } from '../utils/diagnostic-filter';
 import { yamlDocumentsCache } from '../parser/yaml-documents';
 import type { Telemetry } from '../telemetry';
-import type { AdditionalValidator } from './validation/types';
-import { UnusedAnchorsValidator } from './validation/unused-anchors';
-import { YAMLStyleValidator } from './validation/yaml-style';
-import { MapKeyOrderValidator } from './validation/map-key-order';
+import type { AdditionalValidator, LintRule, LintRuleConfig, LintRuleContext, LintRuleSeverity } from './validation/types';
+import { IncludeFilesValidator } from './validation/include-files';
+import { BUILTIN_LINT_RULES, isLintRuleSeverity, toDiagnosticSeverity } from './validation/lint-rules';
 import { getSchemaFromModeline } from './modelineUtil';
 import { isKubernetes as isKubernetesSchemaURI } from '../utils/schemaUrls';
 import type { ErrorCode } from '../jsonLanguageTypes';
+import type { JSONSchema } from '../jsonSchema';
+import { findIncludes } from '../utils/includeUtils';
+import type { ProjectConfig } from '../utils/projectConfig';
+import { findProjectConfigs } from '../utils/projectConfig';
 
 /**
  * Convert a YAMLDocDiagnostic to a language server Diagnostic
@@ -41,36 +44,83 @@ export const yamlDiagToLSDiag = (yamlDiag: YAMLDocDiagnostic, textDocument: Text
   return Diagnostic.create(range, yamlDiag.message, yamlDiag.severity, yamlDiag.code, YAML_SOURCE);
 };
 
+/**
+ * The validator of a lint rule, with the severity configured for its diagnostics
+ */
+interface LintRuleValidator {
+  ruleId: string;
+  validator: AdditionalValidator;
+  severity?: DiagnosticSeverity;
+}
+
+/**
+ * The validation settings of the files, which the project configurations override for the files of their folders
+ */
+interface ValidationOptions {
+  customTags: string[];
+  validators: LintRuleValidator[];
+  /**
+   * Lower-cased specifiers of the diagnostics to leave out
+   */
+  disabledDiagnostics: string[];
+}
+
 export class YAMLValidation {
   private validationEnabled = true;
   private customTags: string[];
   private disableAdditionalProperties: boolean;
   private yamlVersion: YamlVersion;
-  private validators: AdditionalValidator[] = [];
+  private defaultOptions: ValidationOptions = { customTags: [], validators: [], disabledDiagnostics: [] };
+  private projectConfigs: ProjectConfig[] = [];
+  // the options of the files by URIs of the configurations applying to them
+  private projectOptions = new Map<string, ValidationOptions>();
+  private settings: LanguageSettings | undefined;
+  private printWidth = 80;
+  private lintRules: LintRule[] = [...BUILTIN_LINT_RULES];
+  private includeValidator: IncludeFilesValidator;
+  private validateIncludes: boolean;
+  // the URIs of the files included by the validated documents, by URIs of the documents
+  private includedFiles = new Map<string, Set<string>>();
 
   private MATCHES_MULTIPLE = 'Matches multiple schemas when only one must validate.';
 
   constructor(
     private readonly schemaService: YAMLSchemaService,
-    private readonly telemetry?: Telemetry
+    private readonly telemetry?: Telemetry,
+    private readonly fileReader?: FileReaderService
   ) {}
 
-  public configure(settings: LanguageSettings): void {
-    this.validators = [];
+  public configure(settings: LanguageSettings, printWidth = 80): void {
     if (settings) {
       this.validationEnabled = settings.validate;
       this.customTags = settings.customTags;
       this.disableAdditionalProperties = settings.disableAdditionalProperties;
       this.yamlVersion = settings.yamlVersion;
-      // Add style validator if flow style is set to forbid only.
-      if (settings.flowMapping === 'forbid' || settings.flowSequence === 'forbid') {
-        this.validators.push(new YAMLStyleValidator(settings));
-      }
-      if (settings.keyOrdering) {
-        this.validators.push(new MapKeyOrderValidator());
-      }
+      this.validateIncludes = settings.validateIncludes;
     }
-    this.validators.push(new UnusedAnchorsValidator());
+    this.settings = settings;
+    this.printWidth = printWidth;
+    this.projectConfigs = settings?.projectConfigs ?? [];
+    this.updateValidationOptions();
+    if (this.fileReader) {
+      this.includeValidator = new IncludeFilesValidator(this.fileReader, {
+        customTags: this.customTags,
+        yamlVersion: this.yamlVersion,
+      });
+    }
+  }
+
+  /**
+   * Add a rule to the linter, in place of the rule with the same ID if any
+   */
+  public registerLintRule(rule: LintRule): void {
+    const index = this.lintRules.findIndex((lintRule) => lintRule.id === rule.id);
+    if (index === -1) {
+      this.lintRules.push(rule);
+    } else {
+      this.lintRules[index] = rule;
+    }
+    this.updateValidationOptions();
   }
 
   public async doValidation(textDocument: TextDocument, isKubernetes = false): Promise<Diagnostic[]> {
@@ -78,12 +128,13 @@ export class YAMLValidation {
       return [];
     }
 
+    const options = this.getValidationOptions(textDocument.uri);
     const validationResult: (Diagnostic | YAMLDocDiagnostic)[] = [];
     let suppressKubernetesMatchesMultiple = isKubernetes;
     try {
       const yamlDocument = yamlDocumentsCache.getYamlDocument(
         textDocument,
-        { customTags: this.customTags, yamlVersion: this.yamlVersion },
+        { customTags: options.customTags, yamlVersion: this.yamlVersion },
         true
       );
 
@@ -99,9 +150,13 @@ export class YAMLValidation {
           ...currentYAMLDoc.errors,
           ...currentYAMLDoc.warnings,
           ...(await this.getSchemaDiagnostics(textDocument, currentYAMLDoc)),
-          ...this.runAdditionalValidators(textDocument, currentYAMLDoc)
+          ...(await this.getIncludeDiagnostics(textDocument, currentYAMLDoc)),
+          ...this.runAdditionalValidators(options.validators, textDocument, currentYAMLDoc, yamlDocument.documents)
         );
       }
+      if (this.includeValidator) {
+        this.trackIncludedFiles(textDocument, yamlDocument.documents);
+      }
     } catch (err) {
       this.telemetry?.sendError('yaml.validation.error', err);
     }
@@ -147,7 +202,7 @@ export class YAMLValidation {
     }
 
     const textBuffer = new TextBuffer(textDocument);
-    return filterSuppressedDiagnostics(
+    const diagnostics = filterSuppressedDiagnostics(
       duplicateMessagesRemoved,
       (d) => d.range.start.line,
       (d) => d.message,
@@ -156,10 +211,73 @@ export class YAMLValidation {
           return undefined;
         }
         return textBuffer.getLineContent(line).replace(/[\r\n]+$/, '');
-      }
+      },
+      (d) => d.code
+    );
+    if (options.disabledDiagnostics.length === 0) {
+      return diagnostics;
+    }
+    return diagnostics.filter(
+      (diagnostic) => !shouldSuppressDiagnostic(options.disabledDiagnostics, diagnostic.message, diagnostic.code)
     );
   }
 
+  private updateValidationOptions(): void {
+    this.defaultOptions = this.createValidationOptions(this.settings);
+    this.projectOptions.clear();
+  }
+
+  private getValidationOptions(uri: string): ValidationOptions {
+    const projectConfigs = findProjectConfigs(this.projectConfigs, uri);
+    if (projectConfigs.length === 0) {
+      return this.defaultOptions;
+    }
+    const key = projectConfigs.map((projectConfig) => projectConfig.uri).join('\n');
+    let options = this.projectOptions.get(key);
+    if (!options) {
+      options = this.createValidationOptions(
+        projectConfigs.reduce(getProjectLanguageSettings, this.settings ?? {}),
+        projectConfigs.flatMap((projectConfig) =>
+          Array.isArray(projectConfig.settings.disable) ? projectConfig.settings.disable : []
+        )
+      );
+      this.projectOptions.set(key, options);
+    }
+    return options;
+  }
+
+  private createValidationOptions(settings: LanguageSettings | undefined, disable?: unknown): ValidationOptions {
+    const validators: LintRuleValidator[] = [];
+    for (const rule of this.lintRules) {
+      const severity = settings?.lintRules?.[rule.id];
+      if (severity === 'off' || (!severity && rule.isEnabledByDefault && !rule.isEnabledByDefault(settings ?? {}))) {
+        continue;
+      }
+      const context: LintRuleContext = {
+        settings: settings ?? {},
+        options: settings?.lintRuleOptions?.[rule.id] ?? {},
+        printWidth: this.printWidth,
+        getKubernetesVersion: (uri, yamlDoc) => this.schemaService.getKubernetesVersion(uri, yamlDoc),
+      };
+      try {
+        validators.push({
+          ruleId: rule.id,
+          validator: rule.create(context),
+          severity: severity ? toDiagnosticSeverity(severity) : undefined,
+        });
+      } catch (err) {
+        this.telemetry?.sendError('yaml.lintRule.error', err);
+      }
+    }
+    return {
+      customTags: settings ? settings.customTags : this.customTags,
+      validators,
+      disabledDiagnostics: Array.isArray(disable)
+        ? disable.flatMap((specifier) => (typeof specifier === 'string' ? parseDisableSpecifiers(specifier) : []))
+        : [],
+    };
+  }
+
   private hasKubernetesModelineSchema(currentYAMLDoc: SingleYAMLDocument): boolean {
     const schemaFromModeline = getSchemaFromModeline(currentYAMLDoc);
     return typeof schemaFromModeline === 'string' && isKubernetesSchemaURI(schemaFromModeline);
@@ -204,7 +322,19 @@ export class YAMLValidation {
       for (const warning of resolvedSchema.warnings) {
         addSchemaProblem(warning.message, warning.code, warning.relatedInformation);
       }
-      const semanticErrors = yamlDocument.validate(textDocument, resolvedSchema.schema);
+      let semanticErrors = yamlDocument.validate(textDocument, resolvedSchema.schema);
+      if (semanticErrors && this.validateIncludes && this.includeValidator) {
+        // the content of the included files is validated instead of the paths
+        const includeNodes = findIncludes(textDocument, yamlDocument).map((include) => include.node);
+        semanticErrors = semanticErrors.filter(
+          (error) =>
+            !includeNodes.some(
+              (node) =>
+                textDocument.offsetAt(error.range.start) === node.range[0] &&
+                textDocument.offsetAt(error.range.end) === node.range[1]
+            )
+        );
+      }
       if (semanticErrors) {
         diagnostics.push(...semanticErrors);
       }
@@ -213,9 +343,126 @@ export class YAMLValidation {
     return diagnostics;
   }
 
-  private runAdditionalValidators(document: TextDocument, yarnDoc: SingleYAMLDocument): Diagnostic[] {
-    return this.validators.flatMap((validator) => validator.validate(document, yarnDoc));
+  /**
+   * @returns the URIs of the validated documents including the given file with an `!include` tag
+   */
+  public getIncludingDocuments(uri: string): string[] {
+    const documents: string[] = [];
+    for (const [documentUri, includedFiles] of this.includedFiles) {
+      if (includedFiles.has(uri)) {
+        documents.push(documentUri);
+      }
+    }
+    return documents;
   }
+
+  private trackIncludedFiles(textDocument: TextDocument, yamlDocuments: SingleYAMLDocument[]): void {
+    const includedFiles = new Set(
+      yamlDocuments.flatMap((yamlDocument) => findIncludes(textDocument, yamlDocument).map((include) => include.uri))
+    );
+    if (includedFiles.size) {
+      this.includedFiles.set(textDocument.uri, includedFiles);
+    } else {
+      this.includedFiles.delete(textDocument.uri);
+    }
+  }
+
+  private async getIncludeDiagnostics(textDocument: TextDocument, yamlDocument: SingleYAMLDocument): Promise<Diagnostic[]> {
+    if (!this.includeValidator) {
+      return [];
+    }
+
+    let schema: JSONSchema;
+    if (this.validateIncludes) {
+      const resolvedSchema = await this.schemaService.getSchemaForResource(textDocument.uri, yamlDocument);
+      if (resolvedSchema && !resolvedSchema.errors.length) {
+        schema = resolvedSchema.schema;
+      }
+    }
+    return this.includeValidator.validate(textDocument, yamlDocument, schema);
+  }
+
+  /**
+   * Run the validators of the lint rules. The diagnostics carry the ID of their rule in their `rule` data, for their severity
+   * to be published as is, and take the severity configured for their rule, if any.
+   */
+  private runAdditionalValidators(
+    validators: LintRuleValidator[],
+    document: TextDocument,
+    yarnDoc: SingleYAMLDocument,
+    documents: SingleYAMLDocument[]
+  ): Diagnostic[] {
+    return validators.flatMap(({ ruleId, validator, severity }) => {
+      let diagnostics: Diagnostic[];
+      try {
+        diagnostics = validator.validate(document, yarnDoc, documents);
+      } catch (err) {
+        this.telemetry?.sendError('yaml.lintRule.error', err);
+        return [];
+      }
+      for (const diagnostic of diagnostics) {
+        if (severity) {
+          diagnostic.severity = severity;
+        }
+        diagnostic.data = { ...(typeof diagnostic.data === 'object' ? diagnostic.data : {}), rule: ruleId };
+      }
+      return diagnostics;
+    });
+  }
+}
+
+/**
+ * Override the settings with the ones of a project configuration, ignoring the values of the wrong type
+ */
+function getProjectLanguageSettings(settings: LanguageSettings, projectConfig: ProjectConfig): LanguageSettings {
+  const { customTags, keyOrdering, style, lint } = projectConfig.settings;
+  const isFlowStyle = (value: unknown): value is 'allow' | 'forbid' => value === 'allow' || value === 'forbid';
+  return {
+    ...settings,
+    customTags: Array.isArray(customTags) ? customTags.filter((tag) => typeof tag === 'string') : settings.customTags,
+    keyOrdering: typeof keyOrdering === 'boolean' ? keyOrdering : settings.keyOrdering,
+    flowMapping: isFlowStyle(style?.flowMapping) ? style.flowMapping : settings.flowMapping,
+    flowSequence: isFlowStyle(style?.flowSequence) ? style.flowSequence : settings.flowSequence,
+    lintRules: { ...settings.lintRules, ...getLintRuleSeverities(lint?.rules) },
+    lintRuleOptions: { ...settings.lintRuleOptions, ...getLintRuleOptions(lint?.rules) },
+  };
+}
+
+/**
+ * @returns the valid severities of a `lint.rules` setting, given alone or as the `severity` of the configuration of a rule
+ */
+export function getLintRuleSeverities(rules: unknown): { [ruleId: string]: LintRuleSeverity } {
+  const severities: { [ruleId: string]: LintRuleSeverity } = {};
+  if (rules && typeof rules === 'object') {
+    for (const [ruleId, rule] of Object.entries(rules)) {
+      const severity = isLintRuleConfig(rule) ? rule.severity : rule;
+      if (isLintRuleSeverity(severity)) {
+        severities[ruleId] = severity;
+      }
+    }
+  }
+  return severities;
+}
+
+/**
+ * @returns the options of the rules configured with a mapping in a `lint.rules` setting
+ */
+export function getLintRuleOptions(rules: unknown): { [ruleId: string]: { [option: string]: unknown } } {
+  const options: { [ruleId: string]: { [option: string]: unknown } } = {};
+  if (rules && typeof rules === 'object') {
+    for (const [ruleId, rule] of Object.entries(rules)) {
+      if (isLintRuleConfig(rule)) {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { severity, ...ruleOptions } = rule;
+        options[ruleId] = ruleOptions;
+      }
+    }
+  }
+  return options;
+}
+
+function isLintRuleConfig(rule: unknown): rule is LintRuleConfig {
+  return !!rule && typeof rule === 'object' && !Array.isArray(rule);
 }
 
 function isYAMLDocDiagnostic(diagnostic: Diagnostic | YAMLDocDiagnostic): diagnostic is YAMLDocDiagnostic {
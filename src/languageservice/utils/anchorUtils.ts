@@ -0,0 +1,166 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Position } from 'vscode-languageserver-types';
+import { Range } from 'vscode-languageserver-types';
+import type { Node } from 'yaml';
+import { CST, isAlias, isCollection, isScalar, visit } from 'yaml';
+import { yamlDocumentsCache } from '../parser/yaml-documents';
+import type { SingleYAMLDocument } from '../parser/yamlParser07';
+import { matchOffsetToDocument } from './arrUtils';
+import { TextBuffer } from './textBuffer';
+import { isCollectionItem } from './yamlAstUtils';
+
+export interface AnchorTarget {
+  /**
+   * The node holding the anchor
+   */
+  anchorNode: Node;
+  /**
+   * The anchor or alias token under the cursor
+   */
+  token: CST.SourceToken;
+  yamlDoc: SingleYAMLDocument;
+}
+
+/**
+ * Find the anchor referenced by the anchor or alias at the given position.
+ */
+export function findAnchorTarget(document: TextDocument, position: Position): AnchorTarget | null {
+  const yamlDocuments = yamlDocumentsCache.getYamlDocument(document);
+  const offset = document.offsetAt(position);
+  const yamlDoc = matchOffsetToDocument(offset, yamlDocuments);
+  if (!yamlDoc) {
+    return null;
+  }
+
+  const [node] = yamlDoc.getNodeFromPosition(offset, new TextBuffer(document));
+  if (!node) {
+    return findTargetByToken(yamlDoc, offset);
+  }
+
+  if (isAlias(node) && node.srcToken && isOffsetInsideToken(node.srcToken as CST.SourceToken, offset)) {
+    const anchorNode = node.resolve(yamlDoc.internalDocument);
+    if (!anchorNode) {
+      return null;
+    }
+    return { anchorNode, token: node.srcToken as CST.SourceToken, yamlDoc };
+  }
+
+  if ((isCollection(node) || isScalar(node)) && node.anchor) {
+    const anchorToken = findAnchorToken(yamlDoc, node);
+    if (anchorToken && isOffsetInsideToken(anchorToken, offset)) {
+      return { anchorNode: node, token: anchorToken, yamlDoc };
+    }
+  }
+
+  return findTargetByToken(yamlDoc, offset);
+}
+
+function findTargetByToken(yamlDoc: SingleYAMLDocument, offset: number): AnchorTarget | null {
+  let target: AnchorTarget;
+  visit(yamlDoc.internalDocument, (key, node) => {
+    if (isAlias(node) && node.srcToken && isOffsetInsideToken(node.srcToken as CST.SourceToken, offset)) {
+      const anchorNode = node.resolve(yamlDoc.internalDocument);
+      if (anchorNode) {
+        target = { anchorNode, token: node.srcToken as CST.SourceToken, yamlDoc };
+        return visit.BREAK;
+      }
+    }
+    if ((isCollection(node) || isScalar(node)) && node.anchor) {
+      const anchorToken = findAnchorToken(yamlDoc, node);
+      if (anchorToken && isOffsetInsideToken(anchorToken, offset)) {
+        target = { anchorNode: node, token: anchorToken, yamlDoc };
+        return visit.BREAK;
+      }
+    }
+  });
+
+  return target ?? null;
+}
+
+/**
+ * Find the `&anchor` token of a node.
+ */
+export function findAnchorToken(yamlDoc: SingleYAMLDocument, node: Node): CST.SourceToken | undefined {
+  const parent = yamlDoc.getParent(node);
+  const candidates: CST.SourceToken[] = [];
+  if (parent && parent.srcToken) {
+    candidates.push(parent.srcToken as CST.SourceToken);
+  }
+  if (node.srcToken) {
+    candidates.push(node.srcToken as CST.SourceToken);
+  }
+
+  for (const token of candidates) {
+    const anchor = getAnchorFromToken(token, node);
+    if (anchor) {
+      return anchor;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the `*alias` tokens resolving to the given anchor node, including the ones used in `<<` merge keys.
+ */
+export function findAliasTokens(yamlDoc: SingleYAMLDocument, anchorNode: Node): CST.SourceToken[] {
+  const tokens: CST.SourceToken[] = [];
+  visit(yamlDoc.internalDocument, (key, node) => {
+    if (isAlias(node) && node.srcToken && node.resolve(yamlDoc.internalDocument) === anchorNode) {
+      tokens.push(node.srcToken as CST.SourceToken);
+    }
+  });
+  return tokens;
+}
+
+/**
+ * @returns the range of the anchor or alias name, without the leading `&` or `*`
+ */
+export function getAnchorNameRange(document: TextDocument, token: CST.SourceToken): Range {
+  const startOffset = token.offset + 1;
+  const endOffset = token.offset + token.source.length;
+  return Range.create(document.positionAt(startOffset), document.positionAt(endOffset));
+}
+
+function getAnchorFromToken(token: CST.SourceToken, node: Node): CST.SourceToken | undefined {
+  if (isCollectionItem(token)) {
+    return getAnchorFromCollectionItem(token);
+  } else if (CST.isCollection(token)) {
+    const collection = token as unknown as { items?: CST.CollectionItem[] };
+    for (const item of collection.items ?? []) {
+      if (item.value !== node.srcToken) {
+        continue;
+      }
+      const anchor = getAnchorFromCollectionItem(item);
+      if (anchor) {
+        return anchor;
+      }
+    }
+  }
+  return undefined;
+}
+
+function getAnchorFromCollectionItem(token: CST.CollectionItem): CST.SourceToken | undefined {
+  for (const t of token.start) {
+    if (t.type === 'anchor') {
+      return t;
+    }
+  }
+  if (token.sep && Array.isArray(token.sep)) {
+    for (const t of token.sep) {
+      if (t.type === 'anchor') {
+        return t;
+      }
+    }
+  }
+  return undefined;
+}
+
+function isOffsetInsideToken(token: CST.SourceToken, offset: number): boolean {
+  return offset >= token.offset && offset <= token.offset + token.source.length;
+}
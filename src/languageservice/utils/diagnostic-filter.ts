@@ -3,6 +3,11 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+/**
+ * Prefix of the specifiers which only match the code of the diagnostics, such as `code:typeMismatch`
+ */
+export const CODE_SPECIFIER_PREFIX = 'code:';
+
 /**
  * Pattern that matches a `# yaml-language-server-disable` comment.
  *
@@ -11,11 +16,32 @@
  *   - `# yaml-language-server-disable` - suppress ALL diagnostics on the next line
  *   - `# yaml-language-server-disable Incorrect type` - suppress diagnostics whose message contains "Incorrect type"
  *   - `# yaml-language-server-disable Incorrect type, not accepted` - suppress diagnostics matching any of the substrings
+ *   - `# yaml-language-server-disable typeMismatch` - suppress diagnostics whose code is `typeMismatch`
+ *   - `# yaml-language-server-disable code:comments` - suppress diagnostics whose code is `comments`, whatever their message
  *
  * Capture group 1 (optional) contains the comma-separated list of message
- * substrings to match against. If absent, all diagnostics are suppressed.
+ * substrings or diagnostic codes to match against. If absent, all diagnostics are suppressed.
+ */
+export const YAML_DISABLE_PATTERN = /^\s*#\s*yaml-language-server-disable(?![\w-])(.*)$/;
+
+/**
+ * Pattern that matches a `# yaml-language-server-disable-file` comment, which suppresses
+ * the diagnostics of the whole file, anywhere it is. Capture group 1 contains the specifiers,
+ * as for `# yaml-language-server-disable`.
+ */
+export const YAML_DISABLE_FILE_PATTERN = /^\s*#\s*yaml-language-server-disable-file(?![\w-])(.*)$/;
+
+/**
+ * Pattern that matches a `# yaml-language-server-disable-start` comment, which suppresses
+ * the diagnostics of the lines up to the next `# yaml-language-server-disable-end` comment,
+ * or up to the end of the file. Capture group 1 contains the specifiers, as for `# yaml-language-server-disable`.
+ */
+export const YAML_DISABLE_START_PATTERN = /^\s*#\s*yaml-language-server-disable-start(?![\w-])(.*)$/;
+
+/**
+ * Pattern that matches a `# yaml-language-server-disable-end` comment, closing the last open region.
  */
-export const YAML_DISABLE_PATTERN = /^\s*#\s*yaml-language-server-disable\b(.*)$/;
+export const YAML_DISABLE_END_PATTERN = /^\s*#\s*yaml-language-server-disable-end(?![\w-])/;
 
 /**
  * A callback that returns the text content of a given zero-based line number,
@@ -23,9 +49,28 @@ export const YAML_DISABLE_PATTERN = /^\s*#\s*yaml-language-server-disable\b(.*)$
  */
 export type GetLineText = (line: number) => string | undefined;
 
+/**
+ * The lines whose diagnostics are suppressed by a `# yaml-language-server-disable-file` comment
+ * or by a `# yaml-language-server-disable-start` / `# yaml-language-server-disable-end` region.
+ */
+export interface SuppressedRegion {
+  /**
+   * First zero-based line of the region
+   */
+  startLine: number;
+  /**
+   * Last zero-based line of the region, `Infinity` when the region is not closed
+   */
+  endLine: number;
+  /**
+   * Parsed specifiers (empty means suppress all)
+   */
+  specifiers: string[];
+}
+
 /**
  * Parse the text after `yaml-language-server-disable` into an array of trimmed,
- * lower-cased message substrings.  Returns an empty array when no
+ * lower-cased message substrings or codes.  Returns an empty array when no
  * specifiers are provided (meaning "suppress all").
  */
 export function parseDisableSpecifiers(raw: string): string[] {
@@ -42,43 +87,100 @@ export function parseDisableSpecifiers(raw: string): string[] {
 /**
  * Determine whether a diagnostic should be suppressed based on the
  * specifiers from a `# yaml-language-server-disable` comment.
+ * A specifier with the {@link CODE_SPECIFIER_PREFIX} only matches the code.
  *
  * @param specifiers - Parsed specifiers (empty means suppress all).
  * @param diagnosticMessage - The diagnostic's message text.
+ * @param diagnosticCode - The diagnostic's code, matched as a whole (case-insensitive).
  * @returns `true` if the diagnostic should be suppressed.
  */
-export function shouldSuppressDiagnostic(specifiers: string[], diagnosticMessage: string): boolean {
+export function shouldSuppressDiagnostic(
+  specifiers: string[],
+  diagnosticMessage: string,
+  diagnosticCode?: string | number
+): boolean {
   if (specifiers.length === 0) {
     return true;
   }
   const lowerMessage = diagnosticMessage.toLowerCase();
-  return specifiers.some((spec) => lowerMessage.includes(spec));
+  const lowerCode = diagnosticCode === undefined || diagnosticCode === null ? undefined : String(diagnosticCode).toLowerCase();
+  return specifiers.some((spec) => {
+    if (spec.startsWith(CODE_SPECIFIER_PREFIX)) {
+      return lowerCode === spec.slice(CODE_SPECIFIER_PREFIX.length).trim();
+    }
+    return lowerMessage.includes(spec) || lowerCode === spec;
+  });
+}
+
+/**
+ * Collect the regions of the `# yaml-language-server-disable-file` comments and of the
+ * `# yaml-language-server-disable-start` / `# yaml-language-server-disable-end` pairs,
+ * which may be nested.
+ *
+ * @param getLineText - Returns the text of a document line by its zero-based index,
+ *   or `undefined` if the line is out of range.
+ */
+export function getSuppressedRegions(getLineText: GetLineText): SuppressedRegion[] {
+  const regions: SuppressedRegion[] = [];
+  const openRegions: SuppressedRegion[] = [];
+  for (let line = 0, text = getLineText(line); text !== undefined; text = getLineText(++line)) {
+    const fileMatch = YAML_DISABLE_FILE_PATTERN.exec(text);
+    if (fileMatch) {
+      regions.push({ startLine: 0, endLine: Infinity, specifiers: parseDisableSpecifiers(fileMatch[1]) });
+      continue;
+    }
+    const startMatch = YAML_DISABLE_START_PATTERN.exec(text);
+    if (startMatch) {
+      const region = { startLine: line + 1, endLine: Infinity, specifiers: parseDisableSpecifiers(startMatch[1]) };
+      regions.push(region);
+      openRegions.push(region);
+    } else if (YAML_DISABLE_END_PATTERN.test(text) && openRegions.length > 0) {
+      openRegions.pop().endLine = line - 1;
+    }
+  }
+  return regions;
 }
 
 /**
  * Filters an array of diagnostics, removing any whose starting line is
- * immediately preceded by a `# yaml-language-server-disable` comment.
+ * immediately preceded by a `# yaml-language-server-disable` comment, is inside
+ * a `# yaml-language-server-disable-start` / `# yaml-language-server-disable-end` region,
+ * or is in a file with a `# yaml-language-server-disable-file` comment.
  *
- * When the comment includes one or more comma-separated message substrings,
+ * When the comment includes one or more comma-separated message substrings or codes,
  * only diagnostics whose message contains at least one of those substrings
- * (case-insensitive) are suppressed.  Without specifiers, all diagnostics
- * on the next line are suppressed.
+ * or whose code is one of those codes (case-insensitive) are suppressed.  Without specifiers, all diagnostics
+ * of the next line, of the region or of the file are suppressed.
  *
  * @param diagnostics - The diagnostics to filter.
  * @param getStartLine - Extracts the zero-based starting line number from a diagnostic.
  * @param getMessage - Extracts the message string from a diagnostic.
  * @param getLineText - Returns the text of a document line by its zero-based index,
  *   or `undefined` if the line is out of range.
+ * @param getCode - Extracts the code from a diagnostic, if any.
  * @returns A new array containing only the diagnostics that are not suppressed.
  */
 export function filterSuppressedDiagnostics<T>(
   diagnostics: T[],
   getStartLine: (diag: T) => number,
   getMessage: (diag: T) => string,
-  getLineText: GetLineText
+  getLineText: GetLineText,
+  getCode?: (diag: T) => string | number | undefined
 ): T[] {
+  if (diagnostics.length === 0) {
+    return [];
+  }
+  const regions = getSuppressedRegions(getLineText);
   return diagnostics.filter((diag) => {
     const line = getStartLine(diag);
+    const message = getMessage(diag);
+    const code = getCode?.(diag);
+    const isInSuppressedRegion = regions.some(
+      (region) => line >= region.startLine && line <= region.endLine && shouldSuppressDiagnostic(region.specifiers, message, code)
+    );
+    if (isInSuppressedRegion) {
+      return false;
+    }
     if (line === 0) {
       return true;
     }
@@ -91,6 +193,6 @@ export function filterSuppressedDiagnostics<T>(
       return true;
     }
     const specifiers = parseDisableSpecifiers(match[1]);
-    return !shouldSuppressDiagnostic(specifiers, getMessage(diag));
+    return !shouldSuppressDiagnostic(specifiers, message, code);
   });
 }
@@ -0,0 +1,81 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range } from 'vscode-languageserver-types';
+import type { Scalar } from 'yaml';
+import { isScalar, visit } from 'yaml';
+import { URI, Utils } from 'vscode-uri';
+import type { SingleYAMLDocument } from '../parser/yamlParser07';
+
+export const INCLUDE_TAG = '!include';
+
+export interface IncludeReference {
+  /**
+   * The `!include` scalar
+   */
+  node: Scalar;
+  /**
+   * The path as written in the document
+   */
+  path: string;
+  /**
+   * The URI of the included file, resolved relative to the including document
+   */
+  uri: string;
+  /**
+   * The range of the path, without quotes
+   */
+  range: Range;
+}
+
+/**
+ * Find the `!include` tags of a YAML document.
+ */
+export function findIncludes(document: TextDocument, yamlDoc: SingleYAMLDocument): IncludeReference[] {
+  const includes: IncludeReference[] = [];
+  visit(yamlDoc.internalDocument, {
+    Scalar(key, node) {
+      const include = toIncludeReference(document, node);
+      if (include) {
+        includes.push(include);
+      }
+    },
+  });
+  return includes;
+}
+
+/**
+ * @returns the `!include` reference of the given node, or `undefined` if the node is not an `!include` scalar
+ */
+export function toIncludeReference(document: TextDocument, node: unknown): IncludeReference | undefined {
+  if (!isScalar(node) || node.tag !== INCLUDE_TAG || typeof node.value !== 'string' || !node.value.trim() || !node.range) {
+    return undefined;
+  }
+  const quoted = node.type === 'QUOTE_DOUBLE' || node.type === 'QUOTE_SINGLE';
+  const start = node.range[0] + (quoted ? 1 : 0);
+  const end = node.range[1] - (quoted ? 1 : 0);
+  const path = node.value.trim();
+  return {
+    node,
+    path,
+    uri: resolveIncludeUri(document.uri, path),
+    range: Range.create(document.positionAt(start), document.positionAt(end)),
+  };
+}
+
+/**
+ * Resolve the path of an `!include` tag against the URI of the document containing it.
+ * Absolute paths and URIs are kept as they are.
+ */
+export function resolveIncludeUri(documentUri: string, path: string): string {
+  if (/^[a-z]:[\\/]/i.test(path) || path.startsWith('/') || path.startsWith('\\')) {
+    return URI.file(path).toString();
+  }
+  if (/^[a-z][\w+.-]+:/i.test(path)) {
+    return URI.parse(path).toString();
+  }
+  return Utils.resolvePath(Utils.dirname(URI.parse(documentUri)), path.replace(/\\/g, '/')).toString();
+}
@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import { Range, TextEdit } from 'vscode-languageserver-types';
+
+/**
+ * Above this number of cells of the diff trace, the changed lines are replaced as a single block
+ */
+const MAX_TRACE_SIZE = 10_000_000;
+
+/**
+ * Compute the line based edits turning the content of a document into the given text.
+ * Each run of changed lines is replaced by one edit, unchanged lines are not part of any edit.
+ */
+export function computeMinimalEdits(document: TextDocument, newText: string): TextEdit[] {
+  const oldLines = splitLines(document.getText());
+  const newLines = splitLines(newText);
+
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const lineOffsets = [0];
+  for (const line of oldLines) {
+    lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length);
+  }
+  const edits: TextEdit[] = [];
+  const addEdit = (oldStart: number, oldStop: number, newStart: number, newStop: number): void => {
+    if (oldStart === oldStop && newStart === newStop) {
+      return;
+    }
+    const range = Range.create(document.positionAt(lineOffsets[oldStart]), document.positionAt(lineOffsets[oldStop]));
+    edits.push(TextEdit.replace(range, newLines.slice(newStart, newStop).join('')));
+  };
+
+  const matches = diffLines(oldLines.slice(start, oldEnd), newLines.slice(start, newEnd));
+  if (!matches) {
+    addEdit(start, oldEnd, start, newEnd);
+    return edits;
+  }
+
+  let oldIndex = start;
+  let newIndex = start;
+  for (const [oldMatch, newMatch] of matches) {
+    addEdit(oldIndex, oldMatch + start, newIndex, newMatch + start);
+    oldIndex = oldMatch + start + 1;
+    newIndex = newMatch + start + 1;
+  }
+  addEdit(oldIndex, oldEnd, newIndex, newEnd);
+  return edits;
+}
+
+/**
+ * Split a text in lines, keeping the line breaks.
+ */
+function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Myers' diff algorithm.
+ * @returns the pairs of indexes of the matching lines, in ascending order, or `undefined` if the texts differ too much
+ */
+function diffLines(a: string[], b: string[]): [number, number][] | undefined {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if ((d + 1) * v.length > MAX_TRACE_SIZE) {
+      return undefined;
+    }
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        return backtrack(trace, offset, a.length, b.length);
+      }
+    }
+  }
+  return [];
+}
+
+function backtrack(trace: Int32Array[], offset: number, x: number, y: number): [number, number][] {
+  const matches: [number, number][] = [];
+  for (let d = trace.length - 1; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = v[offset + previousK];
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = previousX;
+    y = previousY;
+  }
+  while (x > 0 && y > 0) {
+    x--;
+    y--;
+    matches.push([x, y]);
+  }
+  return matches.reverse();
+}
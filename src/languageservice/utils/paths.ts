@@ -1,5 +1,5 @@
 import type { WorkspaceFolder, WorkspaceFoldersChangeEvent } from 'vscode-languageserver-protocol';
-import { join, normalize, sep } from 'path';
+import { isAbsolute, join, normalize } from 'path';
 import { URI } from 'vscode-uri';
 
 export const isRelativePath = (path: string): boolean => {
@@ -12,12 +12,11 @@ export const relativeToAbsolutePath = (workspaceFolders: WorkspaceFolder[], work
   for (const folder of workspaceFolders) {
     // If the requested schema URI specifies a workspace root folder
     // Convert it into an absolute path with the appropriate root folder path
-    if (uri.startsWith(folder.name)) {
+    const [firstSegment, ...withoutFolderPrefix] = uri.split(/[\\/]/);
+    if (firstSegment === folder.name) {
       const pathToFolder = URI.parse(folder.uri).fsPath;
-      const withoutFolderPrefix = uri.split(sep);
-      withoutFolderPrefix.shift();
 
-      return URI.file(join(pathToFolder, withoutFolderPrefix.join())).toString();
+      return URI.file(join(pathToFolder, ...withoutFolderPrefix)).toString();
     }
   }
 
@@ -31,6 +30,24 @@ export const relativeToAbsolutePath = (workspaceFolders: WorkspaceFolder[], work
   return normalize(uri);
 };
 
+/**
+ * Resolve a path of the settings to a URI
+ * @param pathOrUri a URI, an absolute path, or a path relative to the workspace, optionally starting with a workspace folder name
+ */
+export const resolveWorkspacePath = (workspaceFolders: WorkspaceFolder[], workspaceRoot: URI, pathOrUri: string): string => {
+  if (isAbsolute(pathOrUri) || /^[a-z]:[\\/]/i.test(pathOrUri)) {
+    return URI.file(pathOrUri).toString();
+  }
+  if (/^[a-z][\w+.-]+:/i.test(pathOrUri)) {
+    return pathOrUri;
+  }
+  return relativeToAbsolutePath(workspaceFolders, workspaceRoot, pathOrUri);
+};
+
+export const isInFolder = (uri: string, folderUri: string): boolean => {
+  return uri.startsWith(folderUri.endsWith('/') ? folderUri : `${folderUri}/`);
+};
+
 export const workspaceFoldersChanged = (
   workspaceFolders: WorkspaceFolder[],
   changedFolders: WorkspaceFoldersChangeEvent
@@ -0,0 +1,195 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { isAbsolute } from 'path';
+import { URI, Utils } from 'vscode-uri';
+import { parse } from 'yaml';
+import type { LintRuleConfig, LintRuleSeverity } from '../services/validation/types';
+import { isInFolder, isRelativePath } from './paths';
+import { isYamllintConfigFile, parseYamllintConfig, YAMLLINT_CONFIG_FILE_NAMES } from './yamllintConfig';
+
+/**
+ * Names of the project configuration files, looked up in the folder of a file and in its parent folders
+ */
+export const PROJECT_CONFIG_FILE_NAMES = ['.yaml-language-server.yaml', '.yaml-language-server.yml'];
+
+/**
+ * Content of a project configuration file, applying to the files of its folder and sub folders.
+ * The keys mirror the `yaml.*` settings of the language server.
+ */
+export interface ProjectSettings {
+  /**
+   * Schema URIs, or paths relative to the folder of the configuration file, mapped to the glob patterns of the files they apply to
+   */
+  schemas?: { [uri: string]: string | string[] };
+  customTags?: string[];
+  keyOrdering?: boolean;
+  style?: {
+    flowMapping?: 'allow' | 'forbid';
+    flowSequence?: 'allow' | 'forbid';
+  };
+  lint?: {
+    rules?: { [ruleId: string]: LintRuleSeverity | LintRuleConfig };
+  };
+  /**
+   * Diagnostics to leave out, matched the same way as the specifiers of the `# yaml-language-server-disable` comments
+   */
+  disable?: string[];
+}
+
+export interface ProjectConfig {
+  /**
+   * URI of the configuration file
+   */
+  uri: string;
+  /**
+   * URI of the folder holding the configuration file
+   */
+  folder: string;
+  settings: ProjectSettings;
+}
+
+/**
+ * Read the content of a file
+ * @throws when the file does not exist
+ */
+export type ProjectFileReader = (uri: string) => Promise<string>;
+
+export function isProjectConfigFile(uri: string): boolean {
+  return PROJECT_CONFIG_FILE_NAMES.includes(Utils.basename(URI.parse(uri))) || isYamllintConfigFile(uri);
+}
+
+/**
+ * Parse a project configuration file, or a yamllint configuration file whose rules become the `lint` settings
+ * @throws Error if the content is not a YAML mapping
+ */
+export function parseProjectConfig(uri: string, content: string): ProjectConfig {
+  const folder = Utils.dirname(URI.parse(uri)).toString();
+  if (isYamllintConfigFile(uri)) {
+    return { uri, folder, settings: { lint: parseYamllintConfig(uri, content) } };
+  }
+  const settings = parse(content) ?? {};
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error(`Invalid project configuration file '${uri}': expected a mapping`);
+  }
+  return { uri, folder, settings };
+}
+
+/**
+ * @returns the URIs of the configuration files which may apply to the resource, from its folder up to the root folder
+ */
+export function getProjectConfigLocations(resource: string): string[] {
+  const locations: string[] = [];
+  let folder = Utils.dirname(URI.parse(resource));
+  for (;;) {
+    locations.push(
+      ...[...PROJECT_CONFIG_FILE_NAMES, ...YAMLLINT_CONFIG_FILE_NAMES].map((name) => Utils.joinPath(folder, name).toString())
+    );
+    const parent = Utils.dirname(folder);
+    if (parent.path === folder.path) {
+      return locations;
+    }
+    folder = parent;
+  }
+}
+
+/**
+ * Read the configuration files applying to the resources
+ * @param loaded the configurations already read, by URI, `undefined` for the files which do not exist or are invalid
+ * @param onError called with the errors of the invalid configuration files
+ * @returns whether new configuration files were read
+ */
+export async function loadProjectConfigs(
+  resources: string[],
+  readFile: ProjectFileReader,
+  loaded: Map<string, ProjectConfig | undefined>,
+  onError?: (error: Error) => void
+): Promise<boolean> {
+  let hasChanges = false;
+  for (const resource of resources) {
+    for (const location of getProjectConfigLocations(resource)) {
+      if (loaded.has(location)) {
+        continue;
+      }
+      let content: string;
+      try {
+        content = await readFile(location);
+      } catch {
+        loaded.set(location, undefined);
+        continue;
+      }
+      try {
+        loaded.set(location, parseProjectConfig(location, content));
+        hasChanges = true;
+      } catch (error) {
+        loaded.set(location, undefined);
+        onError?.(error);
+      }
+    }
+  }
+  return hasChanges;
+}
+
+/**
+ * Find the configurations applying to the resource: the yamllint configuration and the project configuration of the closest
+ * folders holding it, in this order as the project configuration overrides the yamllint one
+ */
+export function findProjectConfigs(projectConfigs: ProjectConfig[] | undefined, resource: string): ProjectConfig[] {
+  const yamllintConfigs = (projectConfigs ?? []).filter((projectConfig) => isYamllintConfigFile(projectConfig.uri));
+  const otherConfigs = (projectConfigs ?? []).filter((projectConfig) => !isYamllintConfigFile(projectConfig.uri));
+  return [findProjectConfig(yamllintConfigs, resource), findProjectConfig(otherConfigs, resource)].filter(
+    (projectConfig) => projectConfig !== undefined
+  );
+}
+
+/**
+ * Find the configuration of the closest folder holding the resource
+ */
+export function findProjectConfig(projectConfigs: ProjectConfig[] | undefined, resource: string): ProjectConfig | undefined {
+  let closest: ProjectConfig | undefined;
+  for (const projectConfig of projectConfigs ?? []) {
+    if (isInFolder(resource, projectConfig.folder) && (!closest || projectConfig.folder.length > closest.folder.length)) {
+      closest = projectConfig;
+    }
+  }
+  return closest;
+}
+
+/**
+ * Resolve a path of a configuration file to a URI, relative paths being relative to the folder of the file
+ */
+export function resolveProjectPath(projectConfig: ProjectConfig, pathOrUri: string): string {
+  if (isAbsolute(pathOrUri) || /^[a-z]:[\\/]/i.test(pathOrUri)) {
+    return URI.file(pathOrUri).toString();
+  }
+  if (!/^[a-z][\w+.-]+:/i.test(pathOrUri) && isRelativePath(pathOrUri)) {
+    return Utils.joinPath(URI.parse(projectConfig.folder), pathOrUri).toString();
+  }
+  // URIs and keywords such as `kubernetes`
+  return pathOrUri;
+}
+
+/**
+ * @returns the schemas of the configuration, with their URI resolved, and the glob patterns of the files they apply to
+ */
+export function getProjectSchemas(projectConfig: ProjectConfig): { uri: string; fileMatch: string[] }[] {
+  const schemas = projectConfig.settings.schemas;
+  if (!schemas || typeof schemas !== 'object') {
+    return [];
+  }
+  return Object.entries(schemas).map(([uri, patterns]) => ({
+    uri: resolveProjectPath(projectConfig, uri),
+    fileMatch: (Array.isArray(patterns) ? patterns : [patterns]).filter((pattern) => typeof pattern === 'string'),
+  }));
+}
+
+/**
+ * Restrict a glob pattern of the configuration file, which matches the files of any folder as the `fileMatch` of the schemas,
+ * to the files of the folder of the configuration file
+ */
+export function toProjectPattern(projectConfig: ProjectConfig, pattern: string): string {
+  const folderPath = URI.parse(projectConfig.folder).path.replace(/\/$/, '');
+  return `${folderPath}/**/${pattern.replace(/^\.?\//, '')}`;
+}
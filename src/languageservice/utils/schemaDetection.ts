@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { JSONDocument } from '../parser/jsonDocument';
+
+/**
+ * Selects a schema for the documents whose root mapping has some keys or values, whatever the name of the file
+ */
+export interface SchemaDetectionRule {
+  /**
+   * URI of the schema
+   */
+  uri: string;
+  /**
+   * Keys the root mapping must all have
+   */
+  keys?: string[];
+  /**
+   * Keys of the root mapping mapped to the regular expression their scalar value must match
+   */
+  values?: { [key: string]: string };
+}
+
+/**
+ * The rules detecting the well-known file formats which are often not named in a way `fileMatch` can catch
+ */
+export const DEFAULT_SCHEMA_DETECTION_RULES: SchemaDetectionRule[] = [
+  { uri: 'https://spec.openapis.org/oas/3.1/schema/2022-10-07', values: { openapi: '^3\\.1(\\.|$)' } },
+  { uri: 'https://spec.openapis.org/oas/3.0/schema/2021-09-28', values: { openapi: '^3\\.0(\\.|$)' } },
+  { uri: 'https://json.schemastore.org/swagger-2.0.json', values: { swagger: '^2\\.0$' } },
+  {
+    uri: 'https://raw.githubusercontent.com/awslabs/goformation/master/schema/cloudformation.schema.json',
+    keys: ['AWSTemplateFormatVersion'],
+  },
+  { uri: 'https://json.schemastore.org/github-workflow.json', keys: ['on', 'jobs'] },
+  { uri: 'https://raw.githubusercontent.com/compose-spec/compose-spec/master/schema/compose-spec.json', keys: ['services'] },
+];
+
+/**
+ * @returns the URIs of the schemas of the rules matching the root mapping of the document
+ */
+export function detectSchemas(rules: SchemaDetectionRule[], doc: JSONDocument): string[] {
+  const root = doc?.root;
+  if (root?.type !== 'object' || rules.length === 0) {
+    return [];
+  }
+  const rootValues = new Map<string, unknown>();
+  for (const property of root.properties) {
+    rootValues.set(property.keyNode.value, property.valueNode?.value);
+  }
+  return rules.filter((rule) => matchesRule(rule, rootValues)).map((rule) => rule.uri);
+}
+
+function matchesRule(rule: SchemaDetectionRule, rootValues: Map<string, unknown>): boolean {
+  const keys = Array.isArray(rule.keys) ? rule.keys : [];
+  const values = rule.values && typeof rule.values === 'object' ? Object.entries(rule.values) : [];
+  if (keys.length === 0 && values.length === 0) {
+    return false;
+  }
+  if (!keys.every((key) => rootValues.has(key))) {
+    return false;
+  }
+  return values.every(([key, pattern]) => {
+    const value = rootValues.get(key);
+    if (value === undefined || value === null || typeof value === 'object') {
+      return false;
+    }
+    try {
+      return new RegExp(pattern).test(String(value));
+    } catch {
+      return false;
+    }
+  });
+}
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { URI, Utils } from 'vscode-uri';
+import { isInFolder } from './paths';
+
+/**
+ * Schema of all the Kubernetes builtin resources, at the root of a pack
+ */
+export const SCHEMA_PACK_KUBERNETES_SCHEMA = 'all.json';
+/**
+ * Folder of a pack holding the CRD schemas, with the `<group>/<kind>_<version>.json` layout of the CRD catalog
+ */
+export const SCHEMA_PACK_CRD_DIRECTORY = 'crds';
+
+/**
+ * A local copy of the Kubernetes schemas of a version, such as a `<version>-standalone-strict` folder of
+ * kubernetes-json-schema, with the CRD schemas in its `crds` folder.
+ */
+export interface SchemaPack {
+  /**
+   * URI of the folder of the pack
+   */
+  uri: string;
+  /**
+   * URIs of the workspace folders using the pack, all of them when empty
+   */
+  folders: string[];
+}
+
+/**
+ * Extract a schema pack archive
+ * @param uri the URI of a `.tar`, `.tar.gz` or `.tgz` file
+ * @returns the URI of the folder holding the content of the archive
+ */
+export type SchemaPackArchiveExtractor = (uri: string) => Promise<string>;
+
+export function isSchemaPackArchive(path: string): boolean {
+  return /\.(tar|tar\.gz|tgz)$/i.test(path);
+}
+
+/**
+ * Find the pack of the closest folder holding the resource, or else the first pack used by all the folders
+ */
+export function findSchemaPack(schemaPacks: SchemaPack[] | undefined, resource: string): SchemaPack | undefined {
+  let closest: SchemaPack | undefined;
+  let closestFolderLength = -1;
+  for (const schemaPack of schemaPacks ?? []) {
+    if (schemaPack.folders.length === 0) {
+      if (closestFolderLength < 0 && !closest) {
+        closest = schemaPack;
+      }
+      continue;
+    }
+    for (const folder of schemaPack.folders) {
+      if (isInFolder(resource, folder) && folder.length > closestFolderLength) {
+        closest = schemaPack;
+        closestFolderLength = folder.length;
+      }
+    }
+  }
+  return closest;
+}
+
+export function getSchemaPackKubernetesSchema(schemaPack: SchemaPack): string {
+  return Utils.joinPath(URI.parse(schemaPack.uri), SCHEMA_PACK_KUBERNETES_SCHEMA).toString();
+}
+
+export function getSchemaPackCRDCatalog(schemaPack: SchemaPack): string {
+  return Utils.joinPath(URI.parse(schemaPack.uri), SCHEMA_PACK_CRD_DIRECTORY).toString();
+}
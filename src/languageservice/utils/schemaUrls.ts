@@ -4,7 +4,7 @@ import * as path from 'path';
 import type { Telemetry } from '../telemetry';
 import type { JSONSchema, JSONSchemaRef } from '../jsonSchema';
 import { isBoolean } from './objects';
-import { isRelativePath, relativeToAbsolutePath } from './paths';
+import { isInFolder, isRelativePath, relativeToAbsolutePath } from './paths';
 
 export const DEFAULT_KUBERNETES_SCHEMA_VERSION = 'v1.34.1';
 export const JSON_SCHEMASTORE_URL = 'https://www.schemastore.org/api/json/catalog.json';
@@ -14,6 +14,42 @@ export const EMPTY_SCHEMA_URL = 'vscode://schemas/empty';
 const KUBERNETES_SCHEMA_URL_PATTERN =
   /^https:\/\/raw\.githubusercontent\.com\/yannh\/kubernetes-json-schema\/master\/((?:v(\d+)\.(\d+)\.(\d+))-standalone-strict)\/all\.json$/;
 
+/**
+ * The Kubernetes version of the files of a workspace folder
+ */
+export interface KubernetesFolderVersion {
+  folder: string;
+  version: string;
+}
+
+/**
+ * @returns the version in the `vX.Y.Z` form of the kubernetes-json-schema folders, or `undefined` when it is not a version
+ */
+export function normalizeKubernetesVersion(version: unknown): string | undefined {
+  const match = typeof version === 'string' ? /^v?(\d+)\.(\d+)\.(\d+)$/i.exec(version.trim()) : undefined;
+  return match ? `v${match[1]}.${match[2]}.${match[3]}` : undefined;
+}
+
+export function getKubernetesSchemaUrl(kubernetesVersion?: string): string {
+  return `https://raw.githubusercontent.com/yannh/kubernetes-json-schema/master/${kubernetesVersion ?? DEFAULT_KUBERNETES_SCHEMA_VERSION}-standalone-strict/all.json`;
+}
+
+/**
+ * @returns the version of the closest folder holding the resource
+ */
+export function findKubernetesFolderVersion(
+  folderVersions: KubernetesFolderVersion[] | undefined,
+  resource: string
+): string | undefined {
+  let closest: KubernetesFolderVersion | undefined;
+  for (const folderVersion of folderVersions ?? []) {
+    if (isInFolder(resource, folderVersion.folder) && folderVersion.folder.length > (closest?.folder.length ?? -1)) {
+      closest = folderVersion;
+    }
+  }
+  return closest?.version;
+}
+
 export function isKubernetes(uri: string): boolean {
   if (uri.trim().toLowerCase() === 'kubernetes') return true;
   return KUBERNETES_SCHEMA_URL_PATTERN.test(uri);
@@ -30,7 +66,7 @@ export function checkSchemaURI(
   if (k8sKeywordUsed || KUBERNETES_SCHEMA_URL_PATTERN.test(uri)) {
     telemetry.send({ name: 'yaml.schema.configured', properties: { kubernetes: true } });
     if (k8sKeywordUsed) {
-      return `https://raw.githubusercontent.com/yannh/kubernetes-json-schema/master/${kubernetesVersion ?? DEFAULT_KUBERNETES_SCHEMA_VERSION}-standalone-strict/all.json`;
+      return getKubernetesSchemaUrl(kubernetesVersion);
     } else {
       return uri;
     }
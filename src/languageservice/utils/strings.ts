@@ -120,3 +120,14 @@ export function extendedRegExp(pattern: string): RegExp | undefined {
     }
   }
 }
+
+/**
+ * Compute a 32-bit hash of the string, used to detect content changes.
+ */
+export function stringHash(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash + str.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
@@ -0,0 +1,105 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { URI, Utils } from 'vscode-uri';
+import { parse } from 'yaml';
+import type { LintRuleConfig, LintRuleSeverity } from '../services/validation/types';
+
+/**
+ * Names of the yamllint configuration files, looked up along the project configuration files
+ */
+export const YAMLLINT_CONFIG_FILE_NAMES = ['.yamllint', '.yamllint.yaml', '.yamllint.yml'];
+
+type YamllintRuleConfig = 'enable' | 'disable' | { [option: string]: unknown };
+
+// the yamllint rules which have a lint rule of the same ID
+const YAMLLINT_RULE_IDS = [
+  'comments',
+  'document-end',
+  'document-start',
+  'empty-lines',
+  'indentation',
+  'key-ordering',
+  'line-length',
+  'octal-values',
+  'quoted-strings',
+  'trailing-spaces',
+  'truthy',
+];
+
+// the rules of the presets with their options, without `key-ordering` which would override the `yaml.keyOrdering` setting
+const YAMLLINT_PRESETS: { [preset: string]: { [ruleId: string]: YamllintRuleConfig } } = {
+  default: {
+    comments: { level: 'warning' },
+    'document-end': 'disable',
+    'document-start': { level: 'warning' },
+    'empty-lines': 'enable',
+    indentation: 'enable',
+    'line-length': 'enable',
+    'octal-values': 'disable',
+    'quoted-strings': 'disable',
+    'trailing-spaces': 'enable',
+    truthy: { level: 'warning' },
+  },
+  relaxed: {
+    comments: 'disable',
+    'document-end': 'disable',
+    'document-start': 'disable',
+    'empty-lines': { level: 'warning' },
+    indentation: { level: 'warning', 'indent-sequences': 'consistent' },
+    'line-length': { level: 'warning', 'allow-non-breakable-inline-mappings': true },
+    'octal-values': 'disable',
+    'quoted-strings': 'disable',
+    'trailing-spaces': 'enable',
+    truthy: 'disable',
+  },
+};
+
+export function isYamllintConfigFile(uri: string): boolean {
+  return YAMLLINT_CONFIG_FILE_NAMES.includes(Utils.basename(URI.parse(uri)));
+}
+
+/**
+ * Convert a yamllint configuration to lint rules. The `default` and `relaxed` presets can be extended,
+ * the rules without a lint rule of the same ID and the `ignore` patterns are left out.
+ * @throws Error if the content is not a YAML mapping
+ */
+export function parseYamllintConfig(uri: string, content: string): { rules: { [ruleId: string]: LintRuleConfig } } {
+  const config = parse(content) ?? {};
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error(`Invalid yamllint configuration file '${uri}': expected a mapping`);
+  }
+  const rules: { [ruleId: string]: LintRuleConfig } = {};
+  const preset = typeof config.extends === 'string' ? YAMLLINT_PRESETS[config.extends] : undefined;
+  for (const [ruleId, ruleConfig] of Object.entries(preset ?? {})) {
+    rules[ruleId] = toLintRuleConfig(ruleConfig);
+  }
+  if (config.rules && typeof config.rules === 'object') {
+    for (const [ruleId, ruleConfig] of Object.entries<YamllintRuleConfig>(config.rules)) {
+      if (!YAMLLINT_RULE_IDS.includes(ruleId)) {
+        continue;
+      }
+      const extended = preset?.[ruleId];
+      rules[ruleId] =
+        typeof ruleConfig === 'object' && ruleConfig && typeof extended === 'object'
+          ? toLintRuleConfig({ ...extended, ...ruleConfig })
+          : toLintRuleConfig(ruleConfig);
+    }
+  }
+  return { rules };
+}
+
+function toLintRuleConfig(ruleConfig: YamllintRuleConfig): LintRuleConfig {
+  if (ruleConfig === 'disable') {
+    return { severity: 'off' };
+  }
+  if (!ruleConfig || typeof ruleConfig !== 'object') {
+    return { severity: 'error' };
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { level, ignore, 'ignore-from-file': ignoreFromFile, ...options } = ruleConfig;
+  const severity: LintRuleSeverity = level === 'warning' ? 'warning' : 'error';
+  return { ...options, severity };
+}
@@ -6,6 +6,8 @@
 
 import type { CustomSchemaProvider, SchemaAdditions, SchemaDeletions, SchemaDeletionsAll } from './services/yamlSchemaService';
 import { YAMLSchemaService } from './services/yamlSchemaService';
+import type { SchemaDependencyEdge } from './services/schemaDependencyGraph';
+import type { LintRule, LintRuleSeverity } from './services/validation/types';
 import type {
   Position,
   CodeAction,
@@ -22,6 +24,11 @@ import type {
   SelectionRange,
   Range,
   WorkspaceEdit,
+  Location,
+  DocumentHighlight,
+  SemanticTokens,
+  InlayHint,
+  SignatureHelp,
 } from 'vscode-languageserver-types';
 import type { JSONSchema } from './jsonSchema';
 import { YAMLDocumentSymbols } from './services/documentSymbols';
@@ -38,6 +45,9 @@ import type {
   DefinitionParams,
   PrepareRenameParams,
   RenameParams,
+  ReferenceParams,
+  DocumentHighlightParams,
+  SignatureHelpContext,
 } from 'vscode-languageserver';
 import type { TextDocument } from 'vscode-languageserver-textdocument';
 import { getFoldingRanges } from './services/yamlFolding';
@@ -54,12 +64,34 @@ import { JSONSchemaSelection } from '../languageserver/handlers/schemaSelectionH
 import { YamlDefinition } from './services/yamlDefinition';
 import { getSelectionRanges } from './services/yamlSelectionRanges';
 import { YamlRename } from './services/yamlRename';
+import { YamlReferences } from './services/yamlReferences';
+import { YamlSemanticTokens } from './services/yamlSemanticTokens';
+import { YamlInlayHints } from './services/yamlInlayHints';
+import { YamlSignatureHelp } from './services/yamlSignatureHelp';
+import type { SchemaAtPosition } from './services/yamlSchemaAtPosition';
+import { YamlSchemaAtPosition } from './services/yamlSchemaAtPosition';
+import { getCustomResourceSchemas } from './services/k8sSchemaUtil';
+import type { ProjectConfig } from './utils/projectConfig';
+import type { SchemaDetectionRule } from './utils/schemaDetection';
+
+export type {
+  AdditionalValidator,
+  LintRule,
+  LintRuleConfig,
+  LintRuleContext,
+  LintRuleSeverity,
+} from './services/validation/types';
+export { SchemaProblemCode } from './jsonLanguageTypes';
 
 export enum SchemaPriority {
   SchemaStore = 1,
   SchemaAssociation = 2,
-  Settings = 3,
-  SchemaDetectionDisabled = 4,
+  /**
+   * The schemas selected by the content of the documents
+   */
+  ContentDetection = 3,
+  Settings = 4,
+  SchemaDetectionDisabled = 5,
 }
 
 export interface SchemasSettings {
@@ -70,6 +102,10 @@ export interface SchemasSettings {
   name?: string;
   description?: string;
   versions?: SchemaVersions;
+  /**
+   * URI of the folder the files matched by `fileMatch` must be in
+   */
+  folderUri?: string;
 }
 
 export interface LanguageSettings {
@@ -121,10 +157,40 @@ export interface LanguageSettings {
    */
   keyOrdering?: boolean;
 
+  /**
+   * If set provide the code actions inserting the comments which suppress a diagnostic.
+   */
+  suppressionCodeActions?: boolean;
+
+  /**
+   * Severity of the lint rules by rule ID, overriding the severity of their diagnostics or disabling them with `off`
+   */
+  lintRules?: { [ruleId: string]: LintRuleSeverity };
+
+  /**
+   * Options of the lint rules by rule ID, such as the `max` length of the `line-length` rule
+   */
+  lintRuleOptions?: { [ruleId: string]: { [option: string]: unknown } };
+
   /**
    * Show schema source URI in hover popups. Default is true.
    */
   hoverSchemaSource?: boolean;
+
+  /**
+   * Validate the content of `!include` files against the subschema at the include site.
+   */
+  validateIncludes?: boolean;
+
+  /**
+   * Configurations of the `.yaml-language-server.yaml` and `.yamllint` files, overriding the validation settings for the files of their folders
+   */
+  projectConfigs?: ProjectConfig[];
+
+  /**
+   * Rules selecting a schema from the content of the documents, whatever their file name
+   */
+  schemaDetectionRules?: SchemaDetectionRule[];
 }
 
 export interface WorkspaceContextService {
@@ -138,6 +204,14 @@ export interface SchemaRequestService {
   (uri: string): Promise<string>;
 }
 
+/**
+ * The file reader service is used to read files referenced from YAML documents, such as the targets
+ * of `!include` tags. The returned promise is rejected when the file can't be read.
+ */
+export interface FileReaderService {
+  (uri: string): Promise<string>;
+}
+
 export interface SchemaConfiguration {
   /**
    * The URI of the schema, which is also the identifier of the schema.
@@ -173,8 +247,32 @@ export interface LanguageService {
   findDocumentSymbols2: (document: TextDocument, context?: DocumentSymbolsContext) => DocumentSymbol[];
   findLinks: (document: TextDocument) => Promise<DocumentLink[]>;
   resetSchema: (uri: string) => boolean;
+  /**
+   * @returns the URIs of the validated documents including the given file with an `!include` tag
+   */
+  getIncludingDocuments: (uri: string) => string[];
+  /**
+   * @returns the `$ref` and `$id` dependencies between the schemas resolved so far
+   */
+  getSchemaDependencyGraph: () => SchemaDependencyEdge[];
+  /**
+   * Add a rule to the linter, in place of the rule with the same ID if any
+   */
+  registerLintRule: (rule: LintRule) => void;
+  /**
+   * Register the CustomResourceDefinitions of a file of the workspace, to validate the custom resources they define
+   * @param content the content of the file, `undefined` when it is deleted
+   * @returns whether the schemas of the custom resources changed
+   */
+  updateCustomResourceDefinitions: (uri: string, content: string | undefined) => boolean;
+  clearCustomResourceDefinitions: () => boolean;
   doFormat: (document: TextDocument, options?: CustomFormatterOptions) => Promise<TextEdit[]>;
-  doDefinition: (document: TextDocument, params: DefinitionParams) => DefinitionLink[] | undefined;
+  doRangeFormat: (document: TextDocument, ranges: Range[], options?: CustomFormatterOptions) => Promise<TextEdit[]>;
+  doDefinition: (document: TextDocument, params: DefinitionParams, isKubernetes?: boolean) => DefinitionLink[] | undefined;
+  /**
+   * Find the subschema describing the key or value at the given position, in the schema file it comes from
+   */
+  doSchemaDefinition: (document: TextDocument, params: DefinitionParams) => Promise<DefinitionLink[] | undefined>;
   doDocumentOnTypeFormatting: (document: TextDocument, params: DocumentOnTypeFormattingParams) => TextEdit[] | undefined;
   addSchema: (schemaID: string, schema: JSONSchema) => void;
   deleteSchema: (schemaID: string) => void;
@@ -183,11 +281,27 @@ export interface LanguageService {
   deleteSchemasWhole: (schemaDeletions: SchemaDeletionsAll) => void;
   getFoldingRanges: (document: TextDocument, context: FoldingRangesContext) => FoldingRange[] | null;
   getSelectionRanges: (document: TextDocument, positions: Position[]) => SelectionRange[];
-  getCodeAction: (document: TextDocument, params: CodeActionParams) => CodeAction[] | undefined;
+  /**
+   * The code actions of the diagnostics, with the edits the client cannot resolve already computed
+   */
+  getCodeAction: (document: TextDocument, params: CodeActionParams) => Promise<CodeAction[] | undefined>;
+  /**
+   * Compute the edit of a code action returned without it by `getCodeAction`, when the client supports resolving it
+   */
+  resolveCodeAction: (document: TextDocument, action: CodeAction) => Promise<CodeAction>;
   getCodeLens: (document: TextDocument) => PromiseLike<CodeLens[] | undefined> | CodeLens[] | undefined;
   resolveCodeLens: (param: CodeLens) => PromiseLike<CodeLens> | CodeLens;
   prepareRename: (document: TextDocument, params: PrepareRenameParams) => Range | null;
   doRename: (document: TextDocument, params: RenameParams) => WorkspaceEdit | null;
+  findReferences: (document: TextDocument, params: ReferenceParams) => Location[];
+  findDocumentHighlights: (document: TextDocument, params: DocumentHighlightParams) => DocumentHighlight[];
+  getSemanticTokens: (document: TextDocument) => Promise<SemanticTokens>;
+  getInlayHints: (document: TextDocument, range: Range) => Promise<InlayHint[]>;
+  doSignatureHelp: (document: TextDocument, position: Position, context?: SignatureHelpContext) => Promise<SignatureHelp | null>;
+  /**
+   * @returns the path of the node at the position and the schema applying to it
+   */
+  getSchemaAtPosition: (document: TextDocument, position: Position, isKubernetes?: boolean) => Promise<SchemaAtPosition | null>;
 }
 
 export function getLanguageService(params: {
@@ -197,18 +311,24 @@ export function getLanguageService(params: {
   telemetry?: Telemetry;
   yamlSettings?: SettingsState;
   clientCapabilities?: ClientCapabilities;
+  fileReaderService?: FileReaderService;
 }): LanguageService {
   const schemaService = new YAMLSchemaService(params.schemaRequestService, params.workspaceContext, null, params.yamlSettings);
   const completer = new YamlCompletion(schemaService, params.clientCapabilities, yamlDocumentsCache, params.telemetry);
   const hover = new YAMLHover(schemaService, params.telemetry);
   const yamlDocumentSymbols = new YAMLDocumentSymbols(params.telemetry);
-  const yamlValidation = new YAMLValidation(schemaService, params.telemetry);
+  const yamlValidation = new YAMLValidation(schemaService, params.telemetry, params.fileReaderService);
   const formatter = new YAMLFormatter();
-  const yamlCodeActions = new YamlCodeActions(params.clientCapabilities);
+  const yamlCodeActions = new YamlCodeActions(params.clientCapabilities, completer);
   const yamlCodeLens = new YamlCodeLens(schemaService, params.telemetry);
   const yamlLinks = new YamlLinks(params.telemetry);
-  const yamlDefinition = new YamlDefinition(params.telemetry);
+  const yamlDefinition = new YamlDefinition(params.telemetry, schemaService);
   const yamlRename = new YamlRename(params.telemetry);
+  const yamlReferences = new YamlReferences(params.telemetry);
+  const yamlSemanticTokens = new YamlSemanticTokens(schemaService, params.telemetry);
+  const yamlInlayHints = new YamlInlayHints(schemaService, params.telemetry);
+  const yamlSignatureHelp = new YamlSignatureHelp(schemaService, params.telemetry);
+  const yamlSchemaAtPosition = new YamlSchemaAtPosition(schemaService, params.telemetry);
 
   new JSONSchemaSelection(schemaService, params.yamlSettings, params.connection);
 
@@ -226,14 +346,19 @@ export function getLanguageService(params: {
             settings.schema,
             settings.name,
             settings.description,
-            settings.versions
+            settings.versions,
+            settings.folderUri
           );
         });
       }
-      yamlValidation.configure(settings);
+      schemaService.setSchemaDetectionRules(settings.schemaDetectionRules ?? []);
+      yamlValidation.configure(settings, params?.yamlSettings?.yamlFormatterSettings?.printWidth || 80);
       hover.configure(settings);
       completer.configure(settings, params.yamlSettings);
       formatter.configure(settings);
+      yamlSemanticTokens.configure(settings);
+      yamlInlayHints.configure(settings);
+      yamlSignatureHelp.configure(settings);
       yamlCodeActions.configure(settings, params?.yamlSettings?.yamlFormatterSettings?.printWidth || 80);
     },
     registerCustomSchemaProvider: (schemaProvider: CustomSchemaProvider) => {
@@ -246,10 +371,27 @@ export function getLanguageService(params: {
     findDocumentSymbols: yamlDocumentSymbols.findDocumentSymbols.bind(yamlDocumentSymbols),
     findDocumentSymbols2: yamlDocumentSymbols.findHierarchicalDocumentSymbols.bind(yamlDocumentSymbols),
     doDefinition: yamlDefinition.getDefinition.bind(yamlDefinition),
+    doSchemaDefinition: yamlDefinition.getSchemaDefinition.bind(yamlDefinition),
     resetSchema: (uri: string) => {
       return schemaService.onResourceChange(uri);
     },
+    getIncludingDocuments: (uri: string) => {
+      return yamlValidation.getIncludingDocuments(uri);
+    },
+    getSchemaDependencyGraph: () => {
+      return schemaService.getSchemaDependencyGraph();
+    },
+    registerLintRule: (rule: LintRule) => {
+      return yamlValidation.registerLintRule(rule);
+    },
+    updateCustomResourceDefinitions: (uri: string, content: string | undefined) => {
+      return schemaService.setWorkspaceCustomResources(uri, content === undefined ? [] : getCustomResourceSchemas(content));
+    },
+    clearCustomResourceDefinitions: () => {
+      return schemaService.clearWorkspaceCustomResources();
+    },
     doFormat: formatter.format.bind(formatter),
+    doRangeFormat: formatter.formatRanges.bind(formatter),
     doDocumentOnTypeFormatting,
     addSchema: (schemaID: string, schema: JSONSchema) => {
       return schemaService.saveSchema(schemaID, schema);
@@ -269,13 +411,21 @@ export function getLanguageService(params: {
     getFoldingRanges,
     getSelectionRanges,
     getCodeAction: (document, params) => {
-      return yamlCodeActions.getCodeAction(document, params);
+      return yamlCodeActions.getResolvedCodeAction(document, params);
     },
+    resolveCodeAction: (document, action) => yamlCodeActions.resolveCodeAction(document, action),
     getCodeLens: (document) => {
       return yamlCodeLens.getCodeLens(document);
     },
     resolveCodeLens: (param) => yamlCodeLens.resolveCodeLens(param),
     prepareRename: (document, params) => yamlRename.prepareRename(document, params),
     doRename: (document, params) => yamlRename.doRename(document, params),
+    findReferences: (document, params) => yamlReferences.findReferences(document, params),
+    findDocumentHighlights: (document, params) => yamlReferences.findDocumentHighlights(document, params),
+    getSemanticTokens: (document) => yamlSemanticTokens.getSemanticTokens(document),
+    getInlayHints: (document, range) => yamlInlayHints.getInlayHints(document, range),
+    doSignatureHelp: (document, position, context) => yamlSignatureHelp.doSignatureHelp(document, position, context),
+    getSchemaAtPosition: (document, position, isKubernetes) =>
+      yamlSchemaAtPosition.getSchemaAtPosition(document, position, isKubernetes),
   };
 }
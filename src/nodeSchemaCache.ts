@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CachedSchema, SchemaCache } from './languageservice/services/schemaRequestHandler';
+
+const INDEX_FILE = 'index.json';
+const CONTENT_DIRECTORY = 'content';
+
+interface IndexEntry {
+  hash: string;
+  etag?: string;
+  lastModified?: string;
+  timestamp: number;
+}
+
+type SchemaCacheIndex = Record<string, IndexEntry>;
+
+/**
+ * The `yaml-language-server/schemas` folder of the user cache directory,
+ * `$XDG_CACHE_HOME`, `~/Library/Caches` on macOS, `%LOCALAPPDATA%` on Windows or `~/.cache`.
+ */
+export function getDefaultSchemaCacheDirectory(): string {
+  let cacheHome = process.env.XDG_CACHE_HOME;
+  if (!cacheHome) {
+    if (process.platform === 'win32') {
+      cacheHome = process.env.LOCALAPPDATA ?? path.join(os.homedir(), 'AppData', 'Local');
+    } else if (process.platform === 'darwin') {
+      cacheHome = path.join(os.homedir(), 'Library', 'Caches');
+    } else {
+      cacheHome = path.join(os.homedir(), '.cache');
+    }
+  }
+  return path.join(cacheHome, 'yaml-language-server', 'schemas');
+}
+
+/**
+ * Schema cache storing each distinct content once, in a file named after its SHA-256 hash,
+ * and an index from the schema URIs to their content and revalidation headers.
+ * The index is read again on every access, so that several servers can share the directory.
+ */
+export class NodeSchemaCache implements SchemaCache {
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly directory: string = getDefaultSchemaCacheDirectory()) {}
+
+  async get(uri: string): Promise<CachedSchema | undefined> {
+    const entry = (await this.readIndex())[uri];
+    if (!entry) {
+      return undefined;
+    }
+    try {
+      const content = await fs.readFile(this.getContentPath(entry.hash), 'utf8');
+      return { content, etag: entry.etag, lastModified: entry.lastModified, timestamp: entry.timestamp };
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(uri: string, schema: CachedSchema): Promise<void> {
+    // serialize the updates of the index
+    this.pendingWrite = this.pendingWrite.then(() => this.write(uri, schema)).catch(() => undefined);
+    return this.pendingWrite;
+  }
+
+  private async write(uri: string, schema: CachedSchema): Promise<void> {
+    const hash = createHash('sha256').update(schema.content).digest('hex');
+    const contentPath = this.getContentPath(hash);
+    await fs.mkdir(path.dirname(contentPath), { recursive: true });
+    if (!(await exists(contentPath))) {
+      await writeAtomically(contentPath, schema.content);
+    }
+
+    const index = await this.readIndex();
+    const previousHash = index[uri]?.hash;
+    index[uri] = { hash, etag: schema.etag, lastModified: schema.lastModified, timestamp: schema.timestamp };
+    await writeAtomically(path.join(this.directory, INDEX_FILE), JSON.stringify(index));
+
+    if (previousHash && previousHash !== hash && !Object.values(index).some((entry) => entry.hash === previousHash)) {
+      await fs.unlink(this.getContentPath(previousHash)).catch(() => undefined);
+    }
+  }
+
+  private async readIndex(): Promise<SchemaCacheIndex> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, INDEX_FILE), 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  private getContentPath(hash: string): string {
+    return path.join(this.directory, CONTENT_DIRECTORY, `${hash}.json`);
+  }
+}
+
+export async function exists(fsPath: string): Promise<boolean> {
+  return fs.access(fsPath).then(
+    () => true,
+    () => false
+  );
+}
+
+async function writeAtomically(fsPath: string, content: string): Promise<void> {
+  const temporaryPath = `${fsPath}.${process.pid}.tmp`;
+  await fs.writeFile(temporaryPath, content, 'utf8');
+  await fs.rename(temporaryPath, fsPath);
+}
@@ -0,0 +1,109 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { gunzip } from 'zlib';
+import { URI } from 'vscode-uri';
+import { SCHEMA_PACK_KUBERNETES_SCHEMA } from './languageservice/utils/schemaPacks';
+import type { SchemaPackArchiveExtractor } from './languageservice/utils/schemaPacks';
+import { exists, getDefaultSchemaCacheDirectory } from './nodeSchemaCache';
+
+const BLOCK_SIZE = 512;
+const COMPLETE_MARKER = '.complete';
+
+interface TarEntry {
+  name: string;
+  type: string;
+  content: Buffer;
+}
+
+/**
+ * Extract the schema pack archives in the `yaml-language-server/packs` folder of the user cache directory.
+ * Each archive is extracted once, in a folder named after the hash of its content.
+ */
+export function createNodeSchemaPackArchiveExtractor(
+  directory = path.join(path.dirname(getDefaultSchemaCacheDirectory()), 'packs')
+): SchemaPackArchiveExtractor {
+  return async (uri: string) => {
+    let archive = await fs.readFile(URI.parse(uri).fsPath);
+    const target = path.join(directory, createHash('sha256').update(archive).digest('hex'));
+
+    if (!(await exists(path.join(target, COMPLETE_MARKER)))) {
+      if (archive[0] === 0x1f && archive[1] === 0x8b) {
+        archive = await promisify(gunzip)(archive);
+      }
+      for (const entry of readTarEntries(archive)) {
+        const entryPath = path.join(target, entry.name);
+        if (!entryPath.startsWith(target + path.sep)) {
+          // ignore the entries escaping the target folder
+          continue;
+        }
+        if (entry.type === '5') {
+          await fs.mkdir(entryPath, { recursive: true });
+        } else if (entry.type === '0' || entry.type === '') {
+          await fs.mkdir(path.dirname(entryPath), { recursive: true });
+          await fs.writeFile(entryPath, entry.content);
+        }
+      }
+      await fs.mkdir(target, { recursive: true });
+      await fs.writeFile(path.join(target, COMPLETE_MARKER), '');
+    }
+
+    return URI.file(await getPackRoot(target)).toString();
+  };
+}
+
+/**
+ * The pack is either the root of the archive or its only folder
+ */
+async function getPackRoot(directory: string): Promise<string> {
+  if (await exists(path.join(directory, SCHEMA_PACK_KUBERNETES_SCHEMA))) {
+    return directory;
+  }
+  const entries = (await fs.readdir(directory, { withFileTypes: true })).filter((entry) => entry.name !== COMPLETE_MARKER);
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    return path.join(directory, entries[0].name);
+  }
+  return directory;
+}
+
+/**
+ * Read the entries of a POSIX tar archive, with the long names of the pax and GNU formats
+ */
+function readTarEntries(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let longName: string | undefined;
+  for (let offset = 0; offset + BLOCK_SIZE <= archive.length; ) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    const type = readString(header, 156, 1);
+    const prefix = readString(header, 345, 155);
+    const name = prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100);
+    const content = archive.subarray(offset + BLOCK_SIZE, offset + BLOCK_SIZE + size);
+    offset += BLOCK_SIZE + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (type === 'L') {
+      longName = content.toString('utf8').replace(/\0+$/, '');
+    } else if (type === 'x') {
+      longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(content.toString('utf8'))?.[1] ?? longName;
+    } else if (type !== 'g') {
+      entries.push({ name: longName ?? name, type, content });
+      longName = undefined;
+    }
+  }
+  return entries;
+}
+
+function readString(buffer: Buffer, offset: number, length: number): string {
+  const value = buffer.subarray(offset, offset + length);
+  const end = value.indexOf(0);
+  return value.subarray(0, end < 0 ? length : end).toString('utf8');
+}
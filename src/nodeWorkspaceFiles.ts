@@ -0,0 +1,45 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import type { WorkspaceFileProvider } from './languageserver/handlers/validationHandlers';
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Recursively visit the files of a directory, skipping `node_modules` and `.git` folders.
+ */
+export async function walkDirectory(directory: string, onFile: (fsPath: string) => void): Promise<void> {
+  const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    const fsPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        await walkDirectory(fsPath, onFile);
+      }
+    } else if (entry.isFile()) {
+      onFile(fsPath);
+    }
+  }
+}
+
+export const nodeWorkspaceFileProvider: WorkspaceFileProvider = {
+  findFiles: async (folderUri: string, extensions: string[]) => {
+    const folder = URI.parse(folderUri);
+    if (folder.scheme !== 'file') {
+      return [];
+    }
+    const files: string[] = [];
+    await walkDirectory(folder.fsPath, (fsPath) => {
+      if (extensions.includes(path.extname(fsPath).toLowerCase())) {
+        files.push(URI.file(fsPath).toString());
+      }
+    });
+    return files.sort();
+  },
+  readFile: (uri: string) => fs.readFile(URI.parse(uri).fsPath, 'utf-8'),
+};
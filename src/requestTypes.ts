@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/no-namespace */
 import { NotificationType, RequestType } from 'vscode-languageserver';
+import type { TextDocumentPositionParams } from 'vscode-languageserver';
 import type { SchemaAdditions, SchemaDeletions } from './languageservice/services/yamlSchemaService';
+import type { SchemaDependencyEdge } from './languageservice/services/schemaDependencyGraph';
+import type { SchemaAtPosition } from './languageservice/services/yamlSchemaAtPosition';
 import type { SchemaConfiguration } from './languageservice/yamlLanguageService';
 import type { SchemaVersions } from './languageservice/yamlTypes';
 
@@ -71,6 +74,13 @@ export namespace SchemaModificationNotification {
   export const type: RequestType<SchemaAdditions | SchemaDeletions, void, unknown> = new RequestType('json/schema/modify');
 }
 
+/**
+ * The `$ref` and `$id` dependencies between the schemas resolved so far
+ */
+export namespace SchemaDependencyGraphRequest {
+  export const type: RequestType<void, SchemaDependencyEdge[], unknown> = new RequestType('yaml/get/schemaDependencyGraph');
+}
+
 export namespace SchemaSelectionRequests {
   export const type: NotificationType<void> = new NotificationType('yaml/supportSchemaSelection');
   export const getSchema: RequestType<string, JSONSchemaDescription[], unknown> = new RequestType('yaml/get/jsonSchema');
@@ -79,3 +89,12 @@ export namespace SchemaSelectionRequests {
   );
   export const schemaStoreInitialized: NotificationType<unknown> = new NotificationType('yaml/schema/store/initialized');
 }
+
+/**
+ * The JSON pointer of the node at a position of a document, the effective schema applying to it and the URI of its schema file
+ */
+export namespace SchemaAtPositionRequest {
+  export const type: RequestType<TextDocumentPositionParams, SchemaAtPosition | null, unknown> = new RequestType(
+    'yaml/get/schemaAtPosition'
+  );
+}
@@ -12,8 +12,11 @@ import { TelemetryImpl } from './languageserver/telemetry';
 import { schemaRequestHandler, workspaceContext } from './languageservice/services/schemaRequestHandler';
 import { convertErrorToTelemetryMsg } from './languageservice/utils/objects';
 import { setupl10nBundle } from './nodeTranslationSetup';
+import { nodeWorkspaceFileProvider } from './nodeWorkspaceFiles';
 import { YAMLServerInit } from './yamlServerInit';
-import { SettingsState } from './yamlSettings';
+import { NodeSchemaCache } from './nodeSchemaCache';
+import { createNodeSchemaPackArchiveExtractor } from './nodeSchemaPacks';
+import { getSchemaCacheOptions, SettingsState } from './yamlSettings';
 
 // Create a connection for the server.
 let connection: Connection = null;
@@ -42,6 +45,8 @@ console.error = (arg) => {
 };
 
 const yamlSettings = new SettingsState();
+yamlSettings.schemaCache = new NodeSchemaCache();
+yamlSettings.schemaPackArchiveExtractor = createNodeSchemaPackArchiveExtractor();
 
 const fileSystem = {
   readFile: async (fsPath: string, encoding?: string) => {
@@ -62,11 +67,20 @@ const schemaRequestHandlerWrapper = (connection: Connection, uri: string): Promi
     yamlSettings.workspaceRoot,
     yamlSettings.useVSCodeContentRequest,
     fileSystem,
-    false
+    false,
+    getSchemaCacheOptions(yamlSettings)
   );
 };
 
 const schemaRequestService = schemaRequestHandlerWrapper.bind(this, connection);
 const telemetry = new TelemetryImpl(connection);
 
-new YAMLServerInit(connection, yamlSettings, workspaceContext, schemaRequestService, telemetry, setupl10nBundle).start();
+new YAMLServerInit(
+  connection,
+  yamlSettings,
+  workspaceContext,
+  schemaRequestService,
+  telemetry,
+  setupl10nBundle,
+  nodeWorkspaceFileProvider
+).start();
@@ -10,7 +10,7 @@ import { BrowserMessageReader, BrowserMessageWriter, createConnection } from 'vs
 import { TelemetryImpl } from '../languageserver/telemetry';
 import { schemaRequestHandler, workspaceContext } from '../languageservice/services/schemaRequestHandler';
 import { YAMLServerInit } from '../yamlServerInit';
-import { SettingsState } from '../yamlSettings';
+import { getSchemaCacheOptions, SettingsState } from '../yamlSettings';
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
 namespace FSReadFile {
@@ -43,7 +43,8 @@ self.onmessage = (e) => {
       yamlSettings.workspaceRoot,
       yamlSettings.useVSCodeContentRequest,
       fileSystem,
-      true
+      true,
+      getSchemaCacheOptions(yamlSettings)
     );
   };
 
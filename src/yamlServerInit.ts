@@ -7,9 +7,13 @@ import { LanguageHandlers } from './languageserver/handlers/languageHandlers';
 import { NotificationHandlers } from './languageserver/handlers/notificationHandlers';
 import { RequestHandlers } from './languageserver/handlers/requestHandlers';
 import { SettingsHandler } from './languageserver/handlers/settingsHandlers';
+import type { WorkspaceFileProvider } from './languageserver/handlers/validationHandlers';
 import { ValidationHandler } from './languageserver/handlers/validationHandlers';
+import { CustomResourceDefinitionHandler } from './languageserver/handlers/customResourceDefinitionHandlers';
+import { ProjectConfigHandler } from './languageserver/handlers/projectConfigHandlers';
 import { WorkspaceHandlers } from './languageserver/handlers/workspaceHandlers';
 import { registerCommands } from './languageservice/services/yamlCommands';
+import { SEMANTIC_TOKENS_LEGEND } from './languageservice/services/yamlSemanticTokens';
 import type { Telemetry } from './languageservice/telemetry';
 import { workspaceFoldersChanged } from './languageservice/utils/paths';
 import type { LanguageService, SchemaRequestService, WorkspaceContextService } from './languageservice/yamlLanguageService';
@@ -21,6 +25,7 @@ export class YAMLServerInit {
   languageHandler: LanguageHandlers;
   validationHandler: ValidationHandler;
   settingsHandler: SettingsHandler;
+  projectConfigHandler: ProjectConfigHandler;
 
   constructor(
     private readonly connection: Connection,
@@ -28,7 +33,8 @@ export class YAMLServerInit {
     private workspaceContext: WorkspaceContextService,
     private schemaRequestService: SchemaRequestService,
     private telemetry: Telemetry,
-    public setupl10nBundle: (params: InitializeParams) => Promise<void> = () => Promise.resolve()
+    public setupl10nBundle: (params: InitializeParams) => Promise<void> = () => Promise.resolve(),
+    private workspaceFiles?: WorkspaceFileProvider
   ) {
     this.yamlSettings.documents.listen(this.connection);
 
@@ -49,6 +55,7 @@ export class YAMLServerInit {
       // need to call this after connection initialized
       this.settingsHandler.registerHandlers();
       this.settingsHandler.pullConfiguration();
+      this.projectConfigHandler.registerFileWatchers(this.connection.client);
     });
   }
 
@@ -63,6 +70,7 @@ export class YAMLServerInit {
       yamlSettings: this.yamlSettings,
       telemetry: this.telemetry,
       clientCapabilities: params.capabilities,
+      fileReaderService: this.workspaceFiles?.readFile,
     });
 
     // Only try to parse the workspace root if its not null. Otherwise initialize will fail
@@ -88,6 +96,8 @@ export class YAMLServerInit {
       this.yamlSettings.capabilities.workspace && !!this.yamlSettings.capabilities.workspace.configuration
     );
     this.yamlSettings.hasCodeLensRefreshSupport = !!this.yamlSettings.capabilities.workspace?.codeLens?.refreshSupport;
+    this.yamlSettings.hasPullDiagnosticsSupport = !!this.yamlSettings.capabilities.textDocument?.diagnostic;
+    this.yamlSettings.hasDiagnosticRefreshSupport = !!this.yamlSettings.capabilities.workspace?.diagnostics?.refreshSupport;
 
     this.yamlSettings.hasWsChangeWatchedFileDynamicRegistration = !!(
       this.yamlSettings.capabilities.workspace &&
@@ -111,16 +121,31 @@ export class YAMLServerInit {
         documentOnTypeFormattingProvider: {
           firstTriggerCharacter: '\n',
         },
-        documentRangeFormattingProvider: false,
+        documentRangeFormattingProvider: this.yamlSettings.clientDynamicRegisterSupport ? false : { rangesSupport: true },
         definitionProvider: true,
         renameProvider: { prepareProvider: true },
+        referencesProvider: true,
+        documentHighlightProvider: true,
+        semanticTokensProvider: { legend: SEMANTIC_TOKENS_LEGEND, full: true },
+        inlayHintProvider: true,
+        signatureHelpProvider: { triggerCharacters: [' '] },
         documentLinkProvider: {},
         foldingRangeProvider: true,
         selectionRangeProvider: true,
-        codeActionProvider: true,
+        codeActionProvider: {
+          resolveProvider: true,
+        },
         codeLensProvider: {
           resolveProvider: false,
         },
+        diagnosticProvider: this.yamlSettings.hasPullDiagnosticsSupport
+          ? {
+              identifier: 'yaml',
+              // the diagnostics depend on the included files, the schemas, the workspace CRDs and the project configurations
+              interFileDependencies: true,
+              workspaceDiagnostics: this.validationHandler.supportsWorkspaceDiagnostics,
+            }
+          : undefined,
         executeCommandProvider: {
           commands: Object.keys(YamlCommands).map((k) => YamlCommands[k]),
         },
@@ -136,16 +161,40 @@ export class YAMLServerInit {
 
   private registerHandlers(): void {
     // Register all features that the language server has
-    this.validationHandler = new ValidationHandler(this.connection, this.languageService, this.yamlSettings);
+    this.validationHandler = new ValidationHandler(this.connection, this.languageService, this.yamlSettings, this.workspaceFiles);
+    const customResourceDefinitionHandler = new CustomResourceDefinitionHandler(
+      this.languageService,
+      this.yamlSettings,
+      this.validationHandler,
+      this.workspaceFiles,
+      this.telemetry
+    );
+    customResourceDefinitionHandler.registerHandlers();
     this.settingsHandler = new SettingsHandler(
       this.connection,
       this.languageService,
       this.yamlSettings,
       this.validationHandler,
-      this.telemetry
+      this.telemetry,
+      customResourceDefinitionHandler
     );
     // this.settingsHandler.registerHandlers();
-    this.languageHandler = new LanguageHandlers(this.connection, this.languageService, this.yamlSettings, this.validationHandler);
+    this.projectConfigHandler = new ProjectConfigHandler(
+      this.yamlSettings,
+      this.settingsHandler,
+      this.workspaceFiles,
+      this.telemetry
+    );
+    this.projectConfigHandler.registerHandlers();
+    this.languageHandler = new LanguageHandlers(
+      this.connection,
+      this.languageService,
+      this.yamlSettings,
+      this.validationHandler,
+      customResourceDefinitionHandler,
+      this.projectConfigHandler,
+      this.telemetry
+    );
     this.languageHandler.registerHandlers();
     new NotificationHandlers(this.connection, this.languageService, this.yamlSettings, this.settingsHandler).registerHandlers();
     new RequestHandlers(this.connection, this.languageService).registerHandlers();
@@ -6,7 +6,13 @@ import type { URI } from 'vscode-uri';
 import type { JSONSchema } from './languageservice/jsonSchema';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { CRD_CATALOG_URL, JSON_SCHEMASTORE_URL } from './languageservice/utils/schemaUrls';
+import type { KubernetesFolderVersion } from './languageservice/utils/schemaUrls';
 import type { YamlVersion } from './languageservice/parser/yamlParser07';
+import type { SchemaCache, SchemaCacheOptions } from './languageservice/services/schemaRequestHandler';
+import type { SchemaPack, SchemaPackArchiveExtractor } from './languageservice/utils/schemaPacks';
+import type { ProjectConfig } from './languageservice/utils/projectConfig';
+import type { SchemaDetectionRule } from './languageservice/utils/schemaDetection';
+import type { LintRuleConfig, LintRuleSeverity } from './languageservice/services/validation/types';
 
 // Client settings interface to grab settings relevant for the language server
 export interface Settings {
@@ -27,6 +33,19 @@ export interface Settings {
       enable: boolean;
     };
     kubernetesVersion: string;
+    kubernetesFolderVersions: { [folder: string]: string };
+    kubernetesWorkspaceCRDs: {
+      enable: boolean;
+    };
+    schemaCache: {
+      enable: boolean;
+      ttl: number;
+    };
+    offline: boolean;
+    schemaPacks: {
+      path: string;
+      folders?: string[];
+    }[];
     disableDefaultProperties: boolean;
     disableAdditionalProperties: boolean;
     suggest: {
@@ -37,10 +56,19 @@ export interface Settings {
       flowSequence: 'allow' | 'forbid';
     };
     keyOrdering: boolean;
+    suppressionCodeActions: boolean;
+    lint: {
+      rules: { [ruleId: string]: LintRuleSeverity | LintRuleConfig };
+    };
+    validateIncludes: boolean;
     maxItemsComputed: number;
     yamlVersion: YamlVersion;
     hoverSchemaSource: boolean;
     disableSchemaDetection: string | string[];
+    contentSchemaDetection: {
+      enable: boolean;
+      rules: SchemaDetectionRule[];
+    };
   };
   http: {
     proxy: string;
@@ -70,6 +98,7 @@ export class SettingsState {
   yamlConfigurationSettings: JSONSchemaSettings[] = undefined;
   schemaAssociations: ISchemaAssociations | SchemaConfiguration[] | undefined = undefined;
   formatterRegistration: PromiseLike<Disposable> = null;
+  rangeFormatterRegistration: PromiseLike<Disposable> = null;
   specificValidatorPaths = [];
   schemaConfigurationSettings = [];
   yamlShouldValidate = true;
@@ -86,6 +115,8 @@ export class SettingsState {
   yamlShouldCompletion = true;
   yamlHoverSchemaSource = true;
   yamlDisableSchemaDetection: string[] = [];
+  contentSchemaDetectionEnabled = false;
+  contentSchemaDetectionRules: SchemaDetectionRule[] = [];
   schemaStoreSettings = [];
   customTags: string[] = [];
   schemaStoreEnabled = true;
@@ -93,6 +124,17 @@ export class SettingsState {
   kubernetesCRDStoreEnabled = true;
   kubernetesCRDStoreUrl = CRD_CATALOG_URL;
   kubernetesVersion: string | undefined = undefined;
+  kubernetesFolderVersions: KubernetesFolderVersion[] = [];
+  kubernetesWorkspaceCRDsEnabled = false;
+  // storage of the remote schemas, only available when running on Node.js
+  schemaCache: SchemaCache | undefined = undefined;
+  schemaCacheEnabled = true;
+  // seconds
+  schemaCacheTTL = 24 * 60 * 60;
+  offline = false;
+  schemaPacks: SchemaPack[] = [];
+  // unpacks the schema pack archives, only available when running on Node.js
+  schemaPackArchiveExtractor: SchemaPackArchiveExtractor | undefined = undefined;
   indentation: string | undefined = undefined;
   disableAdditionalProperties = false;
   disableDefaultProperties = false;
@@ -104,6 +146,12 @@ export class SettingsState {
     flowSequence: 'allow' | 'forbid';
   };
   keyOrdering = false;
+  suppressionCodeActions = true;
+  lintRules: { [ruleId: string]: LintRuleSeverity } = {};
+  lintRuleOptions: { [ruleId: string]: { [option: string]: unknown } } = {};
+  validateIncludes = false;
+  // the `.yaml-language-server.yaml` and `.yamllint` files applying to the documents
+  projectConfigs: ProjectConfig[] = [];
   maxItemsComputed = 5000;
 
   // File validation helpers
@@ -123,6 +171,8 @@ export class SettingsState {
   hasWorkspaceFolderCapability = false;
   hasConfigurationCapability = false;
   hasCodeLensRefreshSupport = false;
+  hasPullDiagnosticsSupport = false;
+  hasDiagnosticRefreshSupport = false;
   configurationPullPromise: Promise<void> = Promise.resolve();
   useVSCodeContentRequest = false;
   yamlVersion: YamlVersion = '1.2';
@@ -132,6 +182,17 @@ export class SettingsState {
   locale = 'en';
 }
 
+/**
+ * The options of the schema requests from the `yaml.schemaCache` and `yaml.offline` settings
+ */
+export function getSchemaCacheOptions(yamlSettings: SettingsState): SchemaCacheOptions {
+  return {
+    cache: yamlSettings.schemaCacheEnabled ? yamlSettings.schemaCache : undefined,
+    ttl: yamlSettings.schemaCacheTTL * 1000,
+    offline: yamlSettings.offline,
+  };
+}
+
 export class TextDocumentTestManager extends TextDocuments<TextDocument> {
   testTextDocuments = new Map<string, TextDocument>();
 
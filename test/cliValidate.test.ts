@@ -0,0 +1,134 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { expect } from 'chai';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import { findFiles, parseValidateArgs, runValidate, UsageError } from '../src/cli/validate';
+import { formatHuman, formatSarif } from '../src/cli/formatters';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'cli');
+
+async function run(args: string[]): Promise<{ exitCode: number; out: string; err: string }> {
+  let out = '';
+  let err = '';
+  const exitCode = await runValidate(
+    args,
+    (text) => (out += text),
+    (text) => (err += text),
+    FIXTURES
+  );
+  return { exitCode, out, err };
+}
+
+describe('CLI validate', () => {
+  describe('parseValidateArgs', () => {
+    it('should parse patterns and options', () => {
+      const options = parseValidateArgs(['--format', 'json', '--config=cfg.yaml', 'a.yaml', '**/*.yml']);
+      expect(options).to.deep.equal({ patterns: ['a.yaml', '**/*.yml'], format: 'json', config: 'cfg.yaml' });
+    });
+
+    it('should reject unknown format', () => {
+      expect(() => parseValidateArgs(['--format', 'xml', 'a.yaml'])).to.throw(UsageError);
+    });
+
+    it('should reject unknown option', () => {
+      expect(() => parseValidateArgs(['--fix', 'a.yaml'])).to.throw(UsageError);
+    });
+  });
+
+  describe('findFiles', () => {
+    it('should expand globs relative to the working directory', async () => {
+      const files = await findFiles(['config/*.yaml'], FIXTURES);
+      expect(files).to.deep.equal([path.join(FIXTURES, 'config', 'invalid.yaml'), path.join(FIXTURES, 'config', 'valid.yaml')]);
+    });
+
+    it('should expand directories to YAML files', async () => {
+      const files = await findFiles(['config'], FIXTURES);
+      expect(files).to.have.length(2);
+    });
+  });
+
+  describe('runValidate', () => {
+    it('should exit with 0 when there are no errors', async () => {
+      const { exitCode, out } = await run(['--config', 'yamlls.config.yaml', 'config/valid.yaml']);
+      expect(exitCode).to.equal(0);
+      expect(out).to.equal('0 problems (0 errors, 0 warnings, 0 infos) in 1 file\n');
+    });
+
+    it('should report schema errors and exit with 1', async () => {
+      const { exitCode, out } = await run(['--config', 'yamlls.config.yaml', 'config/*.yaml']);
+      expect(exitCode).to.equal(1);
+      expect(out).to.contain('config/invalid.yaml:2:11 error Incorrect type. Expected "integer".');
+      expect(out).to.contain('1 problem (1 errors, 0 warnings, 0 infos) in 2 files');
+    });
+
+    it('should print JSON output', async () => {
+      const { out } = await run(['--config', 'yamlls.config.yaml', '--format', 'json', 'config/invalid.yaml']);
+      const results = JSON.parse(out);
+      expect(results).to.have.length(1);
+      expect(results[0].file).to.equal('config/invalid.yaml');
+      expect(results[0].diagnostics[0].range).to.deep.equal(Range.create(1, 10, 1, 13));
+    });
+
+    it('should validate the custom resources against the CRDs of the validated files', async () => {
+      const { out } = await run(['--config', 'crds.config.yaml', 'crds/*.yaml']);
+      expect(out).to.contain('crds/widget.yaml:4:13 error Incorrect type. Expected "integer".');
+    });
+
+    it('should apply the project configuration files of the folders of the validated files', async () => {
+      const { out } = await run(['project/app.yaml']);
+      expect(out).to.contain('project/app.yaml:1:1 error Missing property "name".');
+      expect(out).to.contain('project/app.yaml:1:1 error Wrong ordering of key "replicas" in mapping');
+      expect(out).not.to.contain('Incorrect type');
+    });
+
+    it('should exit with 2 when no file matches', async () => {
+      const { exitCode, err } = await run(['does-not-exist/*.yaml']);
+      expect(exitCode).to.equal(2);
+      expect(err).to.contain('No files matching does-not-exist/*.yaml');
+    });
+  });
+
+  describe('formatters', () => {
+    const results = [
+      {
+        file: 'a.yaml',
+        diagnostics: [
+          Diagnostic.create(Range.create(0, 0, 0, 3), 'Some error', DiagnosticSeverity.Error, 'someCode', 'YAML'),
+          Diagnostic.create(Range.create(2, 1, 2, 4), 'Some info', DiagnosticSeverity.Information, 0, 'YAML'),
+        ],
+      },
+    ];
+
+    it('should format human output', () => {
+      expect(formatHuman(results)).to.equal(
+        'a.yaml:1:1 error Some error [someCode]\na.yaml:3:2 info Some info\n2 problems (1 errors, 0 warnings, 1 infos) in 1 file\n'
+      );
+    });
+
+    it('should format SARIF output', () => {
+      const sarif = JSON.parse(formatSarif(results));
+      expect(sarif.version).to.equal('2.1.0');
+      const run = sarif.runs[0];
+      expect(run.tool.driver.rules).to.deep.equal([{ id: 'someCode' }]);
+      expect(run.results[0]).to.deep.equal({
+        ruleId: 'someCode',
+        level: 'error',
+        message: { text: 'Some error' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'a.yaml' },
+              region: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 4 },
+            },
+          },
+        ],
+      });
+      expect(run.results[1].level).to.equal('note');
+      expect(run.results[1].ruleId).to.be.undefined;
+    });
+  });
+});
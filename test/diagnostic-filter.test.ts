@@ -7,6 +7,7 @@ import { expect } from 'chai';
 import type { GetLineText } from '../src/languageservice/utils/diagnostic-filter';
 import {
   filterSuppressedDiagnostics,
+  getSuppressedRegions,
   YAML_DISABLE_PATTERN,
   parseDisableSpecifiers,
   shouldSuppressDiagnostic,
@@ -32,6 +33,39 @@ describe('YAML_DISABLE_PATTERN', () => {
     expect(match).to.not.be.null;
     expect(match[1].trim()).to.equal('');
   });
+
+  it('should not match the file and region comments', () => {
+    expect(YAML_DISABLE_PATTERN.exec('# yaml-language-server-disable-file')).to.be.null;
+    expect(YAML_DISABLE_PATTERN.exec('# yaml-language-server-disable-start typeMismatch')).to.be.null;
+  });
+});
+
+describe('getSuppressedRegions', () => {
+  it('should collect the file comments and the nested regions', () => {
+    const lines = linesOf([
+      'a: 1',
+      '# yaml-language-server-disable-start enum',
+      'b: 2',
+      '  # yaml-language-server-disable-start',
+      'c: 3',
+      '# yaml-language-server-disable-end',
+      '# yaml-language-server-disable-end',
+      '# yaml-language-server-disable-file Incorrect type',
+      '# yaml-language-server-disable-start',
+      'd: 4',
+    ]);
+
+    expect(getSuppressedRegions(lines)).to.deep.equal([
+      { startLine: 2, endLine: 5, specifiers: ['enum'] },
+      { startLine: 4, endLine: 4, specifiers: [] },
+      { startLine: 0, endLine: Infinity, specifiers: ['incorrect type'] },
+      { startLine: 9, endLine: Infinity, specifiers: [] },
+    ]);
+  });
+
+  it('should ignore the end comments without a region', () => {
+    expect(getSuppressedRegions(linesOf(['# yaml-language-server-disable-end', 'a: 1']))).to.be.empty;
+  });
 });
 
 describe('parseDisableSpecifiers', () => {
@@ -84,6 +118,34 @@ describe('shouldSuppressDiagnostic', () => {
   it('should not suppress when none of multiple specifiers match', () => {
     expect(shouldSuppressDiagnostic(['not accepted', 'missing property'], 'Incorrect type. Expected string.')).to.be.false;
   });
+
+  it('should suppress when the code equals a specifier (case-insensitive)', () => {
+    expect(shouldSuppressDiagnostic(['typemismatch'], 'Incorrect type. Expected string.', 'typeMismatch')).to.be.true;
+  });
+
+  it('should not suppress when the code only contains a specifier', () => {
+    expect(shouldSuppressDiagnostic(['type'], 'Value is not accepted.', 'typeMismatch')).to.be.false;
+  });
+
+  it('should match the message of the diagnostics with a word which is a schema diagnostic code', () => {
+    expect(
+      shouldSuppressDiagnostic(
+        ['deprecated'],
+        'batch/v1beta1 CronJob is deprecated since Kubernetes 1.21',
+        'kubernetesDeprecatedApi'
+      )
+    ).to.be.true;
+    expect(shouldSuppressDiagnostic(['not'], 'Property x is not allowed.', 'propertyNotAllowed')).to.be.true;
+    expect(shouldSuppressDiagnostic(['required'], 'Missing property "name".', 'required')).to.be.true;
+  });
+
+  it('should only match the code of the diagnostics with the code prefix', () => {
+    expect(shouldSuppressDiagnostic(['code:comments'], 'Too few spaces before comment', 'comments')).to.be.true;
+    expect(shouldSuppressDiagnostic(['code:comments'], 'Wrong indentation of the comments', 'indentation')).to.be.false;
+    expect(shouldSuppressDiagnostic(['code: typemismatch'], 'Incorrect type.', 'typeMismatch')).to.be.true;
+    expect(shouldSuppressDiagnostic(['code:typemismatch'], 'code:typemismatch')).to.be.false;
+    expect(shouldSuppressDiagnostic(['code:not'], 'Property x is not allowed.', 'propertyNotAllowed')).to.be.false;
+  });
 });
 
 describe('filterSuppressedDiagnostics', () => {
@@ -224,4 +286,56 @@ describe('filterSuppressedDiagnostics', () => {
 
     expect(result).to.have.length(1);
   });
+
+  it('should suppress the diagnostics of a file', () => {
+    const lines = linesOf(['# yaml-language-server-disable-file Incorrect type', 'name: 1', 'age: x']);
+    const diagnostics = [makeDiag(1, 'Incorrect type. Expected string.'), makeDiag(2, 'Value is not accepted.')];
+
+    const result = filter(diagnostics, lines);
+
+    expect(result.map((d) => d.message)).to.deep.equal(['Value is not accepted.']);
+  });
+
+  it('should suppress the diagnostics of the lines of a region only', () => {
+    const lines = linesOf([
+      'a: 1',
+      '# yaml-language-server-disable-start',
+      'b: 2',
+      'c: 3',
+      '# yaml-language-server-disable-end',
+      'd: 4',
+    ]);
+    const diagnostics = [makeDiag(0, 'error a'), makeDiag(2, 'error b'), makeDiag(3, 'error c'), makeDiag(5, 'error d')];
+
+    const result = filter(diagnostics, lines);
+
+    expect(result.map((d) => d.message)).to.deep.equal(['error a', 'error d']);
+  });
+
+  it('should suppress the diagnostics up to the end of the file when a region is not closed', () => {
+    const lines = linesOf(['a: 1', '# yaml-language-server-disable-start not accepted', 'b: 2', 'c: 3']);
+    const diagnostics = [makeDiag(2, 'Value is not accepted.'), makeDiag(3, 'Value is not accepted.'), makeDiag(3, 'other')];
+
+    const result = filter(diagnostics, lines);
+
+    expect(result.map((d) => d.message)).to.deep.equal(['other']);
+  });
+
+  it('should suppress diagnostics by code when a code getter is given', () => {
+    const lines = linesOf(['name: hello', '# yaml-language-server-disable enum', 'age: not-a-number']);
+    const diagnostics = [
+      { ...makeDiag(2, 'Incorrect type. Expected number.'), code: 'typeMismatch' },
+      { ...makeDiag(2, 'Value is not accepted.'), code: 'enum' },
+    ];
+
+    const result = filterSuppressedDiagnostics(
+      diagnostics,
+      (d) => d.startLine,
+      (d) => d.message,
+      lines,
+      (d) => d.code
+    );
+
+    expect(result.map((d) => d.code)).to.deep.equal(['typeMismatch']);
+  });
 });
@@ -4,7 +4,9 @@
  *--------------------------------------------------------------------------------------------*/
 import assert from 'assert';
 import * as sinon from 'sinon';
-import type { FormattingOptions, TextEdit } from 'vscode-languageserver-types';
+import type { FormattingOptions } from 'vscode-languageserver-types';
+import { Range, TextEdit } from 'vscode-languageserver-types';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import type { CustomFormatterOptions } from '../src';
 import type { LanguageHandlers } from '../src/languageserver/handlers/languageHandlers';
 import type { SettingsState } from '../src/yamlSettings';
@@ -53,12 +55,25 @@ describe('Formatter Tests', () => {
         });
       }
 
+      function applyEdits(content: string, edits: TextEdit[]): string {
+        return TextDocument.applyEdits(setupTextDocument(content), edits);
+      }
+
       it('Formatting works without custom tags', async () => {
         const content = 'cwd: test';
         const edits = await parseSetup(content);
         console.dir({ edits });
         assert.notEqual(edits.length, 0);
-        assert.equal(edits[0].newText, 'cwd: test\n');
+        assert.equal(applyEdits(content, edits), 'cwd: test\n');
+      });
+
+      it('Formatting only replaces the changed lines', async () => {
+        const content = 'first:   1\nsecond: 2\nthird:    3\n';
+        const edits = await parseSetup(content);
+        assert.deepStrictEqual(edits, [
+          TextEdit.replace(Range.create(0, 0, 1, 0), 'first: 1\n'),
+          TextEdit.replace(Range.create(2, 0, 3, 0), 'third: 3\n'),
+        ]);
       });
 
       it('Formatting can be disabled via language-overridable yaml.format.enable setting', async () => {
@@ -80,7 +95,7 @@ describe('Formatter Tests', () => {
         const content = 'cwd:       !Test test';
         const edits = await parseSetup(content);
         assert.notEqual(edits.length, 0);
-        assert.equal(edits[0].newText, 'cwd: !Test test\n');
+        assert.equal(applyEdits(content, edits), 'cwd: !Test test\n');
       });
 
       it('Formatting wraps text', async () => {
@@ -90,7 +105,10 @@ describe('Formatter Tests', () => {
           printWidth: 20,
           proseWrap: 'always',
         });
-        assert.equal(edits[0].newText, 'comments: >\n  test test test\n  test test test\n  test test test\n  test test test\n');
+        assert.equal(
+          applyEdits(content, edits),
+          'comments: >\n  test test test\n  test test test\n  test test test\n  test test test\n'
+        );
       });
 
       it('Formatting handles trailing commas (enabled)', async () => {
@@ -118,7 +136,7 @@ describe('Formatter Tests', () => {
           trailingComma: false,
         });
         assert.equal(
-          edits[0].newText,
+          applyEdits(content, edits),
           `{
   key: 'value',
   food: 'raisins',
@@ -149,7 +167,7 @@ list:
      - item1
      - item2
 `;
-        assert.equal(edits[0].newText, expected);
+        assert.equal(applyEdits(content, edits), expected);
       });
 
       it('Formatting uses tabWidth', async () => {
@@ -172,7 +190,7 @@ list:
      - item1
      - item2
 `;
-        assert.equal(edits[0].newText, expected);
+        assert.equal(applyEdits(content, edits), expected);
       });
 
       it('Formatting uses tabWidth over tabSize', async () => {
@@ -196,7 +214,7 @@ list:
      - item1
      - item2
 `;
-        assert.equal(edits[0].newText, expected);
+        assert.equal(applyEdits(content, edits), expected);
       });
 
       it("Formatting doesn't replace escaped newlines with real ones", async () => {
@@ -288,7 +306,7 @@ list:
           singleQuote: true,
         });
 
-        assert.equal(edits[0].newText, expected);
+        assert.equal(applyEdits(content, edits), expected);
       });
       it("Formatting empty doc doesn't do anything", async () => {
         const content = `
@@ -301,7 +319,7 @@ list:
           singleQuote: true,
         });
 
-        assert.equal(edits[0].newText, expected);
+        assert.equal(applyEdits(content, edits), expected);
       });
 
       it('Comments separated by blank lines do not inherit indentation of previous lines', async () => {
@@ -328,5 +346,55 @@ more_variables:
         assert.equal(edits.length, 0, `Edits: ${JSON.stringify(edits)}`);
       });
     });
+
+    describe('Range formatting', function () {
+      const content = `first:   1
+# keep   this comment
+second:
+    - a
+    -   b
+other: 2
+third:    3
+`;
+
+      function setupRangeTextDocument(): TextDocument {
+        const testTextDocument = setupTextDocument(content);
+        yamlSettings.documents = new TextDocumentTestManager();
+        (yamlSettings.documents as TextDocumentTestManager).set(testTextDocument);
+        yamlSettings.yamlFormatterSettings = {};
+        return testTextDocument;
+      }
+
+      function parseRangesSetup(ranges: Range[]): Promise<TextEdit[]> {
+        const testTextDocument = setupRangeTextDocument();
+        return languageHandler.rangesFormatterHandler({
+          options: { tabSize: 2, insertSpaces: true },
+          textDocument: testTextDocument,
+          ranges,
+        });
+      }
+
+      it('Formats only the lines of the selection', async () => {
+        const edits = await languageHandler.rangeFormatterHandler({
+          options: { tabSize: 2, insertSpaces: true },
+          textDocument: setupRangeTextDocument(),
+          range: Range.create(2, 0, 4, 9),
+        });
+        assert.deepStrictEqual(edits, [TextEdit.replace(Range.create(3, 0, 5, 0), '  - a\n  - b\n')]);
+      });
+
+      it('Formats each of the given ranges', async () => {
+        const edits = await parseRangesSetup([Range.create(0, 0, 1, 0), Range.create(6, 3, 6, 3)]);
+        assert.deepStrictEqual(edits, [
+          TextEdit.replace(Range.create(0, 0, 1, 0), 'first: 1\n'),
+          TextEdit.replace(Range.create(6, 0, 7, 0), 'third: 3\n'),
+        ]);
+      });
+
+      it('Does not format the lines outside of the ranges', async () => {
+        const edits = await parseRangesSetup([Range.create(1, 0, 2, 6), Range.create(5, 0, 5, 8)]);
+        assert.deepStrictEqual(edits, []);
+      });
+    });
   });
 });
@@ -2,7 +2,12 @@ import assert from 'assert';
 import type { WorkspaceFolder } from 'vscode-languageserver-protocol';
 import { join } from 'path';
 
-import { relativeToAbsolutePath, isRelativePath, workspaceFoldersChanged } from '../src/languageservice/utils/paths';
+import {
+  relativeToAbsolutePath,
+  isRelativePath,
+  resolveWorkspacePath,
+  workspaceFoldersChanged,
+} from '../src/languageservice/utils/paths';
 import { URI } from 'vscode-uri';
 
 class TestWorkspace {
@@ -200,6 +205,16 @@ describe('File path tests', () => {
       it('Resolves "' + path4 + '" in multi-root nested workspace', () => {
         assert.equal(ws4.resolve(path4), 'file:///c%3A/Users/testuser/dev/test/test.json');
       });
+
+      it('Resolves the nested folders of a named workspace folder', () => {
+        const folders = [
+          { uri: 'file:///home/user/c', name: 'c' },
+          { uri: 'file:///home/user/repo', name: 'repo' },
+        ];
+        const root = URI.parse('file:///home/user/');
+        assert.equal(resolveWorkspacePath(folders, root, 'repo/clusters/legacy'), 'file:///home/user/repo/clusters/legacy');
+        assert.equal(resolveWorkspacePath(folders, root, 'clusters/legacy'), 'file:///home/user/clusters/legacy');
+      });
     });
 
     describe('Path with mixed delimiters (Windows only)', () => {
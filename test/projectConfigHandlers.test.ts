@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import sinonChai from 'sinon-chai';
+import type { RemoteClient } from 'vscode-languageserver';
+import { DidChangeWatchedFilesNotification, FileChangeType } from 'vscode-languageserver';
+import { ProjectConfigHandler } from '../src/languageserver/handlers/projectConfigHandlers';
+import type { SettingsHandler } from '../src/languageserver/handlers/settingsHandlers';
+import type { WorkspaceFileProvider } from '../src/languageserver/handlers/validationHandlers';
+import type { Telemetry } from '../src/languageservice/telemetry';
+import { SettingsState } from '../src/yamlSettings';
+
+const expect = chai.expect;
+chai.use(sinonChai);
+
+describe('Project Configuration Handler Tests', () => {
+  const sandbox = sinon.createSandbox();
+  let settingsState: SettingsState;
+  let settingsHandler: { pullConfiguration: sinon.SinonStub };
+  let files: Map<string, string>;
+  let projectConfigHandler: ProjectConfigHandler;
+
+  beforeEach(() => {
+    settingsState = new SettingsState();
+    settingsHandler = { pullConfiguration: sandbox.stub().resolves() };
+    files = new Map();
+    const workspaceFiles: WorkspaceFileProvider = {
+      findFiles: () => Promise.resolve([]),
+      readFile: (uri) => (files.has(uri) ? Promise.resolve(files.get(uri)) : Promise.reject(new Error(`${uri} not found`))),
+    };
+    projectConfigHandler = new ProjectConfigHandler(
+      settingsState,
+      settingsHandler as unknown as SettingsHandler,
+      workspaceFiles,
+      { sendError: sandbox.stub() } as unknown as Telemetry
+    );
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it('should watch the configuration files when the client supports it', async () => {
+    const client = { register: sandbox.stub().resolves() };
+    settingsState.hasWsChangeWatchedFileDynamicRegistration = true;
+    await projectConfigHandler.registerFileWatchers(client as unknown as RemoteClient);
+    expect(client.register).calledOnceWith(DidChangeWatchedFilesNotification.type, {
+      watchers: [
+        { globPattern: '**/.yaml-language-server.yaml' },
+        { globPattern: '**/.yaml-language-server.yml' },
+        { globPattern: '**/.yamllint' },
+        { globPattern: '**/.yamllint.yaml' },
+        { globPattern: '**/.yamllint.yml' },
+      ],
+    });
+  });
+
+  it('should not watch the configuration files when the client does not support it', async () => {
+    const client = { register: sandbox.stub().resolves() };
+    settingsState.hasWsChangeWatchedFileDynamicRegistration = false;
+    await projectConfigHandler.registerFileWatchers(client as unknown as RemoteClient);
+    expect(client.register).not.called;
+  });
+
+  it('should load a configuration file created where none was found', async () => {
+    await projectConfigHandler.documentsOpened(['file:///work/project/test.yaml']);
+    expect(settingsHandler.pullConfiguration).not.called;
+
+    files.set('file:///work/.yamllint', 'rules:\n  truthy: enable\n');
+    await projectConfigHandler.filesChanged([{ uri: 'file:///work/.yamllint', type: FileChangeType.Created }]);
+    expect(settingsState.projectConfigs.map((projectConfig) => projectConfig.uri)).to.deep.equal(['file:///work/.yamllint']);
+    expect(settingsHandler.pullConfiguration).calledOnce;
+  });
+
+  it('should ignore the configuration files of the folders of no open document', async () => {
+    await projectConfigHandler.documentsOpened(['file:///work/project/test.yaml']);
+    files.set('file:///other/.yamllint', 'rules:\n  truthy: enable\n');
+    await projectConfigHandler.filesChanged([{ uri: 'file:///other/.yamllint', type: FileChangeType.Created }]);
+    expect(settingsHandler.pullConfiguration).not.called;
+  });
+});
@@ -0,0 +1,186 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import * as chai from 'chai';
+import * as sinon from 'sinon';
+import sinonChai from 'sinon-chai';
+import type {
+  Connection,
+  RelatedFullDocumentDiagnosticReport,
+  WorkspaceFullDocumentDiagnosticReport,
+} from 'vscode-languageserver';
+import { DocumentDiagnosticReportKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { WorkspaceFileProvider } from '../src/languageserver/handlers/validationHandlers';
+import { ValidationHandler } from '../src/languageserver/handlers/validationHandlers';
+import type { LanguageService } from '../src/languageservice/yamlLanguageService';
+import { SettingsState, TextDocumentTestManager } from '../src/yamlSettings';
+import { ServiceSetup } from './utils/serviceSetup';
+import { setupLanguageService } from './utils/testHelper';
+
+const expect = chai.expect;
+chai.use(sinonChai);
+
+const FOLDER_URI = 'file:///workspace';
+
+describe('Pull Diagnostics Tests', () => {
+  const sandbox = sinon.createSandbox();
+  let languageService: LanguageService;
+  let yamlSettings: SettingsState;
+  let connection: Connection;
+  let refresh: sinon.SinonStub;
+  let files: Map<string, string>;
+  let workspaceFiles: WorkspaceFileProvider;
+
+  before(() => {
+    languageService = setupLanguageService(new ServiceSetup().withValidate().languageSettings).languageService;
+  });
+
+  beforeEach(() => {
+    yamlSettings = new SettingsState();
+    yamlSettings.documents = new TextDocumentTestManager();
+    yamlSettings.hasPullDiagnosticsSupport = true;
+    yamlSettings.workspaceFolders = [{ uri: FOLDER_URI, name: 'workspace' }];
+    yamlSettings.validationDelayMs = 0;
+    refresh = sandbox.stub();
+    connection = {
+      sendDiagnostics: sandbox.stub(),
+      languages: { diagnostics: { refresh } },
+    } as unknown as Connection;
+    files = new Map([
+      [`${FOLDER_URI}/valid.yaml`, 'foo: bar'],
+      [`${FOLDER_URI}/invalid.yaml`, 'foo:\n\t- bar'],
+      [`${FOLDER_URI}/opened.yaml`, 'foo:\n\t- bar'],
+    ]);
+    workspaceFiles = {
+      findFiles: () => Promise.resolve(Array.from(files.keys())),
+      readFile: (uri: string) => Promise.resolve(files.get(uri)),
+    };
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  function openDocument(uri: string, content: string): TextDocument {
+    const document = TextDocument.create(uri, 'yaml', 1, content);
+    (yamlSettings.documents as TextDocumentTestManager).set(document);
+    return document;
+  }
+
+  describe('textDocument/diagnostic', () => {
+    it('should report the diagnostics of an open document', async () => {
+      openDocument(`${FOLDER_URI}/opened.yaml`, 'foo:\n\t- bar');
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings);
+
+      const report = (await validationHandler.documentDiagnosticHandler({
+        textDocument: { uri: `${FOLDER_URI}/opened.yaml` },
+      })) as RelatedFullDocumentDiagnosticReport;
+
+      expect(report.kind).to.equal(DocumentDiagnosticReportKind.Full);
+      expect(report.resultId).to.be.a('string');
+      expect(report.items).to.have.length(1);
+      expect(report.items[0].message).to.equal('Tabs are not allowed as indentation');
+      expect(connection.sendDiagnostics).not.called;
+    });
+
+    it('should report unchanged document with the previous result id', async () => {
+      openDocument(`${FOLDER_URI}/opened.yaml`, 'foo: bar');
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings);
+      const params = { textDocument: { uri: `${FOLDER_URI}/opened.yaml` } };
+
+      const first = (await validationHandler.documentDiagnosticHandler(params)) as RelatedFullDocumentDiagnosticReport;
+      const second = await validationHandler.documentDiagnosticHandler({ ...params, previousResultId: first.resultId });
+
+      expect(second).to.deep.equal({ kind: DocumentDiagnosticReportKind.Unchanged, resultId: first.resultId });
+    });
+
+    it('should invalidate result ids and request a refresh when revalidating', async () => {
+      yamlSettings.hasDiagnosticRefreshSupport = true;
+      const document = openDocument(`${FOLDER_URI}/opened.yaml`, 'foo: bar');
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings);
+      const params = { textDocument: { uri: document.uri } };
+      const first = (await validationHandler.documentDiagnosticHandler(params)) as RelatedFullDocumentDiagnosticReport;
+
+      validationHandler.validate(document);
+      validationHandler.validate(document);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const second = await validationHandler.documentDiagnosticHandler({ ...params, previousResultId: first.resultId });
+      expect(second.kind).to.equal(DocumentDiagnosticReportKind.Full);
+      expect(refresh).calledOnce;
+      expect(connection.sendDiagnostics).not.called;
+    });
+  });
+
+  describe('workspace/diagnostic', () => {
+    it('should report nothing without workspace file provider', async () => {
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings);
+      const report = await validationHandler.workspaceDiagnosticHandler({ previousResultIds: [] });
+      expect(report.items).to.be.empty;
+    });
+
+    it('should report the diagnostics of the files which are not opened', async () => {
+      openDocument(`${FOLDER_URI}/opened.yaml`, 'foo:\n\t- bar');
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings, workspaceFiles);
+
+      const report = await validationHandler.workspaceDiagnosticHandler({ previousResultIds: [] });
+
+      const items = report.items as WorkspaceFullDocumentDiagnosticReport[];
+      expect(items.map((item) => item.uri)).to.deep.equal([`${FOLDER_URI}/valid.yaml`, `${FOLDER_URI}/invalid.yaml`]);
+      expect(items[0].items).to.be.empty;
+      expect(items[1].items).to.have.length(1);
+      expect(items[1].items[0].message).to.equal('Tabs are not allowed as indentation');
+    });
+
+    it('should report unchanged files with their previous result id', async () => {
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings, workspaceFiles);
+      const first = await validationHandler.workspaceDiagnosticHandler({ previousResultIds: [] });
+      files.set(`${FOLDER_URI}/valid.yaml`, 'foo:\n\t- baz');
+
+      const second = await validationHandler.workspaceDiagnosticHandler({
+        previousResultIds: first.items.map((item) => ({ uri: item.uri, value: item.resultId })),
+      });
+
+      expect(second.items.map((item) => item.kind)).to.deep.equal([
+        DocumentDiagnosticReportKind.Full,
+        DocumentDiagnosticReportKind.Unchanged,
+        DocumentDiagnosticReportKind.Unchanged,
+      ]);
+      expect((second.items[0] as WorkspaceFullDocumentDiagnosticReport).items).to.have.length(1);
+    });
+
+    it('should invalidate the result ids of the files which are not opened when a dependency changes', async () => {
+      yamlSettings.hasDiagnosticRefreshSupport = true;
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings, workspaceFiles);
+      const first = await validationHandler.workspaceDiagnosticHandler({ previousResultIds: [] });
+
+      validationHandler.revalidate();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      const second = await validationHandler.workspaceDiagnosticHandler({
+        previousResultIds: first.items.map((item) => ({ uri: item.uri, value: item.resultId })),
+      });
+      expect(second.items.map((item) => item.kind)).to.deep.equal([
+        DocumentDiagnosticReportKind.Full,
+        DocumentDiagnosticReportKind.Full,
+        DocumentDiagnosticReportKind.Full,
+      ]);
+      expect(refresh).calledOnce;
+    });
+
+    it('should only revalidate the given open documents without pull diagnostics', () => {
+      yamlSettings.hasPullDiagnosticsSupport = false;
+      const opened = openDocument(`${FOLDER_URI}/opened.yaml`, 'foo: bar');
+      openDocument(`${FOLDER_URI}/other.yaml`, 'foo: bar');
+      const validationHandler = new ValidationHandler(connection, languageService, yamlSettings);
+      const validate = sandbox.stub(validationHandler, 'validate');
+
+      validationHandler.revalidate([opened.uri, `${FOLDER_URI}/closed.yaml`]);
+
+      expect(validate).calledOnceWith(opened);
+      expect(refresh).not.called;
+    });
+  });
+});
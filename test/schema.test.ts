@@ -19,8 +19,8 @@ import type { SettingsState } from '../src/yamlSettings';
 import { TextDocumentTestManager } from '../src/yamlSettings';
 import type { Diagnostic, MarkupContent } from 'vscode-languageserver-types';
 import { Position } from 'vscode-languageserver-types';
-import { getSchemaFromModeline } from '../src/languageservice/services/modelineUtil';
-import { getGroupVersionKindFromDocument } from '../src/languageservice/services/k8sSchemaUtil';
+import { getKubernetesVersionFromModeline, getSchemaFromModeline } from '../src/languageservice/services/modelineUtil';
+import { getCustomResourceSchemas, getGroupVersionKindFromDocument } from '../src/languageservice/services/k8sSchemaUtil';
 
 const KUBERNETES_SCHEMA_URL = `https://raw.githubusercontent.com/yannh/kubernetes-json-schema/master/${DEFAULT_KUBERNETES_SCHEMA_VERSION}-standalone-strict/all.json`;
 
@@ -1144,6 +1144,75 @@ address:
     }
   });
 
+  describe('Test getCustomResourceSchemas', function () {
+    it('should extract the schema of each served version', () => {
+      const content = `apiVersion: apiextensions.k8s.io/v1
+kind: CustomResourceDefinition
+spec:
+  group: example.com
+  names:
+    kind: Widget
+  versions:
+    - name: v1
+      served: true
+      schema:
+        openAPIV3Schema:
+          type: object
+          properties:
+            size:
+              type: string
+              nullable: true
+              enum: [small, large]
+            default:
+              type: integer
+    - name: v1alpha1
+      served: false
+      schema:
+        openAPIV3Schema:
+          type: object
+---
+kind: ConfigMap
+`;
+      assert.deepStrictEqual(getCustomResourceSchemas(content), [
+        {
+          group: 'example.com',
+          version: 'v1',
+          kind: 'Widget',
+          schema: {
+            type: 'object',
+            properties: {
+              size: { type: ['string', 'null'], nullable: true, enum: ['small', 'large'] },
+              default: { type: 'integer' },
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should share the schema of v1beta1 definitions between their versions', () => {
+      const content = `apiVersion: apiextensions.k8s.io/v1beta1
+kind: CustomResourceDefinition
+spec:
+  group: example.com
+  names:
+    kind: Widget
+  versions:
+    - name: v1beta1
+    - name: v1
+  validation:
+    openAPIV3Schema:
+      type: object
+`;
+      assert.deepStrictEqual(
+        getCustomResourceSchemas(content).map(({ version, schema }) => ({ version, schema })),
+        [
+          { version: 'v1beta1', schema: { type: 'object' } },
+          { version: 'v1', schema: { type: 'object' } },
+        ]
+      );
+    });
+  });
+
   describe('Test schema validation disabling via modeline', function () {
     it('should not validate when schema is disabled via modeline with $schema=none', async () => {
       const schema = {
@@ -1172,6 +1241,19 @@ address:
     });
   });
 
+  describe('Test getKubernetesVersionFromModeline', function () {
+    it('should return the version next to the schema', () => {
+      const yamlDoc = parser.parse('# yaml-language-server: $schema=expectedUrl $k8sVersion=v1.29.0\nkind: Pod').documents[0];
+      assert.strictEqual(getKubernetesVersionFromModeline(yamlDoc), 'v1.29.0');
+      assert.strictEqual(getSchemaFromModeline(yamlDoc), 'expectedUrl');
+    });
+
+    it('should return undefined without version', () => {
+      const yamlDoc = parser.parse('# yaml-language-server: $schema=expectedUrl\nkind: Pod').documents[0];
+      assert.strictEqual(getKubernetesVersionFromModeline(yamlDoc), undefined);
+    });
+  });
+
   describe('Test getSchemaFromModeline', function () {
     it('simple case', async () => {
       checkReturnSchemaUrl('# yaml-language-server: $schema=expectedUrl', 'expectedUrl');
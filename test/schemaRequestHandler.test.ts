@@ -3,6 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import type { CachedSchema, SchemaCacheOptions } from '../src/languageservice/services/schemaRequestHandler';
 import { schemaRequestHandler } from '../src/languageservice/services/schemaRequestHandler';
 import * as sinon from 'sinon';
 import * as request from 'request-light';
@@ -149,4 +150,91 @@ describe('Schema Request Handler Tests', () => {
       }
     });
   });
+
+  describe('Schema cache', () => {
+    const sandbox = sinon.createSandbox();
+    const uri = 'https://example.com/schema.json';
+    const connection = {} as Connection;
+    let xhrStub: sinon.SinonStub;
+    let entries: Map<string, CachedSchema>;
+    let schemaCache: SchemaCacheOptions;
+
+    beforeEach(() => {
+      xhrStub = sandbox.stub(request, 'xhr');
+      xhrStub.resolves({ responseText: '{"new": true}', status: 200, headers: { etag: '"v2"' } } as unknown as XHRResponse);
+      entries = new Map();
+      schemaCache = {
+        cache: {
+          get: async (key) => entries.get(key),
+          set: async (key, schema) => {
+            entries.set(key, schema);
+          },
+        },
+        ttl: 60 * 1000,
+        offline: false,
+      };
+    });
+
+    afterEach(() => {
+      sandbox.restore();
+    });
+
+    function requestSchema(): Promise<string> {
+      return schemaRequestHandler(connection, uri, [], URI.parse(''), false, testFileSystem, false, schemaCache);
+    }
+
+    it('should store the fetched content with its revalidation headers', async () => {
+      expect(await requestSchema()).to.equal('{"new": true}');
+      expect(entries.get(uri)).to.include({ content: '{"new": true}', etag: '"v2"' });
+    });
+
+    it('should serve fresh cached content without a request', async () => {
+      entries.set(uri, { content: '{"cached": true}', timestamp: Date.now() });
+      expect(await requestSchema()).to.equal('{"cached": true}');
+      expect(xhrStub).not.called;
+    });
+
+    it('should revalidate expired content with its ETag and Last-Modified date', async () => {
+      entries.set(uri, {
+        content: '{"cached": true}',
+        etag: '"v1"',
+        lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+        timestamp: Date.now() - 2 * 60 * 1000,
+      });
+      xhrStub.rejects({ responseText: '', status: 304, headers: {} } as XHRResponse);
+
+      expect(await requestSchema()).to.equal('{"cached": true}');
+      const { headers } = xhrStub.firstCall.args[0];
+      expect(headers['If-None-Match']).to.equal('"v1"');
+      expect(headers['If-Modified-Since']).to.equal('Mon, 01 Jan 2024 00:00:00 GMT');
+      expect(Date.now() - entries.get(uri).timestamp).to.be.lessThan(60 * 1000);
+    });
+
+    it('should replace expired content that changed', async () => {
+      entries.set(uri, { content: '{"cached": true}', etag: '"v1"', timestamp: 0 });
+      expect(await requestSchema()).to.equal('{"new": true}');
+      expect(entries.get(uri)).to.include({ content: '{"new": true}', etag: '"v2"' });
+    });
+
+    it('should serve expired content when the request fails', async () => {
+      entries.set(uri, { content: '{"cached": true}', timestamp: 0 });
+      xhrStub.rejects({ responseText: 'Unable to access', status: 500, headers: {} } as XHRResponse);
+      expect(await requestSchema()).to.equal('{"cached": true}');
+    });
+
+    it('should only serve cached content in offline mode', async () => {
+      schemaCache.offline = true;
+      entries.set(uri, { content: '{"cached": true}', timestamp: 0 });
+      expect(await requestSchema()).to.equal('{"cached": true}');
+
+      entries.clear();
+      try {
+        await requestSchema();
+        expect.fail('Expected promise to be rejected');
+      } catch (err) {
+        expect(err).to.equal(`Unable to load ${uri} in offline mode, it has not been cached.`);
+      }
+      expect(xhrStub).not.called;
+    });
+  });
 });
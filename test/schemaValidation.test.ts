@@ -28,7 +28,7 @@ import type { LanguageService } from '../src/languageservice/yamlLanguageService
 import type { IProblem } from '../src/languageservice/parser/schemaValidation/baseValidator';
 import type { JSONSchema } from '../src/languageservice/jsonSchema';
 import type { TestTelemetry } from './utils/testsTypes';
-import { ErrorCode } from '../src/languageservice/jsonLanguageTypes';
+import { SCHEMA_PROBLEM_CODES_DOCUMENTATION, SchemaProblemCode } from '../src/languageservice/jsonLanguageTypes';
 import { DEFAULT_KUBERNETES_SCHEMA_VERSION } from '../src/languageservice/utils/schemaUrls';
 
 const KUBERNETES_SCHEMA_URL = `https://raw.githubusercontent.com/yannh/kubernetes-json-schema/master/${DEFAULT_KUBERNETES_SCHEMA_VERSION}-standalone-strict/all.json`;
@@ -148,7 +148,8 @@ describe('Validation Tests', () => {
           15,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -175,7 +176,8 @@ describe('Validation Tests', () => {
           10,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -345,7 +347,8 @@ describe('Validation Tests', () => {
           16,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -372,7 +375,8 @@ describe('Validation Tests', () => {
           7,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -415,7 +419,8 @@ describe('Validation Tests', () => {
           12,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.Pattern
         )
       );
     });
@@ -452,7 +457,7 @@ describe('Validation Tests', () => {
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
           `file:///${SCHEMA_ID}`,
-          ErrorCode.PropertyExpected
+          SchemaProblemCode.PropertyNotAllowed
         )
       );
     });
@@ -543,7 +548,8 @@ describe('Validation Tests', () => {
           32,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.InvalidPattern
         )
       );
     });
@@ -586,7 +592,8 @@ describe('Validation Tests', () => {
           11,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -734,7 +741,8 @@ describe('Validation Tests', () => {
           13,
           DiagnosticSeverity.Error,
           `yaml-schema: Object`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -780,7 +788,8 @@ describe('Validation Tests', () => {
           15,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -961,7 +970,9 @@ describe('Validation Tests', () => {
           15,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.Required,
+          { missingProperty: 'otherkey' }
         )
       );
     });
@@ -1026,7 +1037,8 @@ obj:
           22,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -1159,7 +1171,8 @@ obj:
           4,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -1436,12 +1449,52 @@ spec:
           12,
           DiagnosticSeverity.Error,
           'yaml-schema: Schema Super title',
-          'file:///default_schema_id.yaml'
+          'file:///default_schema_id.yaml',
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
   });
 
+  describe('Schema diagnostic codes', () => {
+    beforeEach(() => {
+      schemaProvider.addSchema(SCHEMA_ID, {
+        type: 'object',
+        required: ['name'],
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string', pattern: '^[a-z]+$' },
+          kind: { enum: ['a', 'b'] },
+          size: { type: 'number', minimum: 1 },
+          tags: { type: 'array', maxItems: 1, uniqueItems: true },
+        },
+      });
+    });
+
+    it('reports a stable code for each problem kind', async () => {
+      const result = await parseSetup('name: A\nkind: c\nsize: 0\ntags: [x, x]\nother: 1\n');
+      expect(result.map((diagnostic) => diagnostic.code)).to.have.members([
+        SchemaProblemCode.Pattern,
+        SchemaProblemCode.Enum,
+        SchemaProblemCode.Minimum,
+        SchemaProblemCode.MaxItems,
+        SchemaProblemCode.UniqueItems,
+        SchemaProblemCode.PropertyNotAllowed,
+      ]);
+      expect((await parseSetup('kind: a\n')).map((diagnostic) => diagnostic.code)).to.deep.equal([SchemaProblemCode.Required]);
+    });
+
+    it('links the codes to their documentation', async () => {
+      const result = await parseSetup('name: 1\n');
+      expect(result[0].codeDescription).to.deep.equal({ href: SCHEMA_PROBLEM_CODES_DOCUMENTATION });
+    });
+
+    it('suppresses the diagnostics by code', async () => {
+      const result = await parseSetup('name: a\n# yaml-language-server-disable typeMismatch, enum\nsize: x\nkind: c\n');
+      expect(result.map((diagnostic) => diagnostic.code)).to.deep.equal([SchemaProblemCode.Enum]);
+    });
+  });
+
   describe('Multiple schema for single file', () => {
     after(() => {
       // remove Kubernetes setting not to affect next tests
@@ -1466,7 +1519,8 @@ spec:
           18,
           DiagnosticSeverity.Error,
           'yaml-schema: Composer Package',
-          'https://raw.githubusercontent.com/composer/composer/master/res/composer-schema.json'
+          'https://raw.githubusercontent.com/composer/composer/master/res/composer-schema.json',
+          SchemaProblemCode.TypeMismatch
         )
       );
     });
@@ -1488,7 +1542,7 @@ spec:
           DiagnosticSeverity.Error,
           'yaml-schema: Drone CI configuration file',
           'https://json.schemastore.org/drone',
-          ErrorCode.PropertyExpected,
+          SchemaProblemCode.PropertyNotAllowed,
           {
             properties: [
               'type',
@@ -1798,7 +1852,9 @@ spec:
           0,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.Required,
+          { missingProperty: 'scripts' }
         )
       );
     });
@@ -1825,7 +1881,9 @@ spec:
           1,
           DiagnosticSeverity.Error,
           `yaml-schema: file:///${SCHEMA_ID}`,
-          `file:///${SCHEMA_ID}`
+          `file:///${SCHEMA_ID}`,
+          SchemaProblemCode.Required,
+          { missingProperty: 'scripts' }
         )
       );
     });
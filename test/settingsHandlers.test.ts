@@ -15,6 +15,9 @@ import { SchemaPriority } from '../src';
 import { SettingsHandler } from '../src/languageserver/handlers/settingsHandlers';
 import { ValidationHandler } from '../src/languageserver/handlers/validationHandlers';
 import { EMPTY_SCHEMA_URL } from '../src/languageservice/utils/schemaUrls';
+import { parseProjectConfig } from '../src/languageservice/utils/projectConfig';
+import type { SchemaDetectionRule } from '../src/languageservice/utils/schemaDetection';
+import { DEFAULT_SCHEMA_DETECTION_RULES } from '../src/languageservice/utils/schemaDetection';
 import type { Telemetry } from '../src/languageservice/telemetry';
 import { SettingsState } from '../src/yamlSettings';
 import { TestCustomSchemaProvider, setupLanguageService, setupSchemaIDTextDocument, setupTextDocument } from './utils/testHelper';
@@ -129,6 +132,34 @@ describe('Settings Handlers Tests', () => {
     expect(sendRequest).not.called;
   });
 
+  it('should resolve the schema packs and extract their archives', async () => {
+    settingsState.workspaceRoot = URI.file('/work');
+    settingsState.schemaPackArchiveExtractor = sandbox.stub().resolves('file:///cache/packs/1234/v1.29.0');
+    workspaceStub.getConfiguration.resolves([
+      {
+        schemaStore: { enable: false },
+        schemaPacks: [{ path: 'packs/v1.30.0' }, { path: '/archives/v1.29.0.tgz', folders: ['legacy'] }],
+      },
+      {},
+      {},
+      {},
+      {},
+    ]);
+    const settingsHandler = new SettingsHandler(
+      connection,
+      languageService as unknown as LanguageService,
+      settingsState,
+      validationHandler as unknown as ValidationHandler,
+      {} as Telemetry
+    );
+    await settingsHandler.pullConfiguration();
+    expect(settingsState.schemaPackArchiveExtractor).calledOnceWith(URI.file('/archives/v1.29.0.tgz').toString());
+    expect(settingsState.schemaPacks).to.deep.equal([
+      { uri: URI.file('/work/packs/v1.30.0').toString(), folders: [] },
+      { uri: 'file:///cache/packs/1234/v1.29.0', folders: [URI.file('/work/legacy').toString()] },
+    ]);
+  });
+
   describe('Settings for YAML style should ', () => {
     it(' reflect to the settings ', async () => {
       const settingsHandler = new SettingsHandler(
@@ -241,6 +272,90 @@ describe('Settings Handlers Tests', () => {
       await settingsHandler.pullConfiguration();
       expect(settingsState.kubernetesVersion).to.equal(undefined);
     });
+
+    it('resolves the folder versions against the workspace and ignores the invalid ones', async () => {
+      settingsState.workspaceRoot = URI.file('/work');
+      const settingsHandler = new SettingsHandler(
+        connection,
+        languageService as unknown as LanguageService,
+        settingsState,
+        validationHandler as unknown as ValidationHandler,
+        {} as Telemetry
+      );
+      workspaceStub.getConfiguration.resolves([
+        { kubernetesFolderVersions: { 'clusters/legacy': '1.29.0', 'clusters/next': 'latest' } },
+        {},
+        {},
+        {},
+        {},
+      ]);
+
+      await settingsHandler.pullConfiguration();
+      expect(settingsState.kubernetesFolderVersions).to.deep.equal([
+        { folder: URI.file('/work/clusters/legacy').toString(), version: 'v1.29.0' },
+      ]);
+    });
+  });
+
+  describe('Project configurations should ', () => {
+    it('associate their schemas to the files of their folder', async () => {
+      settingsState.projectConfigs = [
+        parseProjectConfig(
+          URI.file('/work/app/.yaml-language-server.yaml').toString(),
+          'schemas:\n  ./schema.json: config/*.yaml\n  kubernetes: deploy/*.yaml\n'
+        ),
+      ];
+      const settingsHandler = new SettingsHandler(
+        connection,
+        languageService as unknown as LanguageService,
+        settingsState,
+        validationHandler as unknown as ValidationHandler,
+        { send: sandbox.stub() } as unknown as Telemetry
+      );
+      workspaceStub.getConfiguration.resolves([{}, {}, {}, {}, {}]);
+      const configureSpy = sinon.stub(languageService, 'configure');
+      await settingsHandler.pullConfiguration();
+      configureSpy.restore();
+
+      const languageSettings = configureSpy.args[0][0];
+      expect(languageSettings.projectConfigs).to.equal(settingsState.projectConfigs);
+      expect(languageSettings.schemas).to.deep.include({
+        uri: URI.file('/work/app/schema.json').toString(),
+        fileMatch: ['config/*.yaml'],
+        priority: SchemaPriority.Settings,
+        folderUri: URI.file('/work/app').toString(),
+      });
+      expect(settingsState.specificValidatorPaths).to.deep.equal(['/work/app/**/deploy/*.yaml']);
+    });
+  });
+
+  describe('Settings for content schema detection should ', () => {
+    async function getSchemaDetectionRules(contentSchemaDetection: unknown): Promise<SchemaDetectionRule[]> {
+      const settingsHandler = new SettingsHandler(
+        connection,
+        languageService as unknown as LanguageService,
+        settingsState,
+        validationHandler as unknown as ValidationHandler,
+        {} as Telemetry
+      );
+      workspaceStub.getConfiguration.resolves([{ contentSchemaDetection }, {}, {}, {}, {}]);
+      const configureSpy = sinon.stub(languageService, 'configure');
+      await settingsHandler.pullConfiguration();
+      configureSpy.restore();
+      return configureSpy.args[0][0].schemaDetectionRules;
+    }
+
+    it('use the rules of the settings before the default rules', async () => {
+      const rule = { uri: 'file:///work/pipeline.json', keys: ['stages'] };
+      const rules = await getSchemaDetectionRules({ enable: true, rules: [rule, { keys: ['invalid'] }] });
+      expect(rules).to.deep.equal([rule, ...DEFAULT_SCHEMA_DETECTION_RULES]);
+    });
+
+    it('use only the rules of the settings by default', async () => {
+      const rule = { uri: 'file:///work/pipeline.json', keys: ['stages'] };
+      const rules = await getSchemaDetectionRules({ rules: [rule] });
+      expect(rules).to.deep.equal([rule]);
+    });
   });
 
   describe('Settings for file associations should ', () => {
@@ -78,6 +78,11 @@ export class ServiceSetup {
     return this;
   }
 
+  withValidateIncludes(validate = true): ServiceSetup {
+    this.languageSettings.validateIncludes = validate;
+    return this;
+  }
+
   withYamlVersion(version: YamlVersion): ServiceSetup {
     this.languageSettings.yamlVersion = version;
     return this;
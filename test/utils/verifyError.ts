@@ -11,7 +11,7 @@ import type {
   SymbolInformation,
 } from 'vscode-languageserver-types';
 import { Diagnostic, DiagnosticSeverity, DiagnosticTag, DocumentSymbol, Range } from 'vscode-languageserver-types';
-import { ErrorCode } from '../../src/languageservice/jsonLanguageTypes';
+import { ErrorCode, SCHEMA_PROBLEM_CODES_DOCUMENTATION, SchemaProblemCode } from '../../src/languageservice/jsonLanguageTypes';
 
 export function createExpectedError(
   message: string,
@@ -48,6 +48,9 @@ export function createDiagnosticWithData(
     source,
     code
   );
+  if (Object.values<string | number>(SchemaProblemCode).includes(code)) {
+    diagnostic.codeDescription = { href: SCHEMA_PROBLEM_CODES_DOCUMENTATION };
+  }
   diagnostic.data = { schemaUri: typeof schemaUri === 'string' ? [schemaUri] : schemaUri, ...data };
   return diagnostic;
 }
@@ -69,6 +72,12 @@ export function createUnusedAnchorDiagnostic(
     'YAML'
   );
   diagnostic.tags = [DiagnosticTag.Unnecessary];
+  diagnostic.data = { rule: 'unused-anchors' };
+  return diagnostic;
+}
+
+export function createLintRuleDiagnostic(diagnostic: Diagnostic, rule: string): Diagnostic {
+  diagnostic.data = { rule };
   return diagnostic;
 }
 
@@ -7,6 +7,7 @@ import * as sinon from 'sinon';
 import sinonChai from 'sinon-chai';
 import * as chai from 'chai';
 import { YamlCodeActions } from '../src/languageservice/services/yamlCodeActions';
+import type { Diagnostic } from 'vscode-languageserver-types';
 import {
   CodeAction,
   CodeActionContext,
@@ -20,10 +21,16 @@ import {
 } from 'vscode-languageserver-types';
 import type { ClientCapabilities, CodeActionParams } from 'vscode-languageserver';
 import { setupTextDocument, TEST_URI } from './utils/testHelper';
+import { TextDocument } from 'vscode-languageserver-textdocument';
 import { createDiagnosticWithData, createExpectedError, createUnusedAnchorDiagnostic } from './utils/verifyError';
 import { YamlCommands } from '../src/commands';
 import type { LanguageSettings } from '../src';
-import { ErrorCode } from '../src/languageservice/jsonLanguageTypes';
+import { SchemaProblemCode } from '../src/languageservice/jsonLanguageTypes';
+import type { JSONSchema } from '../src/languageservice/jsonSchema';
+import { YAMLSchemaService } from '../src/languageservice/services/yamlSchemaService';
+import { YamlCompletion } from '../src/languageservice/services/yamlCompletion';
+import { yamlDocumentsCache } from '../src/languageservice/parser/yaml-documents';
+import { filterSuppressedDiagnostics } from '../src/languageservice/utils/diagnostic-filter';
 
 const expect = chai.expect;
 chai.use(sinonChai);
@@ -575,7 +582,7 @@ two:
         DiagnosticSeverity.Hint,
         'YAML',
         'schemaUri',
-        ErrorCode.EnumValueMismatch,
+        SchemaProblemCode.Enum,
         { values: ['valueX', 'valueY'] }
       );
       const params: CodeActionParams = {
@@ -600,7 +607,7 @@ two:
         DiagnosticSeverity.Hint,
         'YAML',
         'schemaUri',
-        ErrorCode.PropertyExpected,
+        SchemaProblemCode.PropertyNotAllowed,
         {
           properties: ['fooX', 'fooY'],
         }
@@ -627,7 +634,7 @@ two:
         DiagnosticSeverity.Hint,
         'YAML',
         'schemaUri',
-        ErrorCode.EnumValueMismatch,
+        SchemaProblemCode.Enum,
         { values: [5, 10] }
       );
       const params: CodeActionParams = {
@@ -652,7 +659,7 @@ two:
         DiagnosticSeverity.Hint,
         'YAML',
         'schemaUri',
-        ErrorCode.EnumValueMismatch,
+        SchemaProblemCode.Enum,
         { values: ['', '""', "''"] }
       );
       const params: CodeActionParams = {
@@ -669,6 +676,313 @@ two:
     });
   });
 
+  describe('Add missing properties', () => {
+    let schemaService: YAMLSchemaService;
+    let completer: YamlCompletion;
+    beforeEach(() => {
+      clientCapabilities.textDocument = { codeAction: { resolveSupport: { properties: ['edit'] } } };
+      schemaService = new YAMLSchemaService(sandbox.fake.rejects('no schema'));
+      completer = new YamlCompletion(schemaService, clientCapabilities, yamlDocumentsCache);
+      completer.configure({ completion: true, indentation: '  ' });
+    });
+
+    function createMissingPropertyDiagnostic(
+      property: string,
+      startLine: number,
+      startCharacter: number,
+      endLine: number,
+      endCharacter: number
+    ): Diagnostic {
+      return createDiagnosticWithData(
+        `Missing property "${property}".`,
+        startLine,
+        startCharacter,
+        endLine,
+        endCharacter,
+        DiagnosticSeverity.Warning,
+        'YAML',
+        JSON_SCHEMA_LOCAL,
+        undefined,
+        { missingProperty: property }
+      );
+    }
+
+    async function getCodeActions(content: string, schema: JSONSchema, diagnostics: Diagnostic[]): Promise<CodeAction[]> {
+      schemaService.registerExternalSchema(JSON_SCHEMA_LOCAL, ['*.yaml'], schema);
+      const doc = setupTextDocument(content);
+      const params: CodeActionParams = {
+        context: CodeActionContext.create(diagnostics),
+        range: undefined,
+        textDocument: TextDocumentIdentifier.create(TEST_URI),
+      };
+      const actions = new YamlCodeActions(clientCapabilities, completer);
+      return Promise.all(actions.getCodeAction(doc, params).map((action) => actions.resolveCodeAction(doc, action)));
+    }
+
+    it('should insert all the missing properties of a mapping after its last property', async () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+          spec: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              replicas: { type: 'integer', default: 1 },
+              image: { type: 'string', default: 'nginx:1.27' },
+              ports: { type: 'array', items: { type: 'integer' } },
+            },
+            required: ['replicas', 'image', 'ports'],
+          },
+        },
+      };
+      const diagnostics = [
+        createMissingPropertyDiagnostic('replicas', 1, 0, 1, 4),
+        createMissingPropertyDiagnostic('image', 1, 0, 1, 4),
+        createMissingPropertyDiagnostic('ports', 1, 0, 1, 4),
+      ];
+      const result = await getCodeActions('kind: Deployment\nspec:\n  name: web # the name\n\nother: 1\n', schema, diagnostics);
+      expect(result.map((action) => action.title)).to.deep.equal(['Add missing properties: replicas, image, ports']);
+      expect(result[0].diagnostics).to.deep.equal(diagnostics);
+      expect(result[0].edit.changes[TEST_URI]).to.deep.equal([
+        TextEdit.insert(Position.create(2, 22), '\n  replicas: 1\n  image: nginx:1.27\n  ports:\n    - 0'),
+      ]);
+    });
+
+    it('should insert nested required properties and the properties of all the subschemas', async () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: { kind: { type: 'string' } },
+        allOf: [
+          {
+            properties: {
+              metadata: {
+                type: 'object',
+                properties: { name: { type: 'string', default: 'default' }, labels: { type: 'object' } },
+                required: ['name'],
+              },
+            },
+            required: ['metadata'],
+          },
+          { properties: { spec: { type: 'object' } }, required: ['spec'] },
+        ],
+      };
+      const diagnostics = [
+        createMissingPropertyDiagnostic('metadata', 0, 0, 0, 1),
+        createMissingPropertyDiagnostic('spec', 0, 0, 0, 1),
+      ];
+      const result = await getCodeActions('kind: Pod\n', schema, diagnostics);
+      expect(result[0].edit.changes[TEST_URI]).to.deep.equal([
+        TextEdit.insert(Position.create(0, 9), '\nmetadata:\n  name: default\nspec:'),
+      ]);
+    });
+
+    it('should use the indentation of the mapping in a sequence', async () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        properties: {
+          items: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, value: { type: 'string', const: 'x' } },
+              required: ['value'],
+            },
+          },
+        },
+      };
+      const diagnostics = [createMissingPropertyDiagnostic('value', 1, 4, 1, 5)];
+      const result = await getCodeActions('items:\n  - name: a\n', schema, diagnostics);
+      expect(result[0].edit.changes[TEST_URI]).to.deep.equal([TextEdit.insert(Position.create(1, 11), '\n    value: x')]);
+    });
+
+    it('should not compute the edit before the action is resolved', async () => {
+      const doc = setupTextDocument('kind: Pod\n');
+      const params: CodeActionParams = {
+        context: CodeActionContext.create([createMissingPropertyDiagnostic('spec', 0, 0, 0, 1)]),
+        range: undefined,
+        textDocument: TextDocumentIdentifier.create(TEST_URI),
+      };
+      const result = await new YamlCodeActions(clientCapabilities, completer).getResolvedCodeAction(doc, params);
+      expect(result).to.have.length(1);
+      expect(result[0].edit).to.be.undefined;
+      expect(result[0].data).to.deep.equal({ uri: TEST_URI, missingProperties: ['spec'] });
+    });
+
+    it('should compute the edit right away when the client cannot resolve it', async () => {
+      schemaService.registerExternalSchema(JSON_SCHEMA_LOCAL, ['*.yaml'], {
+        type: 'object',
+        properties: {
+          spec: { type: 'object', properties: { replicas: { type: 'integer', default: 1 } }, required: ['replicas'] },
+        },
+      });
+      const doc = setupTextDocument('kind: Pod\n');
+      const params: CodeActionParams = {
+        context: CodeActionContext.create([createMissingPropertyDiagnostic('spec', 0, 0, 0, 1)]),
+        range: undefined,
+        textDocument: TextDocumentIdentifier.create(TEST_URI),
+      };
+      const result = await new YamlCodeActions({}, completer).getResolvedCodeAction(doc, params);
+      expect(result.map((action) => action.title)).to.deep.equal(['Add missing properties: spec']);
+      expect(result[0].edit.changes[TEST_URI]).to.deep.equal([TextEdit.insert(Position.create(0, 9), '\nspec:\n  replicas: 1')]);
+    });
+
+    it('should not provide the action for flow mappings', async () => {
+      const diagnostics = [createMissingPropertyDiagnostic('value', 0, 0, 0, 3)];
+      expect(await getCodeActions('obj: {name: a}\n', { type: 'object' }, diagnostics)).to.be.empty;
+    });
+  });
+
+  describe('Replace deprecated Kubernetes apiVersion', () => {
+    it('should replace the apiVersion with its replacement', () => {
+      const doc = setupTextDocument('apiVersion: extensions/v1beta1\nkind: Ingress\n');
+      const diagnostic = createDiagnosticWithData(
+        'extensions/v1beta1 Ingress is no longer served since Kubernetes 1.22, use networking.k8s.io/v1 instead',
+        0,
+        12,
+        0,
+        30,
+        DiagnosticSeverity.Error,
+        'YAML',
+        undefined,
+        'kubernetesDeprecatedApi',
+        { replacement: 'networking.k8s.io/v1' }
+      );
+      const params: CodeActionParams = {
+        context: CodeActionContext.create([diagnostic]),
+        range: undefined,
+        textDocument: TextDocumentIdentifier.create(TEST_URI),
+      };
+      const result = new YamlCodeActions(clientCapabilities).getCodeAction(doc, params);
+      expect(result).to.have.length(1);
+      expect(result[0].title).to.equal('Change apiVersion to networking.k8s.io/v1');
+      expect(result[0].edit.changes[TEST_URI]).to.deep.equal([
+        TextEdit.replace(Range.create(0, 12, 0, 30), 'networking.k8s.io/v1'),
+      ]);
+    });
+
+    it('should not provide a quick fix for the removed APIs without replacement', () => {
+      const doc = setupTextDocument('apiVersion: policy/v1beta1\nkind: PodSecurityPolicy\n');
+      const diagnostic = createDiagnosticWithData(
+        'policy/v1beta1 PodSecurityPolicy is no longer served since Kubernetes 1.25',
+        0,
+        12,
+        0,
+        26,
+        DiagnosticSeverity.Error,
+        'YAML',
+        undefined,
+        'kubernetesDeprecatedApi',
+        {}
+      );
+      const params: CodeActionParams = {
+        context: CodeActionContext.create([diagnostic]),
+        range: undefined,
+        textDocument: TextDocumentIdentifier.create(TEST_URI),
+      };
+      expect(new YamlCodeActions(clientCapabilities).getCodeAction(doc, params)).to.be.empty;
+    });
+  });
+
+  describe('Suppress diagnostic', () => {
+    function getSuppressActions(content: string, diagnostic: Diagnostic): CodeAction[] {
+      const actions = new YamlCodeActions(clientCapabilities);
+      actions.configure({ indentation: '  ', suppressionCodeActions: true }, 80);
+      const params: CodeActionParams = {
+        context: CodeActionContext.create([diagnostic]),
+        range: undefined,
+        textDocument: TextDocumentIdentifier.create(TEST_URI),
+      };
+      return actions.getCodeAction(setupTextDocument(content), params).filter((action) => action.title.startsWith('Suppress'));
+    }
+
+    it('should insert the comment of the code of the diagnostic before its line or at the top of the file', () => {
+      const diagnostic = createDiagnosticWithData(
+        'Incorrect type. Expected "string".',
+        2,
+        10,
+        2,
+        11,
+        DiagnosticSeverity.Error,
+        'YAML',
+        'schemaUri',
+        SchemaProblemCode.TypeMismatch
+      );
+      const result = getSuppressActions('root:\n  child:\n    name: 1\n', diagnostic);
+      expect(result.map((action) => action.title)).to.deep.equal([
+        'Suppress "code:typeMismatch" on this line',
+        'Suppress "code:typeMismatch" in this file',
+      ]);
+      expect(result[0].diagnostics).to.deep.equal([diagnostic]);
+      expect(result[0].edit.changes[TEST_URI]).to.deep.equal([
+        TextEdit.insert(Position.create(2, 0), '    # yaml-language-server-disable code:typeMismatch\n'),
+      ]);
+      expect(result[1].edit.changes[TEST_URI]).to.deep.equal([
+        TextEdit.insert(Position.create(0, 0), '# yaml-language-server-disable-file code:typeMismatch\n'),
+      ]);
+    });
+
+    it('should add the specifier to the comment of the previous line', () => {
+      const diagnostic = createExpectedError('Value is not accepted.', 1, 6, 1, 7);
+      const result = getSuppressActions('# yaml-language-server-disable typeMismatch  \nkind: c\n', diagnostic);
+      expect(result[0].title).to.equal('Suppress "Value is not accepted." on this line');
+      expect(result[0].edit.changes[TEST_URI]).to.deep.equal([
+        TextEdit.insert(Position.create(0, 43), ', Value is not accepted.'),
+      ]);
+    });
+
+    it('should not provide the actions for a diagnostic without code whose message contains a separator', () => {
+      const diagnostic = createExpectedError('Value is not accepted, valid values: "a", "b".', 0, 6, 0, 7);
+      expect(getSuppressActions('kind: c\n', diagnostic)).to.be.empty;
+    });
+
+    it('should insert a comment suppressing only the selected diagnostic', () => {
+      const content = 'comments: 1 #x\n';
+      const selected = createDiagnosticWithData(
+        'Missing starting space in comment',
+        0,
+        12,
+        0,
+        14,
+        DiagnosticSeverity.Warning,
+        'YAML',
+        undefined,
+        'comments'
+      );
+      const other = createDiagnosticWithData(
+        'Property comments is not allowed.',
+        0,
+        0,
+        0,
+        8,
+        DiagnosticSeverity.Error,
+        'YAML',
+        'schemaUri',
+        SchemaProblemCode.PropertyNotAllowed
+      );
+      const [lineAction] = getSuppressActions(content, selected);
+      const lines = TextDocument.applyEdits(setupTextDocument(content), lineAction.edit.changes[TEST_URI]).split('\n');
+      const remaining = filterSuppressedDiagnostics(
+        [selected, other],
+        // the diagnostics move to the next line with the inserted comment
+        (diagnostic) => diagnostic.range.start.line + 1,
+        (diagnostic) => diagnostic.message,
+        (line) => lines[line],
+        (diagnostic) => diagnostic.code
+      );
+      expect(remaining).to.deep.equal([other]);
+    });
+
+    it('should not provide the actions unless configured', () => {
+      const diagnostic = createExpectedError('Value is not accepted.', 0, 6, 0, 7);
+      const params: CodeActionParams = {
+        context: CodeActionContext.create([diagnostic]),
+        range: undefined,
+        textDocument: TextDocumentIdentifier.create(TEST_URI),
+      };
+      expect(new YamlCodeActions(clientCapabilities).getCodeAction(setupTextDocument('kind: c\n'), params)).to.be.empty;
+    });
+  });
+
   describe('Change string to block string', function () {
     it('should split up double quoted text with newlines', function () {
       const doc = setupTextDocument('foo: "line 1\\nline 2\\nline 3"');
@@ -3,11 +3,21 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { setupTextDocument, TEST_URI } from './utils/testHelper';
+import * as path from 'path';
+import {
+  setupLanguageService,
+  setupSchemaIDTextDocument,
+  setupTextDocument,
+  SCHEMA_ID,
+  TEST_URI,
+  toFsPath,
+} from './utils/testHelper';
 import { expect } from 'chai';
 import { YamlDefinition } from '../src/languageservice/services/yamlDefinition';
 import { LocationLink, Position, Range } from 'vscode-languageserver-types';
 import type { Telemetry } from '../src/languageservice/telemetry';
+import type { LanguageService } from '../src';
+import { ServiceSetup } from './utils/serviceSetup';
 
 describe('YAML Definition', () => {
   it('should not provide definition for non anchor node', () => {
@@ -28,4 +38,126 @@ describe('YAML Definition', () => {
     expect(result).is.not.undefined;
     expect(result[0]).is.eqls(LocationLink.create(TEST_URI, Range.create(0, 10, 1, 0), Range.create(0, 10, 0, 14)));
   });
+
+  describe('Kubernetes references', () => {
+    const content = [
+      'apiVersion: v1',
+      'kind: ConfigMap',
+      'metadata:',
+      '  name: settings',
+      '---',
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'metadata:',
+      '  name: web',
+      'spec:',
+      '  template:',
+      '    metadata:',
+      '      labels:',
+      '        app: web',
+      '    spec:',
+      '      volumes:',
+      '        - name: config',
+      '          configMap:',
+      '            name: settings',
+      '---',
+      'apiVersion: v1',
+      'kind: Service',
+      'metadata:',
+      '  name: web',
+      'spec:',
+      '  selector:',
+      '    app: web',
+      '',
+    ].join('\n');
+
+    function getDefinition(position: Position, isKubernetes = true): LocationLink[] {
+      return new YamlDefinition({} as Telemetry).getDefinition(
+        setupTextDocument(content),
+        {
+          position,
+          textDocument: { uri: TEST_URI },
+        },
+        isKubernetes
+      ) as LocationLink[];
+    }
+
+    it('should provide the document defining the referenced resource', () => {
+      const result = getDefinition(Position.create(18, 20));
+      expect(result).to.deep.equal([
+        LocationLink.create(TEST_URI, Range.create(0, 0, 4, 0), Range.create(3, 8, 3, 16), Range.create(18, 18, 18, 26)),
+      ]);
+    });
+
+    it('should provide the pod templates matching a Service selector', () => {
+      const result = getDefinition(Position.create(26, 9));
+      expect(result).to.deep.equal([
+        LocationLink.create(TEST_URI, Range.create(5, 0, 19, 0), Range.create(13, 8, 14, 0), Range.create(26, 4, 27, 0)),
+      ]);
+    });
+
+    it('should not provide definition for the name of a resource', () => {
+      const result = getDefinition(Position.create(3, 10));
+      expect(result).to.be.undefined;
+    });
+
+    it('should only provide the definitions in the Kubernetes documents', () => {
+      const result = getDefinition(Position.create(18, 20), false);
+      expect(result).to.be.undefined;
+    });
+  });
+
+  describe('Schema definition', () => {
+    const rootSchemaUri = toFsPath(path.join(__dirname, './fixtures/definition/root.json'));
+    const metadataSchemaUri = toFsPath(path.join(__dirname, './fixtures/definition/metadata.json'));
+    let languageService: LanguageService;
+
+    before(() => {
+      const languageSettingsSetup = new ServiceSetup().withSchemaFileMatch({ uri: rootSchemaUri, fileMatch: [SCHEMA_ID] });
+      languageService = setupLanguageService(languageSettingsSetup.languageSettings).languageService;
+    });
+
+    function getDefinition(content: string, position: Position): Promise<LocationLink[]> {
+      const doc = setupSchemaIDTextDocument(content);
+      return languageService.doSchemaDefinition(doc, { position, textDocument: { uri: SCHEMA_ID } }) as Promise<LocationLink[]>;
+    }
+
+    it('should provide the property schema for a key', async () => {
+      const result = await getDefinition('name: test', Position.create(0, 2));
+      expect(result).to.deep.equal([
+        LocationLink.create(rootSchemaUri, Range.create(4, 12, 6, 5), Range.create(4, 4, 4, 10), Range.create(0, 0, 0, 4)),
+      ]);
+    });
+
+    it('should provide the property schema for a value', async () => {
+      const result = await getDefinition('name: test', Position.create(0, 8));
+      expect(result[0].targetSelectionRange).to.deep.equal(Range.create(4, 4, 4, 10));
+      expect(result[0].originSelectionRange).to.deep.equal(Range.create(0, 6, 0, 10));
+    });
+
+    it('should provide the schema a local $ref resolves to', async () => {
+      const result = await getDefinition('container:\n  image: nginx', Position.create(1, 3));
+      expect(result).to.deep.equal([
+        LocationLink.create(rootSchemaUri, Range.create(18, 17, 20, 9), Range.create(18, 8, 18, 15), Range.create(1, 2, 1, 7)),
+      ]);
+    });
+
+    it('should provide the definition a $ref resolves to for a key', async () => {
+      const result = await getDefinition('container:\n  image: nginx', Position.create(0, 3));
+      expect(result[0].targetUri).to.equal(rootSchemaUri);
+      expect(result[0].targetSelectionRange).to.deep.equal(Range.create(15, 4, 15, 15));
+    });
+
+    it('should provide the schema an external $ref resolves to', async () => {
+      const result = await getDefinition('metadata:\n  labels: {}', Position.create(0, 3));
+      expect(result).to.deep.equal([
+        LocationLink.create(metadataSchemaUri, Range.create(0, 0, 7, 1), Range.create(0, 0, 7, 1), Range.create(0, 0, 0, 8)),
+      ]);
+    });
+
+    it('should not provide definition for unknown property', async () => {
+      const result = await getDefinition('unknown: test', Position.create(0, 2));
+      expect(result).to.be.undefined;
+    });
+  });
 });
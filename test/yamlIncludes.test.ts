@@ -0,0 +1,152 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { expect } from 'chai';
+import { promises as fs } from 'fs';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DiagnosticSeverity, Position, Range } from 'vscode-languageserver-types';
+import { URI } from 'vscode-uri';
+import type { LanguageService, LanguageSettings } from '../src';
+import { getLanguageService } from '../src';
+import { yamlDocumentsCache } from '../src/languageservice/parser/yaml-documents';
+import { resolveIncludeUri } from '../src/languageservice/utils/includeUtils';
+import { workspaceContext } from '../src/languageservice/services/schemaRequestHandler';
+import { ServiceSetup } from './utils/serviceSetup';
+import { toFsPath } from './utils/testHelper';
+
+const MAIN_URI = toFsPath('test/fixtures/include/main.yaml');
+const CONTAINER_URI = toFsPath('test/fixtures/include/container.yaml');
+
+const schema = {
+  type: 'object',
+  properties: {
+    container: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        image: { type: 'string' },
+      },
+    },
+  },
+};
+
+describe('YAML !include', () => {
+  function createLanguageService(settings: LanguageSettings): LanguageService {
+    const languageService = getLanguageService({
+      schemaRequestService: () => Promise.reject('no schema'),
+      workspaceContext,
+      fileReaderService: (uri: string) => fs.readFile(URI.parse(uri).fsPath, 'utf-8'),
+    });
+    languageService.configure(settings);
+    return languageService;
+  }
+
+  function setupDocument(content: string): TextDocument {
+    yamlDocumentsCache.clear();
+    return TextDocument.create(MAIN_URI, 'yaml', 0, content);
+  }
+
+  function schemaSettings(): ServiceSetup {
+    return new ServiceSetup()
+      .withValidate()
+      .withSchemaFileMatch({ uri: 'file:///include.schema.json', fileMatch: ['main.yaml'], schema });
+  }
+
+  describe('path resolution', () => {
+    it('resolves relative paths against the folder of the document', () => {
+      expect(resolveIncludeUri('file:///work/app/main.yaml', './parts/a.yaml')).to.equal('file:///work/app/parts/a.yaml');
+      expect(resolveIncludeUri('file:///work/app/main.yaml', '../shared/a.yaml')).to.equal('file:///work/shared/a.yaml');
+    });
+
+    it('keeps absolute paths and URIs', () => {
+      expect(resolveIncludeUri('file:///work/app/main.yaml', '/etc/a.yaml')).to.equal('file:///etc/a.yaml');
+      expect(resolveIncludeUri('file:///work/app/main.yaml', 'https://example.com/a.yaml')).to.equal(
+        'https://example.com/a.yaml'
+      );
+    });
+  });
+
+  describe('navigation', () => {
+    it('links the path to the included file', async () => {
+      const languageService = createLanguageService(new ServiceSetup().languageSettings);
+      const links = await languageService.findLinks(setupDocument('container: !include "container.yaml"\n'));
+      expect(links).to.deep.equal([{ range: Range.create(0, 21, 0, 35), target: CONTAINER_URI }]);
+    });
+
+    it('goes to the included file from the path', async () => {
+      const languageService = createLanguageService(new ServiceSetup().languageSettings);
+      const document = setupDocument('container: !include container.yaml\n');
+      const result = await languageService.doDefinition(document, {
+        position: Position.create(0, 25),
+        textDocument: { uri: MAIN_URI },
+      });
+      expect(result).to.deep.equal([
+        {
+          targetUri: CONTAINER_URI,
+          targetRange: Range.create(0, 0, 0, 0),
+          targetSelectionRange: Range.create(0, 0, 0, 0),
+          originSelectionRange: Range.create(0, 20, 0, 34),
+        },
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    it('reports included files which are not found', async () => {
+      const languageService = createLanguageService(new ServiceSetup().withValidate().languageSettings);
+      const result = await languageService.doValidation(
+        setupDocument('container: !include container.yaml\nother: !include missing.yaml\n'),
+        false
+      );
+      expect(result).to.have.length(1);
+      expect(result[0].message).to.equal('Included file "missing.yaml" not found');
+      expect(result[0].severity).to.equal(DiagnosticSeverity.Error);
+      expect(result[0].range).to.deep.equal(Range.create(1, 16, 1, 28));
+    });
+
+    it('reports included files which are not local files', async () => {
+      const languageService = createLanguageService(new ServiceSetup().withValidate().languageSettings);
+      const result = await languageService.doValidation(setupDocument('other: !include https://example.com/a.yaml\n'), false);
+      expect(result).to.have.length(1);
+      expect(result[0].message).to.equal('Included file "https://example.com/a.yaml" is not a local file');
+      expect(result[0].severity).to.equal(DiagnosticSeverity.Error);
+    });
+
+    it('tracks the files included by the validated documents', async () => {
+      const languageService = createLanguageService(new ServiceSetup().withValidate().languageSettings);
+      await languageService.doValidation(
+        setupDocument('container: !include container.yaml\n---\nother: !include missing.yaml\n'),
+        false
+      );
+      expect(languageService.getIncludingDocuments(CONTAINER_URI)).to.deep.equal([MAIN_URI]);
+      expect(languageService.getIncludingDocuments(toFsPath('test/fixtures/include/missing.yaml'))).to.deep.equal([MAIN_URI]);
+
+      await languageService.doValidation(setupDocument('container: {}\n'), false);
+      expect(languageService.getIncludingDocuments(CONTAINER_URI)).to.be.empty;
+    });
+
+    it('validates the path against the schema by default', async () => {
+      const languageService = createLanguageService(schemaSettings().languageSettings);
+      const result = await languageService.doValidation(setupDocument('container: !include container.yaml\n'), false);
+      expect(result.map((diagnostic) => diagnostic.message)).to.deep.equal(['Incorrect type. Expected "object".']);
+    });
+
+    it('validates the included content against the subschema', async () => {
+      const languageService = createLanguageService(schemaSettings().withValidateIncludes().languageSettings);
+      const valid = await languageService.doValidation(setupDocument('container: !include container.yaml\n'), false);
+      expect(valid).to.be.empty;
+
+      const invalid = await languageService.doValidation(setupDocument('container: !include invalid-container.yaml\n'), false);
+      expect(invalid).to.have.length(1);
+      expect(invalid[0].message).to.equal('Included file "invalid-container.yaml": Incorrect type. Expected "string".');
+      expect(invalid[0].range).to.deep.equal(Range.create(0, 20, 0, 42));
+      expect(invalid[0].relatedInformation).to.deep.equal([
+        {
+          location: { uri: toFsPath('test/fixtures/include/invalid-container.yaml'), range: Range.create(0, 6, 0, 7) },
+          message: 'Incorrect type. Expected "string".',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { expect } from 'chai';
+import type { InlayHint } from 'vscode-languageserver-types';
+import { InlayHintKind, Position, Range } from 'vscode-languageserver-types';
+import type { LanguageService } from '../src';
+import { ServiceSetup } from './utils/serviceSetup';
+import type { TestCustomSchemaProvider } from './utils/testHelper';
+import { SCHEMA_ID, setupLanguageService, setupSchemaIDTextDocument } from './utils/testHelper';
+
+describe('YAML Inlay Hints', () => {
+  let languageService: LanguageService;
+  let schemaProvider: TestCustomSchemaProvider;
+
+  before(() => {
+    ({ languageService, schemaProvider } = setupLanguageService(
+      new ServiceSetup().withCustomTags(['!Int scalar:integer', '!Ref scalar']).languageSettings
+    ));
+  });
+
+  afterEach(() => {
+    schemaProvider.deleteSchema(SCHEMA_ID);
+  });
+
+  function getInlayHints(content: string, range = Range.create(0, 0, 100, 0)): Promise<InlayHint[]> {
+    return languageService.getInlayHints(setupSchemaIDTextDocument(content), range);
+  }
+
+  it('shows the defaults of missing required properties', async () => {
+    schemaProvider.addSchema(SCHEMA_ID, {
+      type: 'object',
+      properties: {
+        spec: {
+          type: 'object',
+          required: ['name', 'replicas', 'image'],
+          properties: {
+            name: { type: 'string' },
+            replicas: { type: 'integer', default: 1 },
+            image: { type: 'string', default: 'nginx' },
+          },
+        },
+      },
+    });
+    const hints = await getInlayHints('spec:\n  name: web\nother: 1\n');
+    expect(hints).to.deep.equal([
+      { position: Position.create(1, 11), label: 'defaults: replicas: 1, image: "nginx"', paddingLeft: true },
+    ]);
+  });
+
+  it('does not show defaults of present or optional properties', async () => {
+    schemaProvider.addSchema(SCHEMA_ID, {
+      type: 'object',
+      required: ['replicas'],
+      properties: {
+        replicas: { type: 'integer', default: 1 },
+        image: { type: 'string', default: 'nginx' },
+      },
+    });
+    expect(await getInlayHints('replicas: 3\n')).to.be.empty;
+  });
+
+  it('shows the value of aliases to scalars', async () => {
+    const hints = await getInlayHints(
+      'port: &port 8080\nname: &name "web"\nbase: &base\n  a: 1\nuse: *port\nlabel: *name\nmerged: *base\n'
+    );
+    expect(hints).to.deep.equal([
+      { position: Position.create(4, 10), label: '= 8080', paddingLeft: true },
+      { position: Position.create(5, 12), label: '= "web"', paddingLeft: true },
+    ]);
+  });
+
+  it('shows the return type of custom tags', async () => {
+    const hints = await getInlayHints('count: !Int 3\nname: !Ref foo\n');
+    expect(hints).to.deep.equal([
+      { position: Position.create(0, 13), label: ': integer', kind: InlayHintKind.Type, paddingLeft: true },
+    ]);
+  });
+
+  it('only returns the hints of the requested range', async () => {
+    const hints = await getInlayHints('a: &a 1\nb: *a\nc: *a\n', Range.create(2, 0, 3, 0));
+    expect(hints).to.deep.equal([{ position: Position.create(2, 5), label: '= 1', paddingLeft: true }]);
+  });
+});
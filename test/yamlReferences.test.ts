@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { expect } from 'chai';
+import { DocumentHighlight, DocumentHighlightKind, Location, Position, Range } from 'vscode-languageserver-types';
+import type { LanguageService } from '../src';
+import { setupLanguageService, setupTextDocument, TEST_URI } from './utils/testHelper';
+
+describe('YAML References', () => {
+  let languageService: LanguageService;
+
+  before(() => {
+    languageService = setupLanguageService({}).languageService;
+  });
+
+  function findReferences(content: string, position: Position, includeDeclaration = false): Location[] {
+    const document = setupTextDocument(content);
+    return languageService.findReferences(document, {
+      position,
+      textDocument: { uri: TEST_URI },
+      context: { includeDeclaration },
+    });
+  }
+
+  describe('references', () => {
+    it('finds aliases from the anchor', () => {
+      const result = findReferences('foo: &a value\nbar: *a\nbaz: *a\n', Position.create(0, 6));
+      expect(result).to.deep.equal([
+        Location.create(TEST_URI, Range.create(1, 6, 1, 7)),
+        Location.create(TEST_URI, Range.create(2, 6, 2, 7)),
+      ]);
+    });
+
+    it('finds aliases from an alias and includes the declaration', () => {
+      const result = findReferences('foo: &a value\nbar: *a\nbaz: *a\n', Position.create(2, 6), true);
+      expect(result).to.deep.equal([
+        Location.create(TEST_URI, Range.create(0, 6, 0, 7)),
+        Location.create(TEST_URI, Range.create(1, 6, 1, 7)),
+        Location.create(TEST_URI, Range.create(2, 6, 2, 7)),
+      ]);
+    });
+
+    it('finds aliases used in merge keys', () => {
+      const content = 'base: &base\n  a: 1\nchild:\n  <<: *base\n  b: 2\nother:\n  <<: [*base]\n';
+      const result = findReferences(content, Position.create(0, 7));
+      expect(result).to.deep.equal([
+        Location.create(TEST_URI, Range.create(3, 7, 3, 11)),
+        Location.create(TEST_URI, Range.create(6, 8, 6, 12)),
+      ]);
+    });
+
+    it('limits references to the current YAML document', () => {
+      const result = findReferences('---\nfoo: &a 1\nbar: *a\n---\nfoo: &a 1\nbar: *a\n', Position.create(4, 6));
+      expect(result).to.deep.equal([Location.create(TEST_URI, Range.create(5, 6, 5, 7))]);
+    });
+
+    it('returns nothing outside of anchors and aliases', () => {
+      expect(findReferences('foo: &a value\nbar: *a\n', Position.create(0, 1))).to.be.empty;
+    });
+  });
+
+  describe('document highlights', () => {
+    it('highlights the anchor and its aliases', () => {
+      const document = setupTextDocument('foo: &a value\nbar: *a\n');
+      const result = languageService.findDocumentHighlights(document, {
+        position: Position.create(1, 6),
+        textDocument: { uri: TEST_URI },
+      });
+      expect(result).to.deep.equal([
+        DocumentHighlight.create(Range.create(0, 6, 0, 7), DocumentHighlightKind.Write),
+        DocumentHighlight.create(Range.create(1, 6, 1, 7), DocumentHighlightKind.Read),
+      ]);
+    });
+  });
+});
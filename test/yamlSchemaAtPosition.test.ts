@@ -0,0 +1,110 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { expect } from 'chai';
+import type { LanguageService } from '../src';
+import type { SchemaAtPosition } from '../src/languageservice/services/yamlSchemaAtPosition';
+import { ServiceSetup } from './utils/serviceSetup';
+import type { TestCustomSchemaProvider } from './utils/testHelper';
+import { caretPosition, SCHEMA_ID, setupLanguageService, setupSchemaIDTextDocument } from './utils/testHelper';
+
+describe('YAML Schema At Position', () => {
+  let languageService: LanguageService;
+  let schemaProvider: TestCustomSchemaProvider;
+
+  before(() => {
+    ({ languageService, schemaProvider } = setupLanguageService(new ServiceSetup().languageSettings));
+  });
+
+  beforeEach(() => {
+    schemaProvider.addSchema(SCHEMA_ID, {
+      type: 'object',
+      definitions: {
+        node: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/definitions/node' } },
+          },
+        },
+      },
+      properties: {
+        spec: {
+          type: 'object',
+          properties: { replicas: { type: 'integer' } },
+          required: ['replicas'],
+          allOf: [{ properties: { image: { type: 'string' } }, required: ['image'] }],
+          if: { properties: { mode: { const: 'fast' } } },
+          then: { properties: { threads: { type: 'integer', minimum: 1 } } },
+        },
+        tree: { $ref: '#/definitions/node' },
+      },
+    });
+  });
+
+  afterEach(() => {
+    schemaProvider.deleteSchema(SCHEMA_ID);
+  });
+
+  function getSchemaAtPosition(content: string): Promise<SchemaAtPosition | null> {
+    const { content: text, position } = caretPosition(content);
+    const document = setupSchemaIDTextDocument(text);
+    return languageService.getSchemaAtPosition(document, document.positionAt(position));
+  }
+
+  it('merges the allOf subschemas and the applied then branch', async () => {
+    const result = await getSchemaAtPosition('sp|e|c:\n  replicas: 1\n  mode: fast\n');
+    expect(result.path).to.equal('/spec');
+    expect(result.sourceUri).to.equal(`file:///${SCHEMA_ID}`);
+    expect(result.schema).to.deep.equal({
+      type: 'object',
+      properties: {
+        replicas: { type: 'integer' },
+        image: { type: 'string' },
+        threads: { type: 'integer', minimum: 1 },
+      },
+      required: ['replicas', 'image'],
+    });
+  });
+
+  it('leaves out the then branch when the condition fails', async () => {
+    const result = await getSchemaAtPosition('spec:\n  replicas: |1|\n  mode: slow\n');
+    expect(result.path).to.equal('/spec/replicas');
+    expect(result.schema).to.deep.equal({ type: 'integer' });
+
+    const spec = await getSchemaAtPosition('sp|e|c:\n  mode: slow\n');
+    expect(spec.schema.properties).to.have.all.keys('replicas', 'image');
+  });
+
+  it('gives the path of the items of sequences', async () => {
+    const result = await getSchemaAtPosition('tree:\n  children:\n    - name: a|b|c\n');
+    expect(result.path).to.equal('/tree/children/0/name');
+    expect(result.schema).to.deep.equal({ type: 'string' });
+  });
+
+  it('replaces the subschemas used several times with a reference', async () => {
+    const result = await getSchemaAtPosition('tr|e|e:\n  name: root\n');
+    expect(result.schema.properties.children).to.deep.equal({
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { $ref: '#/properties/name' },
+          children: { $ref: '#/properties/children' },
+        },
+      },
+    });
+  });
+
+  it('uses the schema section of the nodes the validator does not reach', async () => {
+    const result = await getSchemaAtPosition('tree:\n  children: |n|ull\n');
+    expect(result.path).to.equal('/tree/children');
+    expect(result.schema.type).to.equal('array');
+  });
+
+  it('returns nothing without schema', async () => {
+    schemaProvider.deleteSchema(SCHEMA_ID);
+    expect(await getSchemaAtPosition('spec:\n  replicas: |1|\n')).to.be.null;
+  });
+});
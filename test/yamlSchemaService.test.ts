@@ -10,8 +10,13 @@ import * as url from 'url';
 import * as SchemaService from '../src/languageservice/services/yamlSchemaService';
 import { parse } from '../src/languageservice/parser/yamlParser07';
 import { SettingsState } from '../src/yamlSettings';
-import { DEFAULT_KUBERNETES_SCHEMA_VERSION, getSchemaUrls } from '../src/languageservice/utils/schemaUrls';
+import {
+  DEFAULT_KUBERNETES_SCHEMA_VERSION,
+  getKubernetesSchemaUrl,
+  getSchemaUrls,
+} from '../src/languageservice/utils/schemaUrls';
 import type { JSONSchema } from '../src/languageservice/jsonSchema';
+import { SchemaPriority } from '../src/languageservice/yamlLanguageService';
 
 const BASE_KUBERNETES_SCHEMA_URL = `https://raw.githubusercontent.com/yannh/kubernetes-json-schema/master/${DEFAULT_KUBERNETES_SCHEMA_VERSION}-standalone-strict/`;
 const KUBERNETES_SCHEMA_URL = BASE_KUBERNETES_SCHEMA_URL + 'all.json';
@@ -897,4 +902,325 @@ spec:
       expect(nestedConfigUris).to.not.include('https://json.schemastore.org/github-issue-forms.json');
     });
   });
+
+  describe('Schema source range', () => {
+    const content = '{\n  "properties": {\n    "tags": {\n      "items": [{ "type": "string" }]\n    }\n  }\n}';
+
+    it('should find the nodes nested in arrays and load the schema file once until it changes', async () => {
+      const requestService = sandbox.fake.resolves(content);
+      const service = new SchemaService.YAMLSchemaService(requestService);
+      service.registerExternalSchema('file:///schema.json');
+      const schema = (await service.getResolvedSchema('file:///schema.json')).schema;
+      const tagsSchema = schema.properties.tags as JSONSchema;
+
+      const itemRange = await service.getSchemaSourceRange((tagsSchema.items as JSONSchema[])[0]);
+      expect(itemRange.uri).to.equal('file:///schema.json');
+      expect(itemRange.range.start).to.deep.equal({ line: 3, character: 16 });
+      const tagsRange = await service.getSchemaSourceRange(tagsSchema);
+      expect(tagsRange.selectionRange.start).to.deep.equal({ line: 2, character: 4 });
+      expect(requestService).calledTwice;
+
+      service.onResourceChange('file:///schema.json');
+      await service.getSchemaSourceRange(tagsSchema);
+      expect(requestService).calledThrice;
+    });
+  });
+
+  describe('Schema packs', () => {
+    const PACK_URI = 'file:///packs/v1.30.0';
+    const OTHER_PACK_URI = 'file:///packs/v1.29.0';
+    const PACK_CONTENT: Record<string, string> = {
+      [`${PACK_URI}/all.json`]: '{"oneOf": [{"$ref": "_definitions.json#/definitions/io.k8s.api.apps.v1.Deployment"}]}',
+      [`${PACK_URI}/_definitions.json`]: '{"definitions": {"io.k8s.api.apps.v1.Deployment": {"type": "object"}}}',
+      [`${PACK_URI}/crds/example.com/widget_v1.json`]: '{"type": "object", "title": "Widget"}',
+      [`${OTHER_PACK_URI}/all.json`]: '{"oneOf": []}',
+    };
+    let requestServiceMock: sinon.SinonSpy;
+
+    beforeEach(() => {
+      requestServiceMock = sandbox.fake((uri: string) => Promise.resolve(PACK_CONTENT[uri.split('#')[0]] ?? ''));
+    });
+
+    async function getSchemaUrl(settings: SettingsState, content: string, resource = 'file:///work/test.yaml'): Promise<string> {
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext, undefined, settings);
+      service.registerExternalSchema(KUBERNETES_SCHEMA_URL, ['*.yaml']);
+      const resolvedSchema = await service.getSchemaForResource(resource, parse(content).documents[0]);
+      return resolvedSchema.schema.url;
+    }
+
+    function createSettings(crdStoreEnabled: boolean): SettingsState {
+      const settings = new SettingsState();
+      settings.kubernetesCRDStoreEnabled = crdStoreEnabled;
+      settings.schemaPacks = [{ uri: PACK_URI, folders: [] }];
+      return settings;
+    }
+
+    it('should resolve builtin resources against the pack', async () => {
+      const url = await getSchemaUrl(createSettings(false), 'apiVersion: apps/v1\nkind: Deployment');
+      expect(url).to.equal(`${PACK_URI}/_definitions.json#/definitions/io.k8s.api.apps.v1.Deployment`);
+      expect(requestServiceMock).not.calledWith(KUBERNETES_SCHEMA_URL);
+    });
+
+    it('should resolve custom resources against the CRDs of the pack', async () => {
+      const url = await getSchemaUrl(createSettings(true), 'apiVersion: example.com/v1\nkind: Widget');
+      expect(url).to.equal(`${PACK_URI}/crds/example.com/widget_v1.json`);
+      expect(requestServiceMock.getCalls().map((call) => call.args[0])).to.not.include.members([
+        'https://raw.githubusercontent.com/datreeio/CRDs-catalog/main/example.com/widget_v1.json',
+      ]);
+    });
+
+    it('should fall back to the CRD catalog for custom resources missing from the pack', async () => {
+      const url = await getSchemaUrl(createSettings(true), 'apiVersion: example.com/v1\nkind: Gadget');
+      expect(url).to.equal('https://raw.githubusercontent.com/datreeio/CRDs-catalog/main/example.com/gadget_v1.json');
+    });
+
+    it('should use the Kubernetes schema of the pack when the CRD store is disabled', async () => {
+      const url = await getSchemaUrl(createSettings(false), 'apiVersion: example.com/v1\nkind: Gadget');
+      expect(url).to.equal(`${PACK_URI}/all.json`);
+    });
+
+    it('should use the pack of the closest workspace folder', async () => {
+      const settings = createSettings(false);
+      settings.schemaPacks.push({ uri: OTHER_PACK_URI, folders: ['file:///work/legacy'] });
+      const content = 'apiVersion: example.com/v1\nkind: Gadget';
+      expect(await getSchemaUrl(settings, content, 'file:///work/legacy/test.yaml')).to.equal(`${OTHER_PACK_URI}/all.json`);
+      expect(await getSchemaUrl(settings, content, 'file:///work/legacyapp/test.yaml')).to.equal(`${PACK_URI}/all.json`);
+    });
+  });
+
+  describe('Workspace CRDs', () => {
+    const CRD_URI = 'file:///work/crds/widget.yaml';
+    const WIDGET_SCHEMA: JSONSchema = { type: 'object', properties: { spec: { type: 'object' } } };
+    let requestServiceMock: sinon.SinonSpy;
+
+    beforeEach(() => {
+      requestServiceMock = sandbox.fake.resolves('{"oneOf": []}');
+    });
+
+    function createService(crdStoreEnabled: boolean): SchemaService.YAMLSchemaService {
+      const settings = new SettingsState();
+      settings.kubernetesCRDStoreEnabled = crdStoreEnabled;
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext, undefined, settings);
+      service.registerExternalSchema(KUBERNETES_SCHEMA_URL, ['*.yaml']);
+      return service;
+    }
+
+    it('should resolve custom resources against the CRDs of the workspace', async () => {
+      const service = createService(false);
+      const changed = service.setWorkspaceCustomResources(CRD_URI, [
+        { group: 'example.com', version: 'v1', kind: 'Widget', schema: WIDGET_SCHEMA },
+      ]);
+      expect(changed).to.be.true;
+
+      const doc = parse('apiVersion: example.com/v1\nkind: Widget').documents[0];
+      const resolvedSchema = await service.getSchemaForResource('file:///work/widget.yaml', doc);
+      expect(resolvedSchema.schema.url).to.equal(`${CRD_URI}?crd=example.com/v1/Widget`);
+      expect(resolvedSchema.schema.properties).to.deep.equal(WIDGET_SCHEMA.properties);
+      expect(requestServiceMock).not.called;
+    });
+
+    it('should forget the CRDs of a file', async () => {
+      const service = createService(true);
+      const customResources = [{ group: 'example.com', version: 'v1', kind: 'Widget', schema: WIDGET_SCHEMA }];
+      service.setWorkspaceCustomResources(CRD_URI, customResources);
+      expect(service.setWorkspaceCustomResources(CRD_URI, customResources)).to.be.false;
+      expect(service.clearWorkspaceCustomResources()).to.be.true;
+
+      const doc = parse('apiVersion: example.com/v1\nkind: Widget').documents[0];
+      const resolvedSchema = await service.getSchemaForResource('file:///work/widget.yaml', doc);
+      expect(resolvedSchema.schema.url).to.equal(
+        'https://raw.githubusercontent.com/datreeio/CRDs-catalog/main/example.com/widget_v1.json'
+      );
+    });
+  });
+
+  describe('Kubernetes versions', () => {
+    let requestServiceMock: sinon.SinonSpy;
+
+    beforeEach(() => {
+      requestServiceMock = sandbox.fake.resolves('{"oneOf": []}');
+    });
+
+    async function getSchemaUrl(settings: SettingsState, content: string, resource: string): Promise<string> {
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext, undefined, settings);
+      service.registerExternalSchema(KUBERNETES_SCHEMA_URL, ['*.yaml']);
+      const resolvedSchema = await service.getSchemaForResource(resource, parse(content).documents[0]);
+      return resolvedSchema.schema.url;
+    }
+
+    function createSettings(): SettingsState {
+      const settings = new SettingsState();
+      settings.kubernetesCRDStoreEnabled = false;
+      settings.kubernetesFolderVersions = [{ folder: 'file:///work/legacy', version: 'v1.29.0' }];
+      return settings;
+    }
+
+    it('should use the version of the closest folder', async () => {
+      const settings = createSettings();
+      const content = 'apiVersion: v1\nkind: Pod';
+      expect(await getSchemaUrl(settings, content, 'file:///work/legacy/pod.yaml')).to.equal(getKubernetesSchemaUrl('v1.29.0'));
+      expect(await getSchemaUrl(settings, content, 'file:///work/pod.yaml')).to.equal(KUBERNETES_SCHEMA_URL);
+    });
+
+    it('should use the version of the modeline before the folder version and the schema packs', async () => {
+      const settings = createSettings();
+      settings.schemaPacks = [{ uri: 'file:///packs/v1.30.0', folders: [] }];
+      const content = '# yaml-language-server: $k8sVersion=1.28.3\napiVersion: v1\nkind: Pod';
+      expect(await getSchemaUrl(settings, content, 'file:///work/legacy/pod.yaml')).to.equal(getKubernetesSchemaUrl('v1.28.3'));
+    });
+
+    it('should give the Kubernetes version of a resource', () => {
+      const settings = createSettings();
+      settings.kubernetesVersion = 'v1.31.0';
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext, undefined, settings);
+      const doc = parse('apiVersion: v1\nkind: Pod').documents[0];
+      expect(service.getKubernetesVersion('file:///work/legacy/pod.yaml', doc)).to.equal('v1.29.0');
+      expect(service.getKubernetesVersion('file:///work/pod.yaml', doc)).to.equal('v1.31.0');
+    });
+  });
+
+  describe('Schema dependencies', () => {
+    let schemas: { [uri: string]: JSONSchema };
+    let requestServiceMock: sinon.SinonSpy;
+
+    beforeEach(() => {
+      schemas = {
+        'file:///schemas/primary.json': {
+          type: 'object',
+          properties: {
+            mode: { $ref: 'secondary.json' },
+            item: { $ref: 'https://example.com/schemas/item.json' },
+            bundle: { $ref: 'bundle.json' },
+            consumer: { $ref: 'consumer.json' },
+          },
+        },
+        'file:///schemas/secondary.json': { $ref: 'tertiary.json' },
+        'file:///schemas/consumer.json': { $ref: 'https://example.com/schemas/item.json' },
+        'file:///schemas/tertiary.json': { type: 'string', enum: ['dev', 'prod'] },
+        'file:///schemas/bundle.json': {
+          $defs: { item: { $id: 'https://example.com/schemas/item.json', type: 'string', enum: ['a'] } },
+        },
+      };
+      requestServiceMock = sandbox.fake((uri: string) =>
+        schemas[uri] ? Promise.resolve(JSON.stringify(schemas[uri])) : Promise.reject<string>(`Resource ${uri} not found.`)
+      );
+    });
+
+    async function getSchema(service: SchemaService.YAMLSchemaService): Promise<JSONSchema> {
+      const doc = parse('# yaml-language-server: $schema=file:///schemas/primary.json\nmode: dev').documents[0];
+      return (await service.getSchemaForResource('file:///work/test.yaml', doc)).schema;
+    }
+
+    it('should record the $ref and $id dependencies between the schemas', async () => {
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext);
+      await getSchema(service);
+
+      const edges = service.getSchemaDependencyGraph();
+      expect(edges).to.deep.include({ from: 'file:///schemas/primary.json', to: 'file:///schemas/secondary.json', kind: 'ref' });
+      expect(edges).to.deep.include({ from: 'file:///schemas/secondary.json', to: 'file:///schemas/tertiary.json', kind: 'ref' });
+      expect(edges).to.deep.include({
+        from: 'https://example.com/schemas/item.json',
+        to: 'file:///schemas/bundle.json',
+        kind: 'id',
+      });
+    });
+
+    it('should reload the schemas depending on a changed schema', async () => {
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext);
+      await getSchema(service);
+
+      schemas['file:///schemas/tertiary.json'] = { type: 'string', enum: ['dev', 'prod', 'stage'] };
+      expect(service.onResourceChange('file:///schemas/tertiary.json')).to.be.true;
+      const schema = await getSchema(service);
+      expect((schema.properties.mode as JSONSchema).enum).to.deep.equal(['dev', 'prod', 'stage']);
+    });
+
+    it('should reload the schemas depending on a resource declared with $id by a changed schema', async () => {
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext);
+      await getSchema(service);
+      // consumer.json only depends on bundle.json through the item.json resource declared by bundle.json
+      const consumerEdge = { from: 'file:///schemas/consumer.json', to: 'https://example.com/schemas/item.json', kind: 'ref' };
+      expect(service.getSchemaDependencyGraph()).to.deep.include(consumerEdge);
+
+      schemas['file:///schemas/bundle.json'] = {
+        $defs: { item: { $id: 'https://example.com/schemas/item.json', type: 'string', enum: ['a', 'b'] } },
+      };
+      expect(service.onResourceChange('file:///schemas/bundle.json')).to.be.true;
+      expect(service.getSchemaDependencyGraph()).to.not.deep.include(consumerEdge);
+
+      const schema = await getSchema(service);
+      expect((schema.properties.consumer as JSONSchema).enum).to.deep.equal(['a', 'b']);
+      expect(service.getSchemaDependencyGraph()).to.deep.include(consumerEdge);
+    });
+
+    it('should forget the dependencies of the invalidated schemas', async () => {
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext);
+      await getSchema(service);
+
+      schemas['file:///schemas/primary.json'] = { type: 'object', properties: { mode: { type: 'string' } } };
+      expect(service.onResourceChange('file:///schemas/tertiary.json')).to.be.true;
+      expect(
+        service
+          .getSchemaDependencyGraph()
+          .filter((edge) => edge.from === 'file:///schemas/primary.json' || edge.from === 'file:///schemas/secondary.json')
+      ).to.be.empty;
+      await getSchema(service);
+      expect(service.getSchemaDependencyGraph().filter((edge) => edge.from === 'file:///schemas/primary.json')).to.be.empty;
+    });
+  });
+
+  describe('Content schema detection', () => {
+    const OPENAPI_SCHEMA_URI = 'file:///schemas/openapi.json';
+    const SETTINGS_SCHEMA_URI = 'file:///schemas/settings.json';
+    let requestServiceMock: sinon.SinonSpy;
+
+    beforeEach(() => {
+      requestServiceMock = sandbox.fake.resolves('{"type": "object"}');
+    });
+
+    function createService(): SchemaService.YAMLSchemaService {
+      const service = new SchemaService.YAMLSchemaService(requestServiceMock, workspaceContext);
+      service.setSchemaDetectionRules([
+        { uri: OPENAPI_SCHEMA_URI, values: { openapi: '^3\\.' } },
+        { uri: 'file:///schemas/invalid.json', values: { openapi: '(' } },
+        { uri: 'file:///schemas/empty.json' },
+      ]);
+      return service;
+    }
+
+    it('should select the schema of the rule matching the content', async () => {
+      const service = createService();
+      const doc = parse('openapi: 3.0.3\ninfo:\n  title: API').documents[0];
+      const resolvedSchema = await service.getSchemaForResource('file:///work/api.yaml', doc);
+      expect(resolvedSchema.schema.url).to.equal(OPENAPI_SCHEMA_URI);
+    });
+
+    it('should not select a schema when no rule matches', async () => {
+      const service = createService();
+      const doc = parse('openapi:\n  version: 3.0.3').documents[0];
+      const resolvedSchema = await service.getSchemaForResource('file:///work/api.yaml', doc);
+      expect(resolvedSchema).to.be.null;
+    });
+
+    it('should prefer the schemas of the settings', async () => {
+      const service = createService();
+      service.addSchemaPriority(SETTINGS_SCHEMA_URI, SchemaPriority.Settings);
+      service.registerExternalSchema(SETTINGS_SCHEMA_URI, ['api.yaml']);
+      const doc = parse('openapi: 3.0.3').documents[0];
+      const resolvedSchema = await service.getSchemaForResource('file:///work/api.yaml', doc);
+      expect(resolvedSchema.schema.url).to.equal(SETTINGS_SCHEMA_URI);
+    });
+
+    it('should prefer the detected schemas to the schema associations', async () => {
+      const associationSchemaUri = 'file:///schemas/association.json';
+      const service = createService();
+      service.addSchemaPriority(associationSchemaUri, SchemaPriority.SchemaAssociation);
+      service.registerExternalSchema(associationSchemaUri, ['api.yaml']);
+      const doc = parse('openapi: 3.0.3').documents[0];
+      const resolvedSchema = await service.getSchemaForResource('file:///work/api.yaml', doc);
+      expect(resolvedSchema.schema.url).to.equal(OPENAPI_SCHEMA_URI);
+      const descriptions = await service.getSchemaDescriptionsForResource('file:///work/api.yaml', doc);
+      expect(descriptions.map((description) => description.uri)).to.deep.equal([OPENAPI_SCHEMA_URI]);
+    });
+  });
 });
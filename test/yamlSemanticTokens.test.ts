@@ -0,0 +1,109 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { expect } from 'chai';
+import type { LanguageService } from '../src';
+import { SEMANTIC_TOKENS_LEGEND } from '../src/languageservice/services/yamlSemanticTokens';
+import { ServiceSetup } from './utils/serviceSetup';
+import type { TestCustomSchemaProvider } from './utils/testHelper';
+import { SCHEMA_ID, setupLanguageService, setupSchemaIDTextDocument } from './utils/testHelper';
+
+interface DecodedToken {
+  line: number;
+  character: number;
+  length: number;
+  type: string;
+  modifiers: string[];
+}
+
+describe('YAML Semantic Tokens', () => {
+  let languageService: LanguageService;
+  let schemaProvider: TestCustomSchemaProvider;
+
+  before(() => {
+    ({ languageService, schemaProvider } = setupLanguageService(
+      new ServiceSetup().withCustomTags(['!Ref scalar']).languageSettings
+    ));
+  });
+
+  afterEach(() => {
+    schemaProvider.deleteSchema(SCHEMA_ID);
+  });
+
+  async function getTokens(content: string): Promise<DecodedToken[]> {
+    const { data } = await languageService.getSemanticTokens(setupSchemaIDTextDocument(content));
+    const tokens: DecodedToken[] = [];
+    let line = 0;
+    let character = 0;
+    for (let i = 0; i < data.length; i += 5) {
+      line += data[i];
+      character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+      tokens.push({
+        line,
+        character,
+        length: data[i + 2],
+        type: SEMANTIC_TOKENS_LEGEND.tokenTypes[data[i + 3]],
+        modifiers: SEMANTIC_TOKENS_LEGEND.tokenModifiers.filter((_, index) => data[i + 4] & (1 << index)),
+      });
+    }
+    return tokens;
+  }
+
+  it('classifies known, unknown and deprecated keys', async () => {
+    schemaProvider.addSchema(SCHEMA_ID, {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        old: { type: 'string', deprecationMessage: 'Use name' },
+      },
+      patternProperties: {
+        '^x-': {},
+      },
+    });
+    const tokens = await getTokens('name: a\nold: b\nx-ext: c\nnmae: d\n');
+    expect(tokens).to.deep.equal([
+      { line: 0, character: 0, length: 4, type: 'property', modifiers: [] },
+      { line: 1, character: 0, length: 3, type: 'property', modifiers: ['deprecated'] },
+      { line: 2, character: 0, length: 5, type: 'property', modifiers: [] },
+      { line: 3, character: 0, length: 4, type: 'property', modifiers: ['unknown'] },
+    ]);
+  });
+
+  it('classifies enum and const values', async () => {
+    schemaProvider.addSchema(SCHEMA_ID, {
+      type: 'object',
+      properties: {
+        level: { enum: ['low', 'high'] },
+        kind: { const: 'Pod' },
+        other: { type: 'string' },
+      },
+    });
+    const tokens = await getTokens('level: high\nkind: Pod\nother: high\n');
+    expect(tokens.filter((token) => token.type === 'enumMember')).to.deep.equal([
+      { line: 0, character: 7, length: 4, type: 'enumMember', modifiers: [] },
+      { line: 1, character: 6, length: 3, type: 'enumMember', modifiers: [] },
+    ]);
+  });
+
+  it('classifies anchors, aliases and custom tags without schema', async () => {
+    const tokens = await getTokens('a: &anchor 1\nb: *anchor\nc: !Ref foo\nd: !include file.yaml\ne: !!str 1\n');
+    expect(tokens).to.deep.equal([
+      { line: 0, character: 3, length: 7, type: 'variable', modifiers: ['declaration'] },
+      { line: 1, character: 3, length: 7, type: 'variable', modifiers: [] },
+      { line: 2, character: 3, length: 4, type: 'decorator', modifiers: [] },
+      { line: 3, character: 3, length: 8, type: 'decorator', modifiers: [] },
+    ]);
+  });
+
+  it('does not classify keys of mappings without properties in their schema', async () => {
+    schemaProvider.addSchema(SCHEMA_ID, {
+      type: 'object',
+      properties: {
+        labels: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    });
+    const tokens = await getTokens('labels:\n  app: web\n');
+    expect(tokens).to.deep.equal([{ line: 0, character: 0, length: 6, type: 'property', modifiers: [] }]);
+  });
+});
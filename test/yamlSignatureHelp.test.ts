@@ -0,0 +1,115 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat, Inc. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { expect } from 'chai';
+import type { SignatureHelpContext } from 'vscode-languageserver-protocol';
+import { SignatureHelpTriggerKind } from 'vscode-languageserver-protocol';
+import type { SignatureHelp } from 'vscode-languageserver-types';
+import type { LanguageService } from '../src';
+import { ServiceSetup } from './utils/serviceSetup';
+import type { TestCustomSchemaProvider } from './utils/testHelper';
+import { caretPosition, SCHEMA_ID, setupLanguageService, setupSchemaIDTextDocument } from './utils/testHelper';
+
+describe('YAML Signature Help', () => {
+  let languageService: LanguageService;
+  let schemaProvider: TestCustomSchemaProvider;
+
+  before(() => {
+    ({ languageService, schemaProvider } = setupLanguageService(
+      new ServiceSetup().withCustomTags(['!Sub scalar', '!Join sequence', '!Join mapping:string']).languageSettings
+    ));
+  });
+
+  afterEach(() => {
+    schemaProvider.deleteSchema(SCHEMA_ID);
+  });
+
+  function doSignatureHelp(content: string, context?: SignatureHelpContext): Promise<SignatureHelp | null> {
+    const { content: text, position } = caretPosition(content);
+    const document = setupSchemaIDTextDocument(text);
+    return languageService.doSignatureHelp(document, document.positionAt(position), context);
+  }
+
+  const typedSpace: SignatureHelpContext = {
+    triggerKind: SignatureHelpTriggerKind.TriggerCharacter,
+    triggerCharacter: ' ',
+    isRetrigger: false,
+  };
+
+  describe('custom tags', () => {
+    it('shows the declaration of the tag being typed', async () => {
+      const result = await doSignatureHelp('name: !Sub |\n|');
+      expect(result).to.deep.equal({
+        signatures: [
+          {
+            label: '!Sub scalar',
+            documentation: 'Custom tag taking a scalar value',
+            parameters: [{ label: [5, 11] }],
+          },
+        ],
+        activeSignature: 0,
+        activeParameter: 0,
+      });
+    });
+
+    it('activates the declaration matching the value', async () => {
+      const result = await doSignatureHelp('name: !Join\n  a: |b|\n');
+      expect(result.signatures.map((signature) => signature.label)).to.deep.equal(['!Join sequence', '!Join mapping → string']);
+      expect(result.activeSignature).to.equal(1);
+    });
+
+    it('shows the declaration when the space after the tag is typed', async () => {
+      const result = await doSignatureHelp('name: !Sub |\n|', typedSpace);
+      expect(result.signatures.map((signature) => signature.label)).to.deep.equal(['!Sub scalar']);
+    });
+
+    it('ignores unknown tags', async () => {
+      expect(await doSignatureHelp('name: !Unknown |\n|')).to.be.null;
+    });
+  });
+
+  describe('schema alternatives', () => {
+    beforeEach(() => {
+      schemaProvider.addSchema(SCHEMA_ID, {
+        type: 'object',
+        properties: {
+          port: {
+            oneOf: [
+              { title: 'Port number', description: 'A TCP port', type: 'integer' },
+              { title: 'Named port', markdownDescription: 'A **named** port', type: 'string' },
+            ],
+          },
+        },
+      });
+    });
+
+    it('lists the alternatives and activates the best match', async () => {
+      const result = await doSignatureHelp('port: ht|t|p\n');
+      expect(result).to.deep.equal({
+        signatures: [
+          { label: 'Port number', documentation: 'A TCP port' },
+          { label: 'Named port', documentation: { kind: 'markdown', value: 'A **named** port' } },
+        ],
+        activeSignature: 1,
+      });
+    });
+
+    it('activates the first alternative when it matches best', async () => {
+      const result = await doSignatureHelp('port: 80|8|0\n');
+      expect(result.activeSignature).to.equal(0);
+    });
+
+    it('lists the alternatives only when invoked or already shown', async () => {
+      expect(await doSignatureHelp('port: ht|t|p\n', typedSpace)).to.be.null;
+      const retrigger = { ...typedSpace, isRetrigger: true };
+      expect((await doSignatureHelp('port: ht|t|p\n', retrigger)).signatures).to.have.length(2);
+      const invoked = { triggerKind: SignatureHelpTriggerKind.Invoked, isRetrigger: false };
+      expect((await doSignatureHelp('port: ht|t|p\n', invoked)).signatures).to.have.length(2);
+    });
+
+    it('returns nothing outside of alternatives', async () => {
+      expect(await doSignatureHelp('ot|h|er: 1\n')).to.be.null;
+    });
+  });
+});
@@ -2,16 +2,18 @@
  *  Copyright (c) Red Hat. All rights reserved.
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
-import type { Diagnostic } from 'vscode-languageserver-types';
-import { DiagnosticSeverity } from 'vscode-languageserver-types';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
 import type { ValidationHandler } from '../src/languageserver/handlers/validationHandlers';
+import { toPublishedDiagnostics } from '../src/languageserver/handlers/validationHandlers';
 import type { SettingsState } from '../src/yamlSettings';
 import { TextDocumentTestManager } from '../src/yamlSettings';
 import { ServiceSetup } from './utils/serviceSetup';
-import { setupLanguageService, setupSchemaIDTextDocument } from './utils/testHelper';
+import { setupLanguageService, setupSchemaIDTextDocument, setupTextDocument } from './utils/testHelper';
 import { expect } from 'chai';
 import * as sinon from 'sinon';
-import { createExpectedError, createUnusedAnchorDiagnostic } from './utils/verifyError';
+import { createExpectedError, createLintRuleDiagnostic, createUnusedAnchorDiagnostic } from './utils/verifyError';
+import { parseProjectConfig } from '../src/languageservice/utils/projectConfig';
+import type { LanguageSettings } from '../src/languageservice/yamlLanguageService';
 
 type ValidationHandlerWithConnection = {
   connection: {
@@ -171,8 +173,14 @@ animals: [dog , cat , mouse]  `;
       expect(result).not.to.be.empty;
       expect(result.length).to.be.equal(2);
       expect(result).to.include.deep.members([
-        createExpectedError('Flow style mapping is forbidden', 1, 12, 1, 40, DiagnosticSeverity.Error, 'YAML', 'flowMap'),
-        createExpectedError('Flow style sequence is forbidden', 2, 9, 2, 28, DiagnosticSeverity.Error, 'YAML', 'flowSeq'),
+        createLintRuleDiagnostic(
+          createExpectedError('Flow style mapping is forbidden', 1, 12, 1, 40, DiagnosticSeverity.Error, 'YAML', 'flowMap'),
+          'flow-style'
+        ),
+        createLintRuleDiagnostic(
+          createExpectedError('Flow style sequence is forbidden', 2, 9, 2, 28, DiagnosticSeverity.Error, 'YAML', 'flowSeq'),
+          'flow-style'
+        ),
       ]);
     });
 
@@ -195,7 +203,10 @@ animals: [dog , cat , mouse]  `;
       expect(result).not.to.be.empty;
       expect(result.length).to.be.equal(1);
       expect(result).to.include.deep.members([
-        createExpectedError('Flow style sequence is forbidden', 2, 9, 2, 28, DiagnosticSeverity.Error, 'YAML', 'flowSeq'),
+        createLintRuleDiagnostic(
+          createExpectedError('Flow style sequence is forbidden', 2, 9, 2, 28, DiagnosticSeverity.Error, 'YAML', 'flowSeq'),
+          'flow-style'
+        ),
       ]);
     });
     it('should report flow error for empty map & sequence', async () => {
@@ -214,8 +225,14 @@ animals: [dog , cat , mouse]  `;
       expect(result).not.to.be.empty;
       expect(result.length).to.be.equal(2);
       expect(result).to.include.deep.members([
-        createExpectedError('Flow style mapping is forbidden', 0, 8, 0, 10, DiagnosticSeverity.Error, 'YAML', 'flowMap'),
-        createExpectedError('Flow style sequence is forbidden', 1, 9, 1, 11, DiagnosticSeverity.Error, 'YAML', 'flowSeq'),
+        createLintRuleDiagnostic(
+          createExpectedError('Flow style mapping is forbidden', 0, 8, 0, 10, DiagnosticSeverity.Error, 'YAML', 'flowMap'),
+          'flow-style'
+        ),
+        createLintRuleDiagnostic(
+          createExpectedError('Flow style sequence is forbidden', 1, 9, 1, 11, DiagnosticSeverity.Error, 'YAML', 'flowSeq'),
+          'flow-style'
+        ),
       ]);
     });
   });
@@ -233,15 +250,18 @@ animals: [dog , cat , mouse]  `;
       expect(result).not.to.be.empty;
       expect(result.length).to.be.equal(1);
       expect(result).to.include.deep.members([
-        createExpectedError(
-          'Wrong ordering of key "key 2" in mapping',
-          0,
-          2,
-          0,
-          7,
-          DiagnosticSeverity.Error,
-          'YAML',
-          'mapKeyOrder'
+        createLintRuleDiagnostic(
+          createExpectedError(
+            'Wrong ordering of key "key 2" in mapping',
+            0,
+            2,
+            0,
+            7,
+            DiagnosticSeverity.Error,
+            'YAML',
+            'mapKeyOrder'
+          ),
+          'key-ordering'
         ),
       ]);
     });
@@ -264,15 +284,18 @@ alpha: 1`;
       expect(result).not.to.be.empty;
       expect(result.length).to.be.equal(1);
       expect(result).to.include.deep.members([
-        createExpectedError(
-          'Wrong ordering of key "two" in mapping',
-          2,
-          0,
-          2,
-          3,
-          DiagnosticSeverity.Error,
-          'YAML',
-          'mapKeyOrder'
+        createLintRuleDiagnostic(
+          createExpectedError(
+            'Wrong ordering of key "two" in mapping',
+            2,
+            0,
+            2,
+            3,
+            DiagnosticSeverity.Error,
+            'YAML',
+            'mapKeyOrder'
+          ),
+          'key-ordering'
         ),
       ]);
     });
@@ -289,7 +312,19 @@ alpha: 1`;
       expect(result).not.to.be.empty;
       expect(result.length).to.be.equal(1);
       expect(result).to.include.deep.members([
-        createExpectedError('Wrong ordering of key "b" in mapping', 0, 3, 0, 4, DiagnosticSeverity.Error, 'YAML', 'mapKeyOrder'),
+        createLintRuleDiagnostic(
+          createExpectedError(
+            'Wrong ordering of key "b" in mapping',
+            0,
+            3,
+            0,
+            4,
+            DiagnosticSeverity.Error,
+            'YAML',
+            'mapKeyOrder'
+          ),
+          'key-ordering'
+        ),
       ]);
     });
     it('should report key order error for nested', async () => {
@@ -305,25 +340,31 @@ alpha: 1`;
       expect(result).not.to.be.empty;
       expect(result.length).to.be.equal(2);
       expect(result).to.include.deep.members([
-        createExpectedError(
-          'Wrong ordering of key "two" in mapping',
-          2,
-          0,
-          2,
-          3,
-          DiagnosticSeverity.Error,
-          'YAML',
-          'mapKeyOrder'
+        createLintRuleDiagnostic(
+          createExpectedError(
+            'Wrong ordering of key "two" in mapping',
+            2,
+            0,
+            2,
+            3,
+            DiagnosticSeverity.Error,
+            'YAML',
+            'mapKeyOrder'
+          ),
+          'key-ordering'
         ),
-        createExpectedError(
-          'Wrong ordering of key "mild" in mapping',
-          3,
-          2,
-          3,
-          6,
-          DiagnosticSeverity.Error,
-          'YAML',
-          'mapKeyOrder'
+        createLintRuleDiagnostic(
+          createExpectedError(
+            'Wrong ordering of key "mild" in mapping',
+            3,
+            2,
+            3,
+            6,
+            DiagnosticSeverity.Error,
+            'YAML',
+            'mapKeyOrder'
+          ),
+          'key-ordering'
         ),
       ]);
     });
@@ -342,6 +383,284 @@ alpha: 1`;
     });
   });
 
+  describe('Kubernetes API deprecations', () => {
+    function validateKubernetes(content: string, isKubernetes = true): Promise<Diagnostic[]> {
+      const { languageService, yamlSettings: settings } = setupLanguageService(
+        new ServiceSetup().withValidate().languageSettings
+      );
+      settings.kubernetesVersion = 'v1.22.0';
+      return languageService.doValidation(setupSchemaIDTextDocument(content), isKubernetes);
+    }
+
+    it('should report the deprecated apiVersion with its replacement', async () => {
+      const result = await validateKubernetes('apiVersion: batch/v1beta1\nkind: CronJob\n');
+      expect(result).to.have.length(1);
+      expect(result[0]).to.deep.include({
+        message: 'batch/v1beta1 CronJob is deprecated since Kubernetes 1.21 and removed in 1.25, use batch/v1 instead',
+        severity: DiagnosticSeverity.Warning,
+        code: 'kubernetesDeprecatedApi',
+        data: { replacement: 'batch/v1', rule: 'kubernetes-deprecations' },
+      });
+      expect(result[0].range).to.deep.equal({ start: { line: 0, character: 12 }, end: { line: 0, character: 25 } });
+    });
+
+    it('should report the removed apiVersion of the modeline Kubernetes version as an error', async () => {
+      const result = await validateKubernetes(
+        '# yaml-language-server: $k8sVersion=v1.25.0\napiVersion: batch/v1beta1\nkind: CronJob\n'
+      );
+      expect(result).to.have.length(1);
+      expect(result[0].message).to.equal('batch/v1beta1 CronJob is no longer served since Kubernetes 1.25, use batch/v1 instead');
+      expect(result[0].severity).to.equal(DiagnosticSeverity.Error);
+    });
+
+    it('should not report APIs deprecated after the Kubernetes version', async () => {
+      const result = await validateKubernetes('apiVersion: autoscaling/v2beta2\nkind: HorizontalPodAutoscaler\n');
+      expect(result).to.be.empty;
+    });
+
+    it('should only check the Kubernetes documents', async () => {
+      const result = await validateKubernetes('apiVersion: batch/v1beta1\nkind: CronJob\n', false);
+      expect(result).to.be.empty;
+    });
+  });
+
+  describe('Kubernetes references', () => {
+    function validateKubernetes(content: string, isKubernetes = true): Promise<Diagnostic[]> {
+      const { languageService } = setupLanguageService(new ServiceSetup().withValidate().languageSettings);
+      return languageService.doValidation(setupSchemaIDTextDocument(content), isKubernetes);
+    }
+
+    const configMap = 'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: settings\n';
+    const deployment = (configMapName: string): string =>
+      'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  template:\n    metadata:\n      labels:\n        app: web\n' +
+      `    spec:\n      containers:\n        - name: web\n          envFrom:\n            - configMapRef:\n                name: ${configMapName}\n`;
+    const service = (app: string): string =>
+      `apiVersion: v1\nkind: Service\nmetadata:\n  name: web\nspec:\n  selector:\n    app: ${app}\n`;
+
+    it('should not report the references to the resources of the file', async () => {
+      const result = await validateKubernetes([configMap, deployment('settings'), service('web')].join('---\n'));
+      expect(result).to.be.empty;
+    });
+
+    it('should report the references to the undefined resources', async () => {
+      const result = await validateKubernetes([configMap, deployment('setings')].join('---\n'));
+      expect(result).to.have.length(1);
+      expect(result[0]).to.deep.include({
+        message: 'ConfigMap "setings" is not defined in this file',
+        severity: DiagnosticSeverity.Warning,
+        code: 'kubernetesUnresolvedReference',
+      });
+      expect(result[0].range).to.deep.equal({ start: { line: 19, character: 22 }, end: { line: 19, character: 29 } });
+    });
+
+    it('should not report the references to the kinds the file does not define', async () => {
+      const result = await validateKubernetes([deployment('settings'), service('web')].join('---\n'));
+      expect(result).to.be.empty;
+    });
+
+    it('should report the selectors matching no pod template', async () => {
+      const result = await validateKubernetes([deployment('settings'), service('api')].join('---\n'));
+      expect(result).to.have.length(1);
+      expect(result[0]).to.deep.include({
+        message: 'Selector does not match the pod labels of any resource in this file',
+        code: 'kubernetesUnmatchedSelector',
+      });
+      expect(result[0].range.start).to.deep.equal({ line: 22, character: 4 });
+    });
+
+    it('should ignore the kinds named after the properties of the objects', async () => {
+      const result = await validateKubernetes(
+        [deployment('settings'), 'kind: constructor\nspec: {}\n', service('api')].join('---\n')
+      );
+      expect(result.map((diagnostic) => diagnostic.code)).to.deep.equal(['kubernetesUnmatchedSelector']);
+    });
+
+    it('should only check the Kubernetes documents', async () => {
+      const result = await validateKubernetes([configMap, deployment('setings')].join('---\n'), false);
+      expect(result).to.be.empty;
+    });
+  });
+
+  describe('Project configurations', () => {
+    function validateWithProjectConfig(
+      projectConfigUri: string,
+      projectConfigContent: string,
+      content: string
+    ): Promise<Diagnostic[]> {
+      const { languageService } = setupLanguageService({
+        ...new ServiceSetup().withValidate().languageSettings,
+        projectConfigs: [parseProjectConfig(projectConfigUri, projectConfigContent)],
+      });
+      return languageService.doValidation(setupTextDocument(content), false);
+    }
+
+    it('should override the settings for the files of their folder', async () => {
+      const result = await validateWithProjectConfig(
+        'file://~/Desktop/vscode-k8s/.yaml-language-server.yaml',
+        'keyOrdering: true\ncustomTags: ["!Ref scalar"]\n',
+        'b: !Ref x\na: 2\n'
+      );
+      expect(result.map((diagnostic) => diagnostic.message)).to.deep.equal(['Wrong ordering of key "b" in mapping']);
+    });
+
+    it('should leave out the disabled diagnostics', async () => {
+      const result = await validateWithProjectConfig(
+        'file://~/Desktop/.yaml-language-server.yml',
+        'disable:\n  - unused anchor\n',
+        'a: &anchor 1\n'
+      );
+      expect(result).to.be.empty;
+    });
+
+    it('should only leave out the diagnostics of the disabled codes', async () => {
+      const result = await validateWithProjectConfig(
+        'file://~/Desktop/.yaml-language-server.yml',
+        'lint:\n  rules:\n    quoted-strings: warning\ndisable:\n  - code:not\n',
+        'a: plain\n'
+      );
+      expect(result.map((diagnostic) => diagnostic.message)).to.deep.equal(['String value is not quoted']);
+    });
+
+    it('should not apply to the files of other folders', async () => {
+      const result = await validateWithProjectConfig(
+        'file://~/Desktop/other/.yaml-language-server.yaml',
+        'keyOrdering: true\n',
+        'b: 1\na: 2\n'
+      );
+      expect(result).to.be.empty;
+    });
+  });
+
+  describe('Lint rules', () => {
+    function validateWithLintRules(lintRules: LanguageSettings['lintRules'], content: string): Promise<Diagnostic[]> {
+      const { languageService } = setupLanguageService({ ...new ServiceSetup().withValidate().languageSettings, lintRules });
+      return languageService.doValidation(setupTextDocument(content), false);
+    }
+
+    it('should report the diagnostics of a rule with its configured severity', async () => {
+      const result = await validateWithLintRules({ 'unused-anchors': 'info' }, 'a: &anchor 1\n');
+      expect(result).to.have.length(1);
+      expect(result[0].severity).to.equal(DiagnosticSeverity.Information);
+      expect(result[0].data).to.deep.equal({ rule: 'unused-anchors' });
+    });
+
+    it('should not run the rules turned off', async () => {
+      const result = await validateWithLintRules({ 'unused-anchors': 'off' }, 'a: &anchor 1\n');
+      expect(result).to.be.empty;
+    });
+
+    it('should run the rules disabled by default once configured', async () => {
+      const result = await validateWithLintRules({ 'key-ordering': 'warning' }, 'b: 1\na: 2\n');
+      expect(result.map((diagnostic) => diagnostic.message)).to.deep.equal(['Wrong ordering of key "b" in mapping']);
+      expect(result[0].severity).to.equal(DiagnosticSeverity.Warning);
+    });
+
+    it('should run the registered rules', async () => {
+      const { languageService } = setupLanguageService(new ServiceSetup().withValidate().languageSettings);
+      languageService.registerLintRule({
+        id: 'no-todo',
+        create: () => ({
+          validate: (document) =>
+            document.getText().includes('TODO')
+              ? [Diagnostic.create(Range.create(0, 0, 0, 4), 'TODO left', DiagnosticSeverity.Warning)]
+              : [],
+        }),
+      });
+      const result = await languageService.doValidation(setupTextDocument('TODO: 1\n'), false);
+      expect(result.map((diagnostic) => diagnostic.message)).to.deep.equal(['TODO left']);
+    });
+
+    it('should publish the warnings of the rules as warnings', async () => {
+      const { languageService } = setupLanguageService(new ServiceSetup().withValidate().languageSettings);
+      languageService.registerLintRule({
+        id: 'no-todo',
+        create: () => ({
+          validate: () => [Diagnostic.create(Range.create(0, 0, 0, 4), 'TODO left', DiagnosticSeverity.Warning)],
+        }),
+      });
+      const result = toPublishedDiagnostics(await languageService.doValidation(setupTextDocument('TODO: 1\n'), false));
+      expect(result).to.have.length(1);
+      expect(result[0].severity).to.equal(DiagnosticSeverity.Warning);
+      expect(result[0].data).to.deep.equal({ rule: 'no-todo' });
+    });
+
+    it('should apply the severities of the project configurations', async () => {
+      const { languageService } = setupLanguageService({
+        ...new ServiceSetup().withValidate().languageSettings,
+        projectConfigs: [
+          parseProjectConfig(
+            'file://~/Desktop/vscode-k8s/.yaml-language-server.yaml',
+            'lint:\n  rules:\n    unused-anchors: off\n'
+          ),
+        ],
+      });
+      const result = await languageService.doValidation(setupTextDocument('a: &anchor 1\n'), false);
+      expect(result).to.be.empty;
+    });
+  });
+
+  describe('Merge keys diagnostics', () => {
+    function validateMergeKeys(content: string): Promise<Diagnostic[]> {
+      const { languageService } = setupLanguageService({
+        ...new ServiceSetup().withValidate().languageSettings,
+        lintRules: { 'merge-keys': 'info' },
+      });
+      return languageService.doValidation(setupTextDocument(content), false);
+    }
+
+    it('should not report the merge keys by default', async () => {
+      const { languageService } = setupLanguageService(new ServiceSetup().withValidate().languageSettings);
+      const result = await languageService.doValidation(
+        setupTextDocument('base: &base\n  a: 1\nchild:\n  <<: *base\n  a: 2\n'),
+        false
+      );
+      expect(result).to.be.empty;
+    });
+
+    it('should report a key overriding a merged key', async () => {
+      const result = await validateMergeKeys('base: &base\n  a: 1\n  b: 1\nchild:\n  <<: *base\n  a: 2\n');
+      expect(result).to.have.length(1);
+      expect(result[0].message).to.equal('Key "a" overrides the value merged from "*base"');
+      expect(result[0].range).to.deep.equal(Range.create(5, 2, 5, 3));
+      expect(result[0].severity).to.equal(DiagnosticSeverity.Information);
+      expect(result[0].relatedInformation.map((information) => information.location.range)).to.deep.equal([
+        Range.create(1, 2, 1, 3),
+      ]);
+    });
+
+    it('should report a key merged from several anchors', async () => {
+      const result = await validateMergeKeys('one: &one\n  a: 1\ntwo: &two\n  a: 2\nchild:\n  <<: [*one, *two]\n');
+      expect(result).to.have.length(1);
+      expect(result[0].message).to.equal('Key "a" is merged from "*one", "*two", the value of "*one" is used');
+      expect(result[0].range).to.deep.equal(Range.create(5, 13, 5, 17));
+      expect(result[0].relatedInformation.map((information) => information.location.range)).to.deep.equal([
+        Range.create(1, 2, 1, 3),
+        Range.create(3, 2, 3, 3),
+      ]);
+    });
+
+    it('should report the merge keys of YAML 1.1', async () => {
+      const { languageService } = setupLanguageService({
+        ...new ServiceSetup().withValidate().languageSettings,
+        yamlVersion: '1.1',
+        lintRules: { 'merge-keys': 'info' },
+      });
+      const result = await languageService.doValidation(
+        setupTextDocument('base: &base\n  a: 1\nchild:\n  <<: *base\n  a: 2\n'),
+        false
+      );
+      expect(result.map((diagnostic) => diagnostic.message)).to.deep.equal(['Key "a" overrides the value merged from "*base"']);
+    });
+
+    it('should follow the merge keys of the merged mappings', async () => {
+      const result = await validateMergeKeys(
+        'base: &base\n  a: 1\nmiddle: &middle\n  <<: *base\n  b: 1\nchild:\n  <<: *middle\n  a: 2\n'
+      );
+      expect(result.map((diagnostic) => diagnostic.message)).to.deep.equal(['Key "a" overrides the value merged from "*middle"']);
+      expect(result[0].relatedInformation[0].location.range).to.deep.equal(Range.create(1, 2, 1, 3));
+    });
+  });
+
   describe('yaml-language-server-disable comment suppression', () => {
     it('should suppress all diagnostics on the next line when no specifiers given', async () => {
       const yaml = 'foo:\n# yaml-language-server-disable\n\t- bar';
@@ -386,5 +705,18 @@ alpha: 1`;
       const result = await parseSetup(yaml);
       expect(result).to.be.empty;
     });
+
+    it('should suppress the diagnostics of the whole file', async () => {
+      const yaml = 'bar:\n\t- baz\n# yaml-language-server-disable-file Tabs are not allowed\nfoo:\n\t- qux';
+      const result = await parseSetup(yaml);
+      expect(result).to.be.empty;
+    });
+
+    it('should suppress the diagnostics between the start and end comments', async () => {
+      const yaml =
+        'foo:\n# yaml-language-server-disable-start\n\t- bar\n\t- baz\n# yaml-language-server-disable-end\nqux:\n\t- quux';
+      const result = await parseSetup(yaml);
+      expect(result.map((diagnostic) => diagnostic.range.start.line)).to.deep.equal([6]);
+    });
   });
 });
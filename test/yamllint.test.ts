@@ -0,0 +1,154 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Red Hat. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+import { expect } from 'chai';
+import type { Diagnostic } from 'vscode-languageserver-types';
+import { parseProjectConfig } from '../src/languageservice/utils/projectConfig';
+import { parseYamllintConfig } from '../src/languageservice/utils/yamllintConfig';
+import type { LanguageSettings } from '../src/languageservice/yamlLanguageService';
+import { ServiceSetup } from './utils/serviceSetup';
+import { setupLanguageService, setupTextDocument } from './utils/testHelper';
+
+describe('yamllint rules', () => {
+  function validate(content: string, settings: LanguageSettings): Promise<Diagnostic[]> {
+    const { languageService } = setupLanguageService({ ...new ServiceSetup().withValidate().languageSettings, ...settings });
+    return languageService.doValidation(setupTextDocument(content), false);
+  }
+
+  async function getMessages(content: string, lintRules: LanguageSettings['lintRules'], lintRuleOptions = {}): Promise<string[]> {
+    const diagnostics = await validate(content, { lintRules, lintRuleOptions });
+    return diagnostics.map(
+      (diagnostic) => `${diagnostic.range.start.line}:${diagnostic.range.start.character} ${diagnostic.message}`
+    );
+  }
+
+  it('should not run the rules without a configured severity', async () => {
+    expect(await getMessages('a: yes   \n\n\n\nb: 010\n', {})).to.be.empty;
+  });
+
+  it('should report the lines longer than the print width', async () => {
+    const long = 'a: ' + 'word '.repeat(20).trim() + '\n';
+    const words = 'b:\n  - ' + 'x'.repeat(100) + '\n';
+    expect(await getMessages(long + words, { 'line-length': 'warning' })).to.deep.equal([
+      '0:80 Line too long (102 > 80 characters)',
+    ]);
+    expect(await getMessages(long, { 'line-length': 'warning' }, { 'line-length': { max: 120 } })).to.be.empty;
+  });
+
+  it('should report the trailing spaces', async () => {
+    expect(await getMessages('a: 1  \nb: 2\n', { 'trailing-spaces': 'error' })).to.deep.equal(['0:4 Trailing spaces']);
+  });
+
+  it('should report the blank lines over the limits', async () => {
+    expect(await getMessages('\na: 1\n\n\n\nb: 2\n\n', { 'empty-lines': 'error' })).to.deep.equal([
+      '0:0 Too many blank lines (1 > 0)',
+      '4:0 Too many blank lines (3 > 2)',
+      '6:0 Too many blank lines (1 > 0)',
+    ]);
+  });
+
+  it('should report the missing document markers', async () => {
+    const content = 'a: 1\n---\nb: 2\n...\n';
+    expect(await getMessages(content, { 'document-start': 'error', 'document-end': 'error' })).to.deep.equal([
+      '0:0 Missing document start "---"',
+      '1:0 Missing document end "..."',
+    ]);
+    expect(
+      await getMessages(content, { 'document-start': 'error', 'document-end': 'error' }, { 'document-end': { present: false } })
+    ).to.deep.equal(['0:0 Missing document start "---"', '3:0 Found forbidden document end "..."']);
+  });
+
+  it('should report the truthy values of YAML 1.1', async () => {
+    expect(await getMessages('a: yes\nb: true\nOn: 1\nc: "no"\n', { truthy: 'warning' })).to.deep.equal([
+      '0:3 Truthy value should be one of [true, false]',
+      '2:0 Truthy value should be one of [true, false]',
+    ]);
+  });
+
+  it('should report the comments without spaces', async () => {
+    expect(await getMessages('#!/usr/bin/env yaml\n#comment\na: 1  # ok\nb: 2 #no\n', { comments: 'warning' })).to.deep.equal([
+      '1:0 Missing starting space in comment',
+      '3:5 Missing starting space in comment',
+      '3:5 Too few spaces before comment',
+    ]);
+  });
+
+  it('should report the inconsistent indentation', async () => {
+    const content = 'a:\n  b:\n    c: 1\n  d:\n     e: 2\nf:\n- 1\n';
+    expect(await getMessages(content, { indentation: 'warning' })).to.deep.equal([
+      '4:0 Wrong indentation: expected 2 but found 3',
+      '6:0 Wrong indentation: expected 2 but found 0',
+    ]);
+    expect(
+      await getMessages('a:\n- 1\nb:\n  - 2\n', { indentation: 'warning' }, { indentation: { 'indent-sequences': 'consistent' } })
+    ).to.deep.equal(['3:0 Wrong indentation: expected 0 but found 2']);
+  });
+
+  it('should report the octal values', async () => {
+    expect(await getMessages('a: 010\nb: 0o10\nc: "010"\nd: 0\n', { 'octal-values': 'error' })).to.deep.equal([
+      '0:3 Forbidden implicit octal value "010"',
+      '1:3 Forbidden explicit octal value "0o10"',
+    ]);
+  });
+
+  it('should apply the quoted strings policy', async () => {
+    const content = 'a: plain\nb: \'single\'\nc: "double"\nd: 1\n';
+    expect(await getMessages(content, { 'quoted-strings': 'warning' })).to.deep.equal(['0:3 String value is not quoted']);
+    expect(
+      await getMessages(
+        content,
+        { 'quoted-strings': 'warning' },
+        { 'quoted-strings': { 'quote-type': 'double', required: 'only-when-needed' } }
+      )
+    ).to.deep.equal([
+      '1:3 String value is not quoted with double quotes',
+      '2:3 String value is redundantly quoted with double quotes',
+    ]);
+  });
+
+  describe('yamllint configuration', () => {
+    it('should convert the rules of the configuration', () => {
+      const config = parseYamllintConfig(
+        'file:///project/.yamllint',
+        'extends: default\nrules:\n  line-length:\n    max: 120\n    level: warning\n  truthy: disable\n  braces: enable\n'
+      );
+      expect(config.rules['line-length']).to.deep.equal({ max: 120, severity: 'warning' });
+      expect(config.rules['truthy']).to.deep.equal({ severity: 'off' });
+      expect(config.rules['document-start']).to.deep.equal({ severity: 'warning' });
+      expect(config.rules['trailing-spaces']).to.deep.equal({ severity: 'error' });
+      expect(config.rules).not.to.have.property('braces');
+    });
+
+    it('should only convert the key ordering rule when it is listed', async () => {
+      expect(parseYamllintConfig('file:///project/.yamllint', 'extends: default\n').rules).not.to.have.property('key-ordering');
+      expect(
+        parseYamllintConfig('file:///project/.yamllint', 'extends: default\nrules:\n  key-ordering: disable\n').rules[
+          'key-ordering'
+        ]
+      ).to.deep.equal({ severity: 'off' });
+      const diagnostics = await validate('---\nb: 1\na: 2\n', {
+        keyOrdering: true,
+        projectConfigs: [parseProjectConfig('file://~/Desktop/.yamllint', 'extends: default\n')],
+      });
+      expect(diagnostics.map((diagnostic) => diagnostic.message)).to.deep.equal(['Wrong ordering of key "b" in mapping']);
+    });
+
+    it('should apply the configuration to the files of its folder', async () => {
+      const diagnostics = await validate('a: 1   \n', {
+        projectConfigs: [parseProjectConfig('file://~/Desktop/.yamllint', 'rules:\n  trailing-spaces:\n    level: warning\n')],
+      });
+      expect(diagnostics.map((diagnostic) => diagnostic.message)).to.deep.equal(['Trailing spaces']);
+    });
+
+    it('should be overridden by the project configuration of the same folder', async () => {
+      const diagnostics = await validate('a: 1   \n', {
+        projectConfigs: [
+          parseProjectConfig('file://~/Desktop/.yaml-language-server.yaml', 'lint:\n  rules:\n    trailing-spaces: off\n'),
+          parseProjectConfig('file://~/Desktop/.yamllint', 'extends: relaxed\n'),
+        ],
+      });
+      expect(diagnostics).to.be.empty;
+    });
+  });
+});